@@ -0,0 +1,65 @@
+#!/usr/bin/env node
+
+/**
+ * ClaudeCron Worker CLI
+ *
+ * Runs executions queued by a scheduler with execution_mode "workers"
+ * Usage: claudecron worker [config_path]
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ClaudeCronConfig } from '../models/types.js';
+import { StorageFactory } from '../storage/factory.js';
+import { Worker } from '../scheduler/worker.js';
+
+/**
+ * Load the config shared with the scheduler (storage must point at the same database)
+ */
+function loadConfig(configPath?: string): ClaudeCronConfig {
+  const locations = [
+    configPath,
+    './.claude/claudecron.json',
+    path.join(os.homedir(), '.claude/claudecron/config.json'),
+    './claudecron.json', // Legacy location
+  ].filter(Boolean) as string[];
+
+  for (const location of locations) {
+    if (fs.existsSync(location)) {
+      console.error(`[ClaudeCron] Loaded config from: ${location}`);
+      return JSON.parse(fs.readFileSync(location, 'utf-8')) as ClaudeCronConfig;
+    }
+  }
+
+  console.error('[ClaudeCron] Using default configuration');
+  return { storage: { type: 'sqlite' } };
+}
+
+async function main() {
+  try {
+    const config = loadConfig(process.argv[2]);
+    const storage = await StorageFactory.create(config.storage);
+    const worker = new Worker(storage, config.worker, config.scheduler);
+
+    await worker.start();
+
+    // Finish running executions before exiting
+    const shutdown = async () => {
+      await worker.stop();
+      await storage.close();
+      process.exit(0);
+    };
+
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+  } catch (error: any) {
+    console.error(`[ClaudeCron] Worker failed:`, error.message);
+    if (process.env.CLAUDECRON_DEBUG === '1') {
+      console.error(error.stack);
+    }
+    process.exit(1);
+  }
+}
+
+main();
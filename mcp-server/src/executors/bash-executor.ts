@@ -21,9 +21,10 @@ export class BashExecutor implements Executor {
    * Execute a bash task
    * @param task - Task to execute
    * @param execution - Execution record with trigger context
+   * @param signal - Cancellation signal; kills the command's process tree
    * @returns Execution result
    */
-  async execute(task: Task, execution: Execution): Promise<ExecutionResult> {
+  async execute(task: Task, execution: Execution, signal?: AbortSignal): Promise<ExecutionResult> {
     const config = task.task_config as BashTaskConfig;
     const startTime = Date.now();
 
@@ -57,6 +58,7 @@ export class BashExecutor implements Executor {
         cwd,
         env,
         timeout,
+        signal,
       });
 
       const duration = Date.now() - startTime;
@@ -80,6 +82,15 @@ export class BashExecutor implements Executor {
     } catch (error: any) {
       const duration = Date.now() - startTime;
 
+      if (error.code === 'CANCELLED') {
+        return {
+          status: 'cancelled',
+          error: `Command cancelled: ${String(signal?.reason ?? 'cancelled')}`,
+          output: (error.output || '').trim(),
+          duration_ms: duration,
+        };
+      }
+
       if (error.code === 'TIMEOUT') {
         return {
           status: 'timeout',
@@ -110,36 +121,61 @@ export class BashExecutor implements Executor {
       cwd: string;
       env: NodeJS.ProcessEnv;
       timeout: number;
+      signal?: AbortSignal | undefined;
     }
   ): Promise<{ output: string; exitCode: number }> {
     return new Promise((resolve, reject) => {
-      const { cwd, env, timeout } = options;
+      const { cwd, env, timeout, signal } = options;
+
+      if (signal?.aborted) {
+        const error: any = new Error('Command cancelled');
+        error.code = 'CANCELLED';
+        error.output = '';
+        reject(error);
+        return;
+      }
 
       // Use shell to execute command
+      // Detached on POSIX so the shell leads its own process group and
+      // timeouts/cancellation can kill everything it started
       const child = spawn(command, {
         cwd,
         env,
         shell: true,
+        detached: process.platform !== 'win32',
         stdio: ['ignore', 'pipe', 'pipe'],
       });
 
       let stdout = '';
       let stderr = '';
       let timedOut = false;
+      let cancelled = false;
+      let exited = false;
 
-      // Set timeout
-      const timer = setTimeout(() => {
-        timedOut = true;
-        child.kill('SIGTERM');
+      const terminate = () => {
+        this.killProcessTree(child.pid, 'SIGTERM', () => child.kill('SIGTERM'));
 
         // Force kill after 5 seconds
         setTimeout(() => {
-          if (!child.killed) {
-            child.kill('SIGKILL');
+          if (!exited) {
+            this.killProcessTree(child.pid, 'SIGKILL', () => child.kill('SIGKILL'));
           }
-        }, 5000);
+        }, 5000).unref();
+      };
+
+      // Set timeout
+      const timer = setTimeout(() => {
+        timedOut = true;
+        terminate();
       }, timeout);
 
+      // Kill on cancellation
+      const onAbort = () => {
+        cancelled = true;
+        terminate();
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
       // Collect stdout
       child.stdout?.on('data', (data) => {
         stdout += data.toString();
@@ -151,8 +187,18 @@ export class BashExecutor implements Executor {
       });
 
       // Handle exit
-      child.on('exit', (code, signal) => {
+      child.on('exit', (code, exitSignal) => {
+        exited = true;
         clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+
+        if (cancelled) {
+          const error: any = new Error('Command cancelled');
+          error.code = 'CANCELLED';
+          error.output = stdout + stderr;
+          reject(error);
+          return;
+        }
 
         if (timedOut) {
           const error: any = new Error('Command timed out');
@@ -163,7 +209,7 @@ export class BashExecutor implements Executor {
         }
 
         const output = (stdout + stderr).trim();
-        const exitCode = code !== null ? code : (signal ? 1 : 0);
+        const exitCode = code !== null ? code : (exitSignal ? 1 : 0);
 
         resolve({
           output,
@@ -173,7 +219,9 @@ export class BashExecutor implements Executor {
 
       // Handle errors
       child.on('error', (error) => {
+        exited = true;
         clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
         const execError: any = new Error(`Failed to execute command: ${error.message}`);
         execError.output = stdout + stderr;
         reject(execError);
@@ -181,6 +229,26 @@ export class BashExecutor implements Executor {
     });
   }
 
+  /**
+   * Send a signal to a command's whole process group
+   * @param pid - PID of the shell (process group leader)
+   * @param killSignal - Signal to send
+   * @param fallback - Used when the group cannot be signalled (e.g. Windows)
+   */
+  private killProcessTree(pid: number | undefined, killSignal: NodeJS.Signals, fallback: () => void): void {
+    if (pid === undefined || process.platform === 'win32') {
+      fallback();
+      return;
+    }
+
+    try {
+      process.kill(-pid, killSignal);
+    } catch {
+      // Group already gone
+      fallback();
+    }
+  }
+
   /**
    * Build environment variables from task and execution context
    * @param task - Task being executed
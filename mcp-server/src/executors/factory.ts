@@ -22,9 +22,11 @@ export interface Executor {
    * Execute a task
    * @param task - Task to execute
    * @param execution - Execution record with trigger context, status, etc.
+   * @param signal - Aborted when the execution is cancelled; executors stop work
+   *                 and resolve with status 'cancelled' and any partial output
    * @returns Execution result
    */
-  execute(task: Task, execution: Execution): Promise<ExecutionResult>;
+  execute(task: Task, execution: Execution, signal?: AbortSignal): Promise<ExecutionResult>;
 }
 
 /**
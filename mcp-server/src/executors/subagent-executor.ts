@@ -32,7 +32,7 @@ export class SubagentExecutor implements Executor {
     this.storage = storage;
   }
 
-  async execute(task: Task, execution: Execution): Promise<ExecutionResult> {
+  async execute(task: Task, execution: Execution, signal?: AbortSignal): Promise<ExecutionResult> {
     const startTime = Date.now();
     this.toolCalls = [];
 
@@ -58,7 +58,7 @@ export class SubagentExecutor implements Executor {
       const options = await this.buildOptions(task, config);
 
       // 4. Execute
-      return await this.executeSDKQuery(prompt, options, execution, config);
+      return await this.executeSDKQuery(prompt, options, execution, config, signal);
 
     } catch (error) {
       const duration = Date.now() - startTime;
@@ -151,12 +151,14 @@ export class SubagentExecutor implements Executor {
 
   /**
    * Execute SDK query with streaming
+   * Aborting the signal aborts the query stream; output collected so far is kept
    */
   private async executeSDKQuery(
     prompt: string,
     options: any,
     execution: Execution,
-    config: any
+    config: any,
+    signal?: AbortSignal
   ): Promise<ExecutionResult> {
     const startTime = Date.now();
 
@@ -170,66 +172,101 @@ export class SubagentExecutor implements Executor {
 
     console.error(`[SubagentExecutor] Executing prompt (${prompt.length} chars)`);
 
+    // Forward cancellation to the SDK
+    const abortController = new AbortController();
+    options.abortController = abortController;
+    const onAbort = () => abortController.abort(signal?.reason);
+    if (signal?.aborted) {
+      onAbort();
+    } else {
+      signal?.addEventListener('abort', onAbort, { once: true });
+    }
+
     // Stream messages from SDK
-    for await (const message of query({ prompt, options })) {
-      if (message.type === 'assistant') {
-        for (const block of message.message.content) {
-          // Text
-          if (block.type === 'text') {
-            output += block.text;
-            if (streamOutput && this.storage) {
-              await this.storage.appendExecutionOutput(execution.id, block.text);
+    try {
+      for await (const message of query({ prompt, options })) {
+        if (abortController.signal.aborted) {
+          break;
+        }
+
+        if (message.type === 'assistant') {
+          for (const block of message.message.content) {
+            // Text
+            if (block.type === 'text') {
+              output += block.text;
+              if (streamOutput && this.storage) {
+                await this.storage.appendExecutionOutput(execution.id, block.text);
+              }
             }
-          }
 
-          // Thinking
-          if (block.type === 'thinking' && captureThinking) {
-            const thinkingText = (block as any).thinking;
-            thinkingOutput += thinkingText + '\n\n';
-            if (streamOutput && this.storage) {
-              await this.storage.appendExecutionThinking(execution.id, thinkingText);
+            // Thinking
+            if (block.type === 'thinking' && captureThinking) {
+              const thinkingText = (block as any).thinking;
+              thinkingOutput += thinkingText + '\n\n';
+              if (streamOutput && this.storage) {
+                await this.storage.appendExecutionThinking(execution.id, thinkingText);
+              }
             }
-          }
 
-          // Tool use
-          if (block.type === 'tool_use') {
-            this.toolCalls.push({
-              tool_name: block.name,
-              tool_input: block.input,
-              timestamp: new Date().toISOString(),
-              success: false
-            });
-
-            if (streamOutput && this.storage) {
-              const update = `\n[Tool: ${block.name}]\n`;
-              await this.storage.appendExecutionOutput(execution.id, update);
+            // Tool use
+            if (block.type === 'tool_use') {
+              this.toolCalls.push({
+                tool_name: block.name,
+                tool_input: block.input,
+                timestamp: new Date().toISOString(),
+                success: false
+              });
+
+              if (streamOutput && this.storage) {
+                const update = `\n[Tool: ${block.name}]\n`;
+                await this.storage.appendExecutionOutput(execution.id, update);
+              }
             }
           }
         }
-      }
-      else if (message.type === 'result') {
-        if (message.usage) {
-          usage = {
-            input_tokens: message.usage.input_tokens || 0,
-            output_tokens: message.usage.output_tokens || 0,
-            cache_creation_input_tokens: message.usage.cache_creation_input_tokens,
-            cache_read_input_tokens: message.usage.cache_read_input_tokens
-          };
-        }
+        else if (message.type === 'result') {
+          if (message.usage) {
+            usage = {
+              input_tokens: message.usage.input_tokens || 0,
+              output_tokens: message.usage.output_tokens || 0,
+              cache_creation_input_tokens: message.usage.cache_creation_input_tokens,
+              cache_read_input_tokens: message.usage.cache_read_input_tokens
+            };
+          }
 
-        cost = message.total_cost_usd || 0;
+          cost = message.total_cost_usd || 0;
 
-        if (message.subtype === 'success') {
-          console.error(`[SubagentExecutor] Completed successfully`);
-          if (message.result && typeof message.result === 'string') {
-            output = message.result;
+          if (message.subtype === 'success') {
+            console.error(`[SubagentExecutor] Completed successfully`);
+            if (message.result && typeof message.result === 'string') {
+              output = message.result;
+            }
+          } else if (message.subtype === 'error_during_execution') {
+            throw new Error('SDK execution error: Task failed during execution');
+          } else if (message.subtype === 'error_max_turns') {
+            throw new Error('Max turns exceeded');
           }
-        } else if (message.subtype === 'error_during_execution') {
-          throw new Error('SDK execution error: Task failed during execution');
-        } else if (message.subtype === 'error_max_turns') {
-          throw new Error('Max turns exceeded');
         }
       }
+    } catch (error) {
+      if (!abortController.signal.aborted) {
+        throw error;
+      }
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+    }
+
+    if (abortController.signal.aborted) {
+      console.error(`[SubagentExecutor] Query cancelled`);
+      const cancelled: ExecutionResult = {
+        status: 'cancelled',
+        output,
+        error: `Query cancelled: ${String(signal?.reason ?? 'cancelled')}`,
+        duration_ms: Date.now() - startTime
+      };
+      if (thinkingOutput) cancelled.thinking_output = thinkingOutput;
+      if (this.toolCalls.length > 0) cancelled.tool_calls = this.toolCalls;
+      return cancelled;
     }
 
     // Build result
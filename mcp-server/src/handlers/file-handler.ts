@@ -232,6 +232,8 @@ export class FileHandler {
         return 'Cancelled';
       case 'skipped':
         return 'Skipped';
+      case 'interrupted':
+        return 'Interrupted';
       default:
         return status;
     }
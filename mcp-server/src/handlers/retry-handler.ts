@@ -8,6 +8,7 @@
  * - Delay limits (initial and max)
  * - Retry count tracking
  * - Smart retry scheduling
+ * - Durable pending retries (stored via the scheduler's RetryHandler)
  */
 
 import { Task, Execution, RetryHandler as RetryHandlerConfig } from '../models/types.js';
@@ -64,30 +65,21 @@ export class RetryHandler {
       `[RetryHandler] Scheduling retry ${retryCount}/${handler.max_attempts} for task ${task.name} in ${delay}ms`
     );
 
-    // Schedule retry with delay
-    setTimeout(async () => {
-      try {
-        const retryContext = this.buildRetryContext(
-          execution,
-          retryCount,
-          delay
-        );
-
-        await this.scheduler.executeTask(
-          task.id,
-          'retry',
-          retryContext
-        );
-
-        console.error(
-          `[RetryHandler] Retry ${retryCount} started for task ${task.name}`
-        );
-      } catch (error: any) {
-        console.error(
-          `[RetryHandler] Failed to execute retry ${retryCount} for task ${task.name}: ${error.message}`
-        );
-      }
-    }, delay);
+    // Persist the retry so it survives restarts; the scheduler's retry
+    // handler arms the timer and runs it
+    const retryContext = this.buildRetryContext(
+      execution,
+      retryCount,
+      delay
+    );
+
+    await this.scheduler.retryHandler.persistRetry(
+      task.id,
+      execution.id,
+      retryCount,
+      delay,
+      retryContext
+    );
   }
 
   /**
@@ -24,14 +24,24 @@ export type TriggerType =
   | DependencyTrigger
   | IntervalTrigger
   | ManualTrigger
-  | SmartScheduleTrigger;
+  | SmartScheduleTrigger
+  | AtTrigger;
 
 export interface ScheduleTrigger {
   type: 'schedule';
-  cron: string;              // Cron expression (supports seconds)
+  cron: string;              // Cron expression (seconds, @aliases, L, W, #, B)
   timezone?: string;         // IANA timezone (default: UTC)
+  jitter?: string;           // Max delay added to each fire (e.g., "5m")
+  jitter_mode?: JitterMode;  // Default: 'fixed'
 }
 
+/**
+ * How jitter delays are picked
+ * - fixed: the same offset for every run, derived from the task ID
+ * - random: a fresh random offset for every run
+ */
+export type JitterMode = 'fixed' | 'random';
+
 export interface HookTrigger {
   type: 'hook';
   event: HookEvent;          // SessionStart, PostToolUse, etc.
@@ -57,12 +67,45 @@ export interface DependencyTrigger {
   depends_on: string[];      // Task IDs that must complete first
   require_all?: boolean;     // All or any (default: all)
   debounce?: string;         // Wait time after last dependency
+  on?: DependencyOutcome;    // Upstream outcome that counts (default: 'success')
+  when?: DependencyCondition; // Extra checks on the upstream execution
+  within?: string;           // Upstream completions older than this stop counting (e.g., "1h")
+}
+
+/**
+ * Upstream outcome a dependency trigger reacts to
+ * 'failure' includes timeouts and interrupted runs; 'any' is every run that
+ * started (not skipped). Runs that will be retried count once the retries settle
+ */
+export type DependencyOutcome = 'success' | 'failure' | 'any' | 'skipped';
+
+/**
+ * Conditions on the upstream execution (all must hold)
+ */
+export interface DependencyCondition {
+  output_contains?: string;  // Output includes this text
+  output_matches?: string;   // Output matches this regular expression
+  exit_code?: number | number[]; // Exit code is (one of) these
+  min_duration?: string;     // Run took at least this long (e.g., "30s")
+  max_duration?: string;     // Run took at most this long
 }
 
 export interface IntervalTrigger {
   type: 'interval';
   every: string;             // Duration string (e.g., "30m", "2h")
   start?: string;            // ISO 8601 datetime to start
+  end?: string;              // ISO 8601 datetime after which the task stops firing
+  max_runs?: number;         // Stop firing after this many interval/catch-up runs of this trigger
+  align?: boolean;           // Fire on wall-clock boundaries (every 15m -> :00/:15/:30/:45)
+  timezone?: string;         // IANA timezone for align (default: SchedulerConfig.default_timezone)
+  jitter?: string;           // Max delay added to each fire (e.g., "30s")
+  jitter_mode?: JitterMode;  // Default: 'fixed'
+}
+
+export interface AtTrigger {
+  type: 'at';
+  at: string;                // ISO 8601 datetime; without an offset it is wall time in timezone
+  timezone?: string;         // IANA timezone (default: SchedulerConfig.default_timezone)
 }
 
 export interface ManualTrigger {
@@ -73,21 +116,26 @@ export interface ManualTrigger {
 export interface SmartScheduleTrigger {
   type: 'smart_schedule';
   description: string;          // Natural language description
-  constraints?: {
-    business_hours_only?: boolean;
-    timezone?: string;
-    avoid_peak_hours?: boolean;  // Avoid 9-5 in specified timezone
-    max_daily_runs?: number;
-    max_weekly_runs?: number;
-    avoid_conflicts_with?: string[];  // Task IDs to avoid overlapping
-    preferred_time_windows?: string[];  // e.g., ["morning", "evening"]
-  };
+  constraints?: SmartScheduleConstraints;
   ai_optimize?: boolean;         // Let Claude suggest optimal times
   fallback_cron?: string;        // Fallback if AI optimization fails
   computed_cron?: string;        // AI-computed cron expression
   last_optimized?: string;       // ISO timestamp of last optimization
 }
 
+/**
+ * Constraints enforced on the cron chosen for a smart_schedule trigger
+ */
+export interface SmartScheduleConstraints {
+  business_hours_only?: boolean;     // Mon-Fri 09:00-17:00
+  timezone?: string;
+  avoid_peak_hours?: boolean;  // Avoid 9-5 in specified timezone
+  max_daily_runs?: number;
+  max_weekly_runs?: number;          // Weeks start on Monday
+  avoid_conflicts_with?: string[];  // Task IDs to avoid overlapping
+  preferred_time_windows?: string[];  // e.g., ["morning", "evening"] or "HH:MM-HH:MM"
+}
+
 /**
  * Hook Events (from Claude Code SDK)
  * All events available in Claude Code hooks system
@@ -118,7 +166,7 @@ export interface Task {
   task_config: TaskConfig;             // Type-specific configuration
 
   // Trigger Configuration
-  trigger: TriggerType;                // When to run
+  trigger: TriggerType | TriggerType[];  // When to run (any trigger in a list starts a run)
 
   // Execution Options
   options?: ExecutionOptions;          // SDK options, permissions, etc.
@@ -135,6 +183,7 @@ export interface Task {
   updated_at: string;                  // ISO 8601 timestamp
   last_run?: string;                   // ISO 8601 timestamp
   next_run?: string;                   // ISO 8601 timestamp
+  snoozed_until?: string | null;       // ISO 8601; runs from every trigger are skipped until then (null clears)
 
   // Statistics
   run_count: number;                   // Total executions
@@ -251,20 +300,76 @@ export interface ExecutionOptions {
 
   // Concurrency
   max_concurrent?: number;             // Max parallel executions of this task
+  overlap_policy?: OverlapPolicy;      // What to do when max_concurrent runs are active
+  priority?: number;                   // Queue priority (higher runs first, default: 0)
+  rate_limit?: RateLimit;              // Cap on runs from all trigger sources
+
+  // Misfires (schedule/interval/at fire times missed while the server was down)
+  misfire_policy?: MisfirePolicy;      // Default: 'skip' ('run_once' for at triggers)
+  max_catchup_runs?: number;           // Cap for 'run_all' (default: 10)
+
+  // One-shot (at trigger)
+  after_run?: 'disable' | 'delete';    // What happens to the task after it fires (default: 'disable')
+}
+
+/**
+ * Misfire Policy
+ * Applied on startup to fire times missed while the server was not running
+ * - 'skip': Drop missed runs, wait for the next fire time (default)
+ * - 'run_once': Run once for all missed fire times
+ * - 'run_all': Run once per missed fire time, up to max_catchup_runs (latest first kept)
+ * Catch-up runs have trigger_type 'catchup' and trigger_context.scheduled_time
+ */
+export type MisfirePolicy = 'skip' | 'run_once' | 'run_all';
+
+/**
+ * Overlap Policy
+ * Applied when a task is triggered while max_concurrent of its runs are active
+ * - 'allow': Start another run anyway (default when max_concurrent is unset)
+ * - 'skip': Record a skipped execution (reason "overlap")
+ * - 'queue': Wait as 'pending' until a run finishes (default when max_concurrent is set)
+ * - 'cancel_previous': Cancel the active runs, then start
+ */
+export type OverlapPolicy = 'allow' | 'skip' | 'queue' | 'cancel_previous';
+
+/**
+ * Rate Limit
+ * Caps how often a task runs, whatever triggered it. Runs over the limit are
+ * recorded as skipped executions (reason "rate_limited")
+ * e.g. { max_runs: 10, per: "1h" } or { min_interval: "2m" }
+ * Usage is counted per scheduler instance: with cluster_mode each instance
+ * admits up to the limit on its own
+ */
+export interface RateLimit {
+  max_runs?: number;                   // Max runs started in any `per` window
+  per?: string;                        // Window for max_runs (default: "1h")
+  min_interval?: string;               // Min time between run starts, e.g. "2m"
+}
+
+/**
+ * Rate Limit Usage
+ * Current usage of a task's rate limit (shown by claudecron_get_task)
+ */
+export interface RateLimitUsage {
+  runs_in_window?: number;             // Runs started in the last `per`
+  max_runs?: number;
+  window?: string;
+  last_run_at?: string;                // Latest run start counted by the limiter
+  next_allowed_at?: string;            // When a run will next be allowed (absent if allowed now)
 }
 
 /**
  * Task Conditions
  */
 export interface TaskConditions {
-  // Time-based
+  // Time-based (evaluated in timezone, default: SchedulerConfig.default_timezone)
+  timezone?: string;                   // IANA timezone for all time checks
   skip_holidays?: boolean;
   holiday_region?: string;             // e.g., "US", "UK"
-  time_window?: {
-    start: string;                     // HH:MM format
-    end: string;                       // HH:MM format
-    timezone?: string;
-  };
+  holiday_calendars?: string[];        // Local .ics/.json files (combined with holiday_region)
+  time_window?: TimeWindow;
+  time_windows?: TimeWindow[];         // Allowed windows; runs if inside any (combined with time_window)
+  blackouts?: BlackoutPeriod[];        // Date ranges where the task never runs
 
   // File-based
   only_if_file_exists?: string;
@@ -276,6 +381,23 @@ export interface TaskConditions {
   only_if?: CommandCondition;
 }
 
+export type Weekday = 'sun' | 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat';
+
+export interface TimeWindow {
+  name?: string;                       // Shown in skip reasons
+  start: string;                       // HH:MM format (inclusive)
+  end: string;                         // HH:MM format (inclusive); before start = crosses midnight
+  days?: Weekday[];                    // Days the window opens on (default: every day)
+  timezone?: string;                   // Overrides conditions.timezone
+}
+
+export interface BlackoutPeriod {
+  name: string;                        // e.g. "Release freeze"
+  start: string;                       // ISO timestamp, or YYYY-MM-DD for the whole day
+  end: string;                         // ISO timestamp, or YYYY-MM-DD for the whole day (inclusive)
+  timezone?: string;                   // Zone for YYYY-MM-DD dates (default: conditions.timezone)
+}
+
 export interface CommandCondition {
   bash: string;                        // Command to run
   operator: '==' | '!=' | '>' | '<' | '>=' | '<=';
@@ -337,6 +459,32 @@ export interface RetryPolicy {
   retry_on?: 'all' | 'timeout' | 'error';
 }
 
+/**
+ * Pending Retry
+ * A scheduled retry waiting for its due time (persisted so it survives restarts)
+ */
+export interface PendingRetry {
+  id: string;                          // Pending retry ID (UUID)
+  task_id: string;                     // Task to retry
+  execution_id: string;                // Failed execution being retried
+  attempt: number;                     // Retry attempt number (1-based)
+  due_at: string;                      // ISO 8601 timestamp
+  trigger_context: Record<string, any>; // Context for the retry execution
+  created_at: string;                  // ISO 8601 timestamp
+}
+
+/**
+ * Dependency State
+ * Upstream completions counted so far by one dependency trigger (persisted so
+ * partial progress survives restarts)
+ */
+export interface DependencyState {
+  key: string;                         // Trigger key (task ID, or task ID#index in a trigger list)
+  task_id: string;                     // Dependent task
+  completed: Record<string, string>;   // Upstream task ID -> ISO 8601 completion time
+  last_triggered?: string;             // ISO 8601 timestamp
+}
+
 /**
  * Execution Record
  */
@@ -350,13 +498,14 @@ export interface Execution {
   duration_ms?: number;                // Execution duration
 
   // Trigger Info
-  trigger_type: string;                // 'scheduled', 'hook', 'manual', etc.
-  trigger_context?: any;               // Hook context, manual trigger info
+  trigger_type: string;                // 'scheduled', 'hook', 'manual', 'catchup', etc.
+  trigger_context?: any;               // Hook context, manual trigger info; trigger_index for trigger lists
 
   // Status
   status: ExecutionStatus;
   exit_code?: number;                  // For bash tasks
   error?: string;                      // Error message if failed
+  skip_reason?: string;                // Why a 'skipped' execution did not run ("code: detail")
 
   // Output
   output?: string;                     // Task output/result
@@ -377,6 +526,10 @@ export interface Execution {
     cache_read_input_tokens?: number;
   };
   cost_usd?: number;                   // Estimated cost
+
+  // Worker (execution_mode: 'workers')
+  worker_id?: string;                  // Worker that claimed the execution
+  heartbeat_at?: string;               // ISO 8601; last time the worker reported it alive
 }
 
 /**
@@ -399,7 +552,69 @@ export type ExecutionStatus =
   | 'failure'
   | 'timeout'
   | 'cancelled'
-  | 'skipped';
+  | 'skipped'
+  | 'interrupted';                     // Server stopped mid-run (detected on restart)
+
+/**
+ * Workflow
+ * A DAG of existing tasks that runs as one unit
+ */
+export interface Workflow {
+  id: string;                          // Workflow ID (UUID)
+  name: string;
+  description?: string;
+  steps: WorkflowStep[];
+  edges: WorkflowEdge[];               // Order between steps (must not form a cycle)
+  created_at: string;                  // ISO 8601 timestamp
+  updated_at: string;                  // ISO 8601 timestamp
+}
+
+export interface WorkflowStep {
+  id: string;                          // Step name, unique in the workflow
+  task_id: string;                     // Task the step runs
+}
+
+export interface WorkflowEdge {
+  from: string;                        // Upstream step ID
+  to: string;                          // Step that waits for it
+}
+
+/**
+ * Workflow Run
+ * One run of a workflow; steps start once all their upstream steps succeeded
+ */
+export interface WorkflowRun {
+  id: string;                          // Workflow run ID (UUID)
+  workflow_id: string;
+  status: WorkflowRunStatus;
+  trigger_type: string;                // 'manual', etc.
+  steps: WorkflowStepRun[];            // Snapshot of the workflow's steps with their progress
+  started_at: string;                  // ISO 8601 timestamp
+  completed_at?: string;               // ISO 8601 timestamp
+  error?: string;                      // Why the run failed or was cancelled
+}
+
+export interface WorkflowStepRun {
+  step_id: string;
+  task_id: string;
+  depends_on: string[];                // Upstream step IDs
+  status: WorkflowStepStatus;
+  execution_id?: string;               // Final execution of the step (after retries)
+  started_at?: string;                 // ISO 8601 timestamp
+  completed_at?: string;               // ISO 8601 timestamp
+  error?: string;
+}
+
+export type WorkflowRunStatus = 'running' | 'success' | 'failure' | 'cancelled';
+
+export type WorkflowStepStatus =
+  | 'pending'                          // Waiting for upstream steps
+  | 'running'
+  | 'success'
+  | 'failure'                          // Failed, timed out or could not start
+  | 'skipped'                          // Skipped by the task's conditions
+  | 'cancelled'
+  | 'blocked';                         // An upstream step did not succeed
 
 /**
  * Task Template (for marketplace)
@@ -502,6 +717,7 @@ export interface ClaudeCronConfig {
   scheduler?: SchedulerConfig;
   transport?: 'stdio' | 'http';
   http?: HttpTransportConfig;
+  worker?: WorkerConfig;
 }
 
 /**
@@ -536,8 +752,72 @@ export interface SchedulerConfig {
   check_interval?: string;      // How often to check for due tasks (default: "30s")
   default_timezone?: string;    // Default timezone (default: "UTC")
   max_concurrent_tasks?: number; // Max tasks running concurrently
+  queue_order?: QueueOrder;     // Order for executions waiting on a slot (default: "fifo")
+  orphaned_execution_status?: 'interrupted' | 'failure'; // Status for runs left 'running' by a crash (default: "interrupted")
+  cluster_mode?: boolean;       // Several instances share one storage; each scheduled fire runs on only one
+  instance_id?: string;         // Name this instance claims fires under (default: "<hostname>:<pid>")
+  fire_lock_ttl?: string;       // How long a claimed fire stays locked (default: "10m")
+  execution_mode?: ExecutionMode; // Where runs execute (default: "local")
+  worker_timeout?: string;      // Claimed runs without a heartbeat for this long are interrupted (default: "1m")
+}
+
+/**
+ * Worker Configuration
+ * A worker claims 'pending' executions from storage and runs them
+ */
+export interface WorkerConfig {
+  worker_id?: string;           // Name recorded on claimed executions (default: "<hostname>:<pid>")
+  concurrency?: number;         // Executions run at once (default: 1)
+  poll_interval?: string;       // How often to look for queued executions (default: "5s")
+  heartbeat_interval?: string;  // How often running executions are reported alive (default: "15s")
+}
+
+/**
+ * Scheduler Pause
+ * While paused, runs from every trigger except manual runs are skipped
+ */
+export interface SchedulerPause {
+  paused_at: string;            // ISO 8601 timestamp
+  reason?: string;
+  until?: string;               // ISO 8601; resumes automatically at this time
+}
+
+/**
+ * Crash Recovery Report
+ * Executions found 'running' or 'pending' when the scheduler started
+ */
+export interface RecoveryReport {
+  recovered_at: string;         // ISO 8601 timestamp
+  interrupted: number;          // Executions that were running
+  abandoned: number;            // Executions still queued (never started)
+  retried: number;              // Interrupted executions handed to the retry policy
+  execution_ids: string[];
+}
+
+/**
+ * Upcoming run in a schedule preview
+ */
+export interface ScheduledRunPreview {
+  time: string;                 // ISO 8601 fire time (including fixed jitter)
+  trigger_index?: number;       // Trigger that fires it (for trigger lists)
+  skipped: boolean;             // Would be skipped by time windows, blackouts or holidays
+  skip_reason?: string;         // "code: detail", as recorded on skipped executions
 }
 
+/**
+ * Execution Queue Order
+ * - 'fifo': Oldest queued execution runs first
+ * - 'priority': Highest options.priority runs first, FIFO within a priority
+ */
+export type QueueOrder = 'fifo' | 'priority';
+
+/**
+ * Execution Mode
+ * - 'local': The scheduler runs executions itself
+ * - 'workers': The scheduler stores 'pending' executions for worker processes to claim
+ */
+export type ExecutionMode = 'local' | 'workers';
+
 /**
  * % 100 COMPLETE - Type definitions
  */
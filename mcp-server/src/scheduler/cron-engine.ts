@@ -0,0 +1,276 @@
+/**
+ * Cron Engine
+ *
+ * The one cron implementation used to validate schedule triggers, compute
+ * next_run and fire them, so all three agree. Standard 5/6 field syntax, L,
+ * nL and # come from cron-parser; @aliases, W (nearest weekday) and B
+ * (business day) in the day-of-month field are handled here
+ *
+ * % 0 COMPLETE - Cron Engine
+ */
+
+import { CronExpressionParser } from 'cron-parser';
+import { getZonedTime, parseZonedDateTime } from '../utils/timezone.js';
+
+/**
+ * Macros accepted in place of a full expression
+ */
+const CRON_ALIASES: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+/**
+ * Day-of-month values resolved per month: 15W, LW, 3B, LB
+ */
+const DAY_RULE = /^(?:(\d{1,2})|(L))([WB])$/i;
+
+/**
+ * Months searched for a matching day before giving up (e.g. 31W in February only)
+ */
+const MAX_MONTHS_SEARCHED = 12 * 8;
+
+export interface CronOptions {
+  timezone: string;                     // IANA timezone the expression is evaluated in
+  isHoliday?: (date: Date) => boolean;  // Days B skips besides weekends (called with local noon)
+}
+
+/**
+ * Fields of a parsed cron expression (aliases expanded)
+ */
+export interface CronFields {
+  minute: number[];
+  hour: number[];
+  dayOfMonth: string;                   // As written, so L/W/B rules are kept
+  month: string;                        // As written
+  dayOfWeek: number[];                  // 0 (Sunday) - 6
+  weekdayRule: boolean;                 // Day of month is a W or B rule (no day of week allowed)
+}
+
+/**
+ * A parsed cron expression
+ */
+export interface CronSchedule {
+  fields: CronFields;
+
+  /**
+   * Get the first fire time after an instant
+   * @returns Fire time, or null if the expression never fires again
+   */
+  next(after: Date): Date | null;
+
+  /**
+   * Get the next fire times after an instant
+   * @param count - Maximum number of fire times
+   * @param until - Stop after this instant (inclusive)
+   */
+  nextTimes(after: Date, count: number, until?: Date): Date[];
+}
+
+/**
+ * Parse a cron expression
+ * @param expression - 5 or 6 field expression (seconds first), or an @alias
+ * @param options - Timezone and holiday calendar
+ * @throws Error "Invalid cron expression: ..." if it cannot be parsed
+ */
+export function parseCron(expression: string, options: CronOptions): CronSchedule {
+  const invalid = (reason: string) => new Error(`Invalid cron expression: ${expression} (${reason})`);
+
+  let source = expression.trim();
+  if (source.startsWith('@')) {
+    const alias = CRON_ALIASES[source.toLowerCase()];
+    if (!alias) {
+      throw invalid(`unknown alias, expected one of ${Object.keys(CRON_ALIASES).join(', ')}`);
+    }
+    source = alias;
+  }
+
+  const fields = source.split(/\s+/);
+  if (fields.length < 5 || fields.length > 6) {
+    throw invalid(`expected 5 or 6 fields, got ${fields.length}`);
+  }
+
+  // W and B pick one day per month; the rest of the expression is matched by cron-parser
+  const dayIndex = fields.length - 3;
+  const dayOfMonth = fields[dayIndex]!;
+  const rule = DAY_RULE.exec(dayOfMonth);
+  let getDay: ((year: number, month: number) => number | null) | undefined;
+  if (rule) {
+    if (!['*', '?'].includes(fields[fields.length - 1]!)) {
+      throw invalid(`${fields[dayIndex]} cannot be combined with a day of week`);
+    }
+
+    const day = rule[2] ? 'L' : Number(rule[1]);
+    if (day !== 'L' && (day < 1 || day > 31)) {
+      throw invalid(`day ${day} is out of range 1-31`);
+    }
+    getDay = rule[3]!.toUpperCase() === 'W'
+      ? (year, month) => nearestWeekday(year, month, day)
+      : (year, month) => nthBusinessDay(year, month, day, options);
+    fields[dayIndex] = '*';
+    fields[fields.length - 1] = '*';
+  }
+
+  const base = fields.join(' ');
+  let parsed;
+  try {
+    parsed = CronExpressionParser.parse(base, { tz: options.timezone }).fields;
+  } catch (error: any) {
+    throw invalid(error.message);
+  }
+
+  const next = (after: Date): Date | null => {
+    if (!getDay) {
+      return nextBaseTime(base, options.timezone, after);
+    }
+
+    let cursor = after;
+    for (let i = 0; i < MAX_MONTHS_SEARCHED * 2; i++) {
+      const candidate = nextBaseTime(base, options.timezone, cursor);
+      if (!candidate) {
+        return null;
+      }
+
+      const zoned = getZonedTime(candidate, options.timezone);
+      const target = getDay(zoned.year, zoned.month);
+      if (target === zoned.day) {
+        return candidate;
+      }
+
+      // Jump to the target day, or to the next month once it has passed
+      cursor = target !== null && target > zoned.day
+        ? new Date(startOfDay(zoned.year, zoned.month, target, options.timezone).getTime() - 1)
+        : new Date(startOfDay(zoned.year, zoned.month + 1, 1, options.timezone).getTime() - 1);
+    }
+    return null;
+  };
+
+  return {
+    fields: {
+      minute: [...parsed.minute.values] as number[],
+      hour: [...parsed.hour.values] as number[],
+      dayOfMonth,
+      month: fields[dayIndex + 1]!,
+      dayOfWeek: [...new Set((parsed.dayOfWeek.values as number[]).map(day => day % 7))],
+      weekdayRule: rule !== null,
+    },
+    next,
+    nextTimes(after: Date, count: number, until?: Date): Date[] {
+      const times: Date[] = [];
+      let cursor: Date | null = after;
+      while (times.length < count && (cursor = next(cursor))) {
+        if (until && cursor.getTime() > until.getTime()) {
+          break;
+        }
+        times.push(cursor);
+      }
+      return times;
+    },
+  };
+}
+
+/**
+ * Check if a cron expression can be parsed
+ */
+export function isValidCron(expression: string): boolean {
+  try {
+    parseCron(expression, { timezone: 'UTC' });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get the next fire time of an expression cron-parser understands
+ */
+function nextBaseTime(expression: string, timezone: string, after: Date): Date | null {
+  try {
+    return CronExpressionParser.parse(expression, { currentDate: after, tz: timezone }).next().toDate();
+  } catch {
+    // Out of range: the expression has no later fire time
+    return null;
+  }
+}
+
+/**
+ * Get the instant a calendar day starts in a timezone (month may be 13 for January next year)
+ */
+function startOfDay(year: number, month: number, day: number, timezone: string): Date {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return parseZonedDateTime(date.toISOString().slice(0, 10), timezone);
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function weekdayOf(year: number, month: number, day: number): number {
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+/**
+ * Get the weekday nearest to a day without leaving the month (Quartz W)
+ * @returns Day of month, or null if the month has no such day
+ */
+function nearestWeekday(year: number, month: number, day: number | 'L'): number | null {
+  const lastDay = daysInMonth(year, month);
+  const target = day === 'L' ? lastDay : day;
+  if (target > lastDay) {
+    return null;
+  }
+
+  switch (weekdayOf(year, month, target)) {
+    case 6:
+      return target === 1 ? 3 : target - 1;
+    case 0:
+      return target === lastDay ? target - 2 : target + 1;
+    default:
+      return target;
+  }
+}
+
+/**
+ * Get the nth (or last) business day of a month: Monday-Friday and not a holiday
+ * @returns Day of month, or null if the month has fewer business days
+ */
+function nthBusinessDay(year: number, month: number, n: number | 'L', options: CronOptions): number | null {
+  const lastDay = daysInMonth(year, month);
+  const isBusinessDay = (day: number): boolean => {
+    const weekday = weekdayOf(year, month, day);
+    if (weekday === 0 || weekday === 6) {
+      return false;
+    }
+    if (!options.isHoliday) {
+      return true;
+    }
+    const noon = new Date(startOfDay(year, month, day, options.timezone).getTime() + 12 * 60 * 60 * 1000);
+    return !options.isHoliday(noon);
+  };
+
+  if (n === 'L') {
+    for (let day = lastDay; day >= 1; day--) {
+      if (isBusinessDay(day)) {
+        return day;
+      }
+    }
+    return null;
+  }
+
+  let count = 0;
+  for (let day = 1; day <= lastDay; day++) {
+    if (isBusinessDay(day) && ++count === n) {
+      return day;
+    }
+  }
+  return null;
+}
+
+/**
+ * % 100 COMPLETE - Cron Engine
+ */
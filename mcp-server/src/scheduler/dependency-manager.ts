@@ -6,19 +6,31 @@
  * % 0 COMPLETE - Dependency Manager (Day 3)
  */
 
-import { Task, Execution, DependencyTrigger } from '../models/types.js';
+import {
+  Task,
+  Execution,
+  ExecutionStatus,
+  DependencyOutcome,
+  DependencyState,
+  DependencyTrigger,
+} from '../models/types.js';
 import { Storage } from '../storage/storage.js';
+import { getTaskTriggers, getTriggerIndexContext, getTriggers, isTriggerKeyOf } from '../utils/triggers.js';
 
-interface DependencyState {
-  taskId: string;
-  completedDependencies: Set<string>;
-  lastTriggered?: number;
-}
+/**
+ * Execution statuses each dependency outcome accepts
+ */
+const OUTCOME_STATUSES: Record<DependencyOutcome, ExecutionStatus[]> = {
+  success: ['success'],
+  failure: ['failure', 'timeout', 'interrupted'],
+  any: ['success', 'failure', 'timeout', 'interrupted', 'cancelled'],
+  skipped: ['skipped'],
+};
 
 export class DependencyManager {
   private storage: Storage;
   private dependencyGraph: Map<string, Set<string>>; // taskId -> dependentTaskIds
-  private dependencyState: Map<string, DependencyState>; // taskId -> state
+  private dependencyState: Map<string, DependencyState>; // trigger key -> state
   private scheduler: any; // Will be set via setScheduler()
 
   constructor(storage: Storage) {
@@ -36,15 +48,19 @@ export class DependencyManager {
 
   /**
    * Build dependency graph from all tasks
+   * Progress saved in storage is restored, so completions counted before a
+   * restart still count
    */
   async buildDependencyGraph(tasks: Task[]): Promise<void> {
     this.dependencyGraph.clear();
     this.dependencyState.clear();
 
+    const saved = await this.loadSavedStates();
+
     // Build reverse dependency graph (parent -> dependents)
     for (const task of tasks) {
-      if (task.trigger.type === 'dependency') {
-        const trigger = task.trigger as DependencyTrigger;
+      for (const { task: view, key } of getTaskTriggers(task, 'dependency')) {
+        const trigger = view.trigger;
 
         // Validate dependencies exist
         for (const depId of trigger.depends_on) {
@@ -63,17 +79,14 @@ export class DependencyManager {
           this.dependencyGraph.get(depId)!.add(task.id);
         }
 
-        // Initialize state
-        this.dependencyState.set(task.id, {
-          taskId: task.id,
-          completedDependencies: new Set(),
-        });
+        // Initialize state (one per dependency trigger)
+        this.dependencyState.set(key, this.restoreState(key, task.id, trigger, saved.get(key)));
       }
     }
 
     // Validate no circular dependencies
     for (const task of tasks) {
-      if (task.trigger.type === 'dependency') {
+      if (getTaskTriggers(task, 'dependency').length > 0) {
         if (this.hasCircularDependency(task.id, new Set())) {
           throw new Error(
             `Circular dependency detected for task ${task.name} (${task.id})`
@@ -87,6 +100,150 @@ export class DependencyManager {
     );
   }
 
+  /**
+   * Update the graph after a task was created or changed
+   * Progress of its dependency triggers is kept
+   */
+  async onTaskSaved(task: Task): Promise<void> {
+    this.removeFromGraph(task.id);
+    if (!task.enabled) {
+      return;
+    }
+
+    const triggers = getTaskTriggers(task, 'dependency');
+    const saved = triggers.length > 0 ? await this.loadSavedStates() : new Map<string, DependencyState>();
+
+    for (const { task: view, key } of triggers) {
+      for (const depId of view.trigger.depends_on) {
+        if (!this.dependencyGraph.has(depId)) {
+          this.dependencyGraph.set(depId, new Set());
+        }
+        this.dependencyGraph.get(depId)!.add(task.id);
+      }
+      this.dependencyState.set(key, this.restoreState(key, task.id, view.trigger, saved.get(key)));
+    }
+  }
+
+  /**
+   * Update the graph after a task was deleted
+   * Tasks that depended on it keep waiting for it
+   */
+  onTaskDeleted(taskId: string): void {
+    this.removeFromGraph(taskId);
+    this.dependencyGraph.delete(taskId);
+  }
+
+  /**
+   * Remove a task's dependency triggers from the graph
+   */
+  private removeFromGraph(taskId: string): void {
+    for (const [parentId, dependents] of this.dependencyGraph) {
+      dependents.delete(taskId);
+      if (dependents.size === 0) {
+        this.dependencyGraph.delete(parentId);
+      }
+    }
+    for (const key of [...this.dependencyState.keys()]) {
+      if (isTriggerKeyOf(key, taskId)) {
+        this.dependencyState.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Build a trigger's state from its saved progress
+   * Only completions of tasks it still depends on are kept
+   */
+  private restoreState(
+    key: string,
+    taskId: string,
+    trigger: DependencyTrigger,
+    saved?: DependencyState
+  ): DependencyState {
+    return {
+      key,
+      task_id: taskId,
+      completed: Object.fromEntries(
+        Object.entries(saved?.completed ?? {}).filter(([depId]) => trigger.depends_on.includes(depId))
+      ),
+      ...(saved?.last_triggered && { last_triggered: saved.last_triggered }),
+    };
+  }
+
+  /**
+   * Check a task's dependencies before it is saved
+   * @param task - The task as it will be saved (no id for a task not created yet)
+   * @throws Error if it depends on itself or a missing task, or would close a cycle
+   */
+  async checkDependencies(task: Pick<Task, 'name' | 'trigger'> & { id?: string; enabled?: boolean }): Promise<void> {
+    const dependsOn = [...new Set(
+      getTriggers(task).flatMap(trigger => trigger.type === 'dependency' ? trigger.depends_on : [])
+    )];
+
+    for (const depId of dependsOn) {
+      if (depId === task.id) {
+        throw new Error(`Task ${task.name} cannot depend on itself`);
+      }
+      if (!(await this.storage.getTask(depId))) {
+        throw new Error(`Task ${task.name} depends on non-existent task ${depId}`);
+      }
+    }
+
+    // Nothing depends on a new task yet, and disabled tasks are not in the graph
+    if (task.id === undefined || task.enabled === false) {
+      return;
+    }
+
+    const path = this.findDependentPath(task.id, new Set(dependsOn));
+    if (path) {
+      throw new Error(
+        `Circular dependency detected for task ${task.name}: ${[...path, task.id].join(' -> ')}`
+      );
+    }
+  }
+
+  /**
+   * Find a chain of dependents from a task to one of the targets (BFS)
+   * @returns Task IDs from the task to the target, or null if none is reachable
+   */
+  private findDependentPath(taskId: string, targets: Set<string>): string[] | null {
+    const previous = new Map<string, string>();
+    const queue = [taskId];
+    const visited = new Set(queue);
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      if (targets.has(current)) {
+        const path = [current];
+        while (path[0] !== taskId) {
+          path.unshift(previous.get(path[0]!)!);
+        }
+        return path;
+      }
+
+      for (const dependentId of this.dependencyGraph.get(current) ?? []) {
+        if (!visited.has(dependentId)) {
+          visited.add(dependentId);
+          previous.set(dependentId, current);
+          queue.push(dependentId);
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Get the tasks (enabled or not) with a dependency trigger on a task
+   */
+  async findDependentTasks(taskId: string): Promise<Task[]> {
+    const tasks = await this.storage.loadTasks({});
+    return tasks.filter(task =>
+      task.id !== taskId &&
+      getTaskTriggers(task, 'dependency').some(view => view.task.trigger.depends_on.includes(taskId))
+    );
+  }
+
   /**
    * Check for circular dependencies using DFS
    */
@@ -111,17 +268,10 @@ export class DependencyManager {
   }
 
   /**
-   * Handle task completion - trigger dependent tasks
+   * Handle task completion - trigger dependents whose outcome and conditions match
+   * @param execution - Final execution of the task (not one that will be retried)
    */
   async onTaskCompleted(taskId: string, execution: Execution): Promise<void> {
-    // Only trigger on successful completion
-    if (execution.status !== 'success') {
-      console.error(
-        `[DependencyManager] Task ${taskId} did not complete successfully, not triggering dependents`
-      );
-      return;
-    }
-
     // Get tasks that depend on this one
     const dependents = this.dependencyGraph.get(taskId);
     if (!dependents || dependents.size === 0) {
@@ -129,7 +279,7 @@ export class DependencyManager {
     }
 
     console.error(
-      `[DependencyManager] Task ${taskId} completed, checking ${dependents.size} dependents`
+      `[DependencyManager] Task ${taskId} finished with status ${execution.status}, checking ${dependents.size} dependents`
     );
 
     // Check each dependent task
@@ -139,29 +289,56 @@ export class DependencyManager {
         continue;
       }
 
-      const trigger = task.trigger as DependencyTrigger;
-      const state = this.dependencyState.get(dependentId);
-      if (!state) {
-        continue;
-      }
-
-      // Mark this dependency as completed
-      state.completedDependencies.add(taskId);
+      // A task can have several dependency triggers; each keeps its own state
+      for (const { task: view, index, key } of getTaskTriggers(task, 'dependency')) {
+        const trigger = view.trigger;
+        if (!trigger.depends_on.includes(taskId)) {
+          continue;
+        }
 
-      // Check if requirements are met
-      const shouldTrigger = trigger.require_all ?? true
-        ? this.allDependenciesMet(trigger.depends_on, state.completedDependencies)
-        : this.anyDependencyMet(trigger.depends_on, state.completedDependencies);
+        const mismatch = this.getMismatchReason(trigger, execution);
+        if (mismatch) {
+          console.error(
+            `[DependencyManager] Not counting task ${taskId} for ${task.name}: ${mismatch}`
+          );
+          continue;
+        }
 
-      if (shouldTrigger) {
-        // Apply debouncing if configured
-        const debounceMs = this.parseDuration(trigger.debounce || '0s');
         const now = Date.now();
+        const triggeredAt = new Date(now).toISOString();
+        let claimed: Record<string, string> = {};
+        let lastTriggered: string | undefined;
+        let shouldTrigger = false;
+
+        // Count the completion and claim the trigger in one storage update, so
+        // upstream tasks finishing at once on different workers see each other
+        // and only one of them triggers the dependent
+        const state = await this.changeState(key, dependentId, current => {
+          Object.assign(current, this.restoreState(key, dependentId, trigger, current));
+
+          // Mark this dependency as completed
+          current.completed[taskId] = execution.completed_at ?? new Date(now).toISOString();
+          this.dropExpiredCompletions(trigger, current, now);
+
+          // Check if requirements are met
+          shouldTrigger = (trigger.require_all ?? true
+            ? this.allDependenciesMet(trigger.depends_on, current.completed)
+            : this.anyDependencyMet(trigger.depends_on, current.completed)
+          ) && !this.isDebounced(task, trigger, current, now);
+
+          if (shouldTrigger) {
+            claimed = current.completed;
+            lastTriggered = current.last_triggered;
+            current.last_triggered = triggeredAt;
+            current.completed = {};
+          }
+        });
+        if (!state) {
+          continue;
+        }
+        this.dependencyState.set(key, state);
 
-        if (state.lastTriggered !== undefined && now - state.lastTriggered < debounceMs) {
-          console.error(
-            `[DependencyManager] Debouncing task ${task.name}, last triggered ${now - state.lastTriggered}ms ago`
-          );
+        if (!shouldTrigger) {
           continue;
         }
 
@@ -174,19 +351,115 @@ export class DependencyManager {
           await this.scheduler.executeTask(dependentId, 'dependency', {
             triggered_by: taskId,
             execution_id: execution.id,
+            ...getTriggerIndexContext(index),
           });
-
-          // Update state
-          state.lastTriggered = now;
-          state.completedDependencies.clear();
         } catch (error: any) {
           console.error(
             `[DependencyManager] Failed to trigger dependent task ${task.name}:`,
             error.message
           );
+
+          // Give back the completions the trigger claimed
+          const restored = await this.changeState(key, dependentId, current => {
+            current.completed = { ...claimed, ...current.completed };
+            if (current.last_triggered === triggeredAt) {
+              delete current.last_triggered;
+              if (lastTriggered) current.last_triggered = lastTriggered;
+            }
+          });
+          if (restored) {
+            this.dependencyState.set(key, restored);
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Check an upstream execution against a dependency trigger's outcome and conditions
+   * @returns Why the execution does not count, or null if it does
+   */
+  private getMismatchReason(trigger: DependencyTrigger, execution: Execution): string | null {
+    const on = trigger.on ?? 'success';
+    if (!OUTCOME_STATUSES[on].includes(execution.status)) {
+      return `status ${execution.status} does not match on: ${on}`;
+    }
+
+    const when = trigger.when;
+    if (!when) {
+      return null;
+    }
+
+    const output = execution.output ?? '';
+    if (when.output_contains !== undefined && !output.includes(when.output_contains)) {
+      return `output does not contain "${when.output_contains}"`;
+    }
+
+    if (when.output_matches !== undefined) {
+      try {
+        if (!new RegExp(when.output_matches).test(output)) {
+          return `output does not match /${when.output_matches}/`;
         }
+      } catch {
+        return `invalid output_matches pattern: ${when.output_matches}`;
+      }
+    }
+
+    if (when.exit_code !== undefined) {
+      const codes = Array.isArray(when.exit_code) ? when.exit_code : [when.exit_code];
+      if (execution.exit_code === undefined || !codes.includes(execution.exit_code)) {
+        return `exit code ${execution.exit_code ?? 'none'} is not ${codes.join(' or ')}`;
       }
     }
+
+    const duration = execution.duration_ms ?? 0;
+    if (when.min_duration !== undefined && duration < this.parseDuration(when.min_duration)) {
+      return `duration ${duration}ms is below ${when.min_duration}`;
+    }
+    if (when.max_duration !== undefined && duration > this.parseDuration(when.max_duration)) {
+      return `duration ${duration}ms is above ${when.max_duration}`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Forget upstream completions older than the trigger's within window
+   */
+  private dropExpiredCompletions(trigger: DependencyTrigger, state: DependencyState, now: number): void {
+    const withinMs = this.parseDuration(trigger.within || '0s');
+    if (withinMs === 0) {
+      return;
+    }
+
+    for (const [depId, completedAt] of Object.entries(state.completed)) {
+      if (now - Date.parse(completedAt) > withinMs) {
+        console.error(
+          `[DependencyManager] Completion of task ${depId} at ${completedAt} is older than ${trigger.within}, no longer counting it`
+        );
+        delete state.completed[depId];
+      }
+    }
+  }
+
+  /**
+   * Check if the trigger fired too recently (debounce)
+   */
+  private isDebounced(task: Task, trigger: DependencyTrigger, state: DependencyState, now: number): boolean {
+    const debounceMs = this.parseDuration(trigger.debounce || '0s');
+    if (state.last_triggered === undefined) {
+      return false;
+    }
+
+    const sinceLast = now - Date.parse(state.last_triggered);
+    if (sinceLast >= debounceMs) {
+      return false;
+    }
+
+    console.error(
+      `[DependencyManager] Debouncing task ${task.name}, last triggered ${sinceLast}ms ago`
+    );
+    return true;
   }
 
   /**
@@ -194,9 +467,9 @@ export class DependencyManager {
    */
   private allDependenciesMet(
     dependencies: string[],
-    completed: Set<string>
+    completed: Record<string, string>
   ): boolean {
-    return dependencies.every(dep => completed.has(dep));
+    return dependencies.every(dep => completed[dep] !== undefined);
   }
 
   /**
@@ -204,9 +477,43 @@ export class DependencyManager {
    */
   private anyDependencyMet(
     dependencies: string[],
-    completed: Set<string>
+    completed: Record<string, string>
   ): boolean {
-    return dependencies.some(dep => completed.has(dep));
+    return dependencies.some(dep => completed[dep] !== undefined);
+  }
+
+  /**
+   * Load saved dependency state by trigger key
+   * Starts from empty state if storage cannot be read
+   */
+  private async loadSavedStates(): Promise<Map<string, DependencyState>> {
+    try {
+      const states = await this.storage.loadDependencyStates();
+      return new Map(states.map(state => [state.key, state]));
+    } catch (error: any) {
+      console.error('[DependencyManager] Failed to load dependency state:', error.message);
+      return new Map();
+    }
+  }
+
+  /**
+   * Change a trigger's progress in storage, where every worker sees it
+   * @returns Saved state, or null if storage could not be updated
+   */
+  private async changeState(
+    key: string,
+    taskId: string,
+    change: (state: DependencyState) => void
+  ): Promise<DependencyState | null> {
+    try {
+      return await this.storage.changeDependencyState(key, taskId, state => {
+        change(state);
+        return true;
+      });
+    } catch (error: any) {
+      console.error(`[DependencyManager] Failed to save dependency state for ${key}:`, error.message);
+      return null;
+    }
   }
 
   /**
@@ -221,35 +528,13 @@ export class DependencyManager {
    * Validate a task's dependencies
    */
   async validateDependencies(task: Task): Promise<boolean> {
-    if (task.trigger.type !== 'dependency') {
+    try {
+      await this.checkDependencies(task);
       return true;
-    }
-
-    const trigger = task.trigger as DependencyTrigger;
-
-    // Check all dependencies exist
-    for (const depId of trigger.depends_on) {
-      const depTask = await this.storage.getTask(depId);
-      if (!depTask) {
-        console.error(
-          `[DependencyManager] Task ${task.name} depends on non-existent task ${depId}`
-        );
-        return false;
-      }
-    }
-
-    // Check for circular dependencies
-    const allTasks = await this.storage.loadTasks({});
-    await this.buildDependencyGraph(allTasks);
-
-    if (this.hasCircularDependency(task.id, new Set())) {
-      console.error(
-        `[DependencyManager] Circular dependency detected for task ${task.name}`
-      );
+    } catch (error: any) {
+      console.error(`[DependencyManager] ${error.message}`);
       return false;
     }
-
-    return true;
   }
 
   /**
@@ -294,8 +579,8 @@ export class DependencyManager {
    */
   resetState(): void {
     for (const state of this.dependencyState.values()) {
-      state.completedDependencies.clear();
-      delete state.lastTriggered;
+      state.completed = {};
+      delete state.last_triggered;
     }
   }
 }
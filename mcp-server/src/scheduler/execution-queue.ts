@@ -0,0 +1,331 @@
+/**
+ * Execution Queue
+ *
+ * Bounds the number of task executions running at once
+ * Executions over the limit wait in 'pending' status until a slot frees up
+ *
+ * % 0 COMPLETE - Execution Queue
+ */
+
+import { Task, Execution, QueueOrder, OverlapPolicy } from '../models/types.js';
+import { Storage } from '../storage/storage.js';
+
+/**
+ * Runs a single execution to completion
+ */
+export type ExecutionRunner = (task: Task, execution: Execution) => Promise<void>;
+
+/**
+ * Resolve a task's overlap policy and per-task concurrency limit
+ * @param task - Task to inspect
+ * @returns Policy and the number of runs allowed at once (undefined for 'allow')
+ */
+export function getOverlapSettings(task: Task): { policy: OverlapPolicy; limit?: number } {
+  const maxConcurrent = task.options?.max_concurrent;
+  const policy = task.options?.overlap_policy ?? (maxConcurrent !== undefined ? 'queue' : 'allow');
+
+  if (policy === 'allow') {
+    return { policy };
+  }
+
+  return { policy, limit: Math.max(1, maxConcurrent ?? 1) };
+}
+
+interface QueuedExecution {
+  task: Task;
+  execution: Execution;
+  priority: number;
+  sequence: number;
+}
+
+/**
+ * ExecutionQueue
+ *
+ * Global FIFO or priority queue in front of the executors
+ */
+export class ExecutionQueue {
+  private storage: Storage;
+  private maxConcurrent: number;
+  private order: QueueOrder;
+  private runner?: ExecutionRunner;
+  private running: Map<string, Task> = new Map(); // executionId -> task
+  private reserved: number = 0;
+  private reservedByTask: Map<string, number> = new Map();
+  private pending: QueuedExecution[] = [];
+  private promoting: Map<string, { cancelled: boolean; update: Promise<Execution> }> = new Map(); // executionId -> promotion
+  private sequence: number = 0;
+
+  constructor(storage: Storage, maxConcurrent: number, order: QueueOrder = 'fifo') {
+    this.storage = storage;
+    this.maxConcurrent = Math.max(1, maxConcurrent);
+    this.order = order;
+  }
+
+  /**
+   * Set the function used to run executions
+   */
+  setRunner(runner: ExecutionRunner): void {
+    this.runner = runner;
+  }
+
+  /**
+   * Reserve a slot for an execution that is about to be created
+   * Respects both the global limit and the task's 'queue' overlap limit
+   * @param task - Task the execution belongs to
+   * @returns True if a slot was reserved and the execution may start immediately
+   */
+  tryReserve(task: Task): boolean {
+    if (!this.canStart(task)) {
+      return false;
+    }
+    this.reserve(task);
+    return true;
+  }
+
+  /**
+   * Give back a reservation that will not be used
+   */
+  releaseReservation(task: Task): void {
+    this.unreserve(task);
+    this.drain();
+  }
+
+  /**
+   * Start an execution in a previously reserved slot
+   */
+  start(task: Task, execution: Execution): void {
+    this.unreserve(task);
+    this.launch(task, execution);
+  }
+
+  /**
+   * Add a 'pending' execution to the queue
+   */
+  enqueue(task: Task, execution: Execution): void {
+    this.pending.push({
+      task,
+      execution,
+      priority: task.options?.priority ?? 0,
+      sequence: this.sequence++,
+    });
+
+    console.error(
+      `[ExecutionQueue] Queued execution ${execution.id} for task ${task.name} (${this.pending.length} pending)`
+    );
+
+    this.drain();
+  }
+
+  /**
+   * Get number of running executions
+   */
+  getRunningCount(): number {
+    return this.running.size;
+  }
+
+  /**
+   * Get number of queued executions
+   */
+  getPendingCount(): number {
+    return this.pending.length;
+  }
+
+  /**
+   * Get IDs of a task's running and queued executions
+   */
+  getActiveExecutions(taskId: string): { running: string[]; pending: string[] } {
+    const running: string[] = [];
+    for (const [executionId, task] of this.running.entries()) {
+      if (task.id === taskId) {
+        running.push(executionId);
+      }
+    }
+
+    const pending = this.pending
+      .filter(item => item.task.id === taskId)
+      .map(item => item.execution.id);
+
+    return { running, pending };
+  }
+
+  /**
+   * Remove a queued execution without running it
+   * An execution already leaving the queue is stopped before it starts
+   * @returns True if the execution was queued
+   */
+  async removePending(executionId: string): Promise<boolean> {
+    const promotion = this.promoting.get(executionId);
+    if (promotion) {
+      promotion.cancelled = true;
+      // Let its 'running' update land before the caller records the cancel
+      await promotion.update.catch(() => undefined);
+      return true;
+    }
+
+    const before = this.pending.length;
+    this.pending = this.pending.filter(item => item.execution.id !== executionId);
+    return this.pending.length !== before;
+  }
+
+  /**
+   * Get queued executions in the order they will run
+   */
+  getPendingExecutions(): Execution[] {
+    return this.sortedPending().map(item => item.execution);
+  }
+
+  /**
+   * Mark all queued executions as cancelled and empty the queue
+   * @param reason - Error message recorded on each cancelled execution
+   * @returns The cancelled executions, for the caller to finalize
+   */
+  async cancelAllPending(reason: string): Promise<Execution[]> {
+    const pending = this.pending;
+    this.pending = [];
+
+    const cancelled: Execution[] = [];
+    for (const item of pending) {
+      try {
+        cancelled.push(await this.storage.updateExecution(item.execution.id, {
+          status: 'cancelled',
+          completed_at: new Date().toISOString(),
+          duration_ms: 0,
+          error: reason,
+        }));
+      } catch (error: any) {
+        console.error(
+          `[ExecutionQueue] Failed to cancel queued execution ${item.execution.id}:`,
+          error.message
+        );
+      }
+    }
+    return cancelled;
+  }
+
+  /**
+   * Run an execution and free its slot when it settles
+   */
+  private launch(task: Task, execution: Execution): void {
+    if (!this.runner) {
+      throw new Error('Runner not set. Call setRunner() before starting executions.');
+    }
+
+    this.running.set(execution.id, task);
+
+    this.runner(task, execution)
+      .catch((error) => {
+        console.error(`[Scheduler] Unhandled error in task execution:`, error);
+      })
+      .finally(() => {
+        this.running.delete(execution.id);
+        this.drain();
+      });
+  }
+
+  /**
+   * Start queued executions while slots are free
+   */
+  private drain(): void {
+    while (this.pending.length > 0) {
+      const next = this.sortedPending().find(item => this.canStart(item.task));
+      if (!next) {
+        return;
+      }
+
+      this.pending = this.pending.filter(item => item !== next);
+      this.reserve(next.task);
+      this.promote(next).catch((error) => {
+        console.error(`[ExecutionQueue] Failed to start queued execution:`, error);
+      });
+    }
+  }
+
+  /**
+   * Check whether an execution of a task may start now
+   */
+  private canStart(task: Task): boolean {
+    if (this.running.size + this.reserved >= this.maxConcurrent) {
+      return false;
+    }
+
+    const { policy, limit } = getOverlapSettings(task);
+    if (policy !== 'queue' || limit === undefined) {
+      return true;
+    }
+
+    let active = this.reservedByTask.get(task.id) ?? 0;
+    for (const runningTask of this.running.values()) {
+      if (runningTask.id === task.id) {
+        active++;
+      }
+    }
+    return active < limit;
+  }
+
+  private reserve(task: Task): void {
+    this.reserved++;
+    this.reservedByTask.set(task.id, (this.reservedByTask.get(task.id) ?? 0) + 1);
+  }
+
+  private unreserve(task: Task): void {
+    const taskReserved = this.reservedByTask.get(task.id) ?? 0;
+    if (taskReserved === 0) {
+      return;
+    }
+
+    this.reserved--;
+    if (taskReserved === 1) {
+      this.reservedByTask.delete(task.id);
+    } else {
+      this.reservedByTask.set(task.id, taskReserved - 1);
+    }
+  }
+
+  /**
+   * Move a queued execution to 'running' and start it
+   */
+  private async promote(item: QueuedExecution): Promise<void> {
+    const promotion = {
+      cancelled: false,
+      update: this.storage.updateExecution(item.execution.id, {
+        status: 'running',
+        started_at: new Date().toISOString(),
+      }),
+    };
+    this.promoting.set(item.execution.id, promotion);
+
+    let execution: Execution;
+    try {
+      execution = await promotion.update;
+    } catch (error) {
+      this.releaseReservation(item.task);
+      throw error;
+    } finally {
+      this.promoting.delete(item.execution.id);
+    }
+
+    // Cancelled while its status was being updated
+    if (promotion.cancelled) {
+      this.releaseReservation(item.task);
+      return;
+    }
+
+    this.start(item.task, execution);
+  }
+
+  /**
+   * Pending executions sorted by queue order
+   */
+  private sortedPending(): QueuedExecution[] {
+    return [...this.pending].sort((a, b) => {
+      if (this.order === 'priority' && a.priority !== b.priority) {
+        return b.priority - a.priority;
+      }
+      return a.sequence - b.sequence;
+    });
+  }
+}
+
+/**
+ * % 100 COMPLETE - Execution Queue
+ */
@@ -8,16 +8,18 @@
 
 import chokidar, { FSWatcher } from 'chokidar';
 import { Task, FileWatchTrigger } from '../models/types.js';
+import { SingleTriggerTask, getTaskTriggers, getTriggerIndexContext, isTriggerKeyOf } from '../utils/triggers.js';
 import * as path from 'path';
 
 interface WatcherState {
-  task: Task;
+  task: SingleTriggerTask<FileWatchTrigger>;
+  index?: number;         // Position in the task's trigger list
   watcher: FSWatcher;
   lastTriggered: number;
 }
 
 export class FileWatchManager {
-  private watchers: Map<string, WatcherState> = new Map();
+  private watchers: Map<string, WatcherState> = new Map(); // trigger key -> state
   private scheduler: any; // Will be set via setScheduler()
 
   constructor() {
@@ -32,54 +34,56 @@ export class FileWatchManager {
   }
 
   /**
-   * Start watching a task's file trigger
+   * Start watching a task's file triggers (one watcher per file_watch trigger)
    */
   async startWatching(task: Task): Promise<void> {
-    if (task.trigger.type !== 'file_watch') {
+    const triggers = getTaskTriggers(task, 'file_watch');
+    if (triggers.length === 0) {
       throw new Error(`Task ${task.name} does not have file_watch trigger`);
     }
 
-    const trigger = task.trigger as FileWatchTrigger;
-
-    // Stop existing watcher if present
-    if (this.watchers.has(task.id)) {
-      await this.stopWatching(task.id);
-    }
+    // Stop existing watchers if present
+    await this.stopWatching(task.id);
 
-    console.error(
-      `[FileWatchManager] Starting file watch for task ${task.name}: ${trigger.path}`
-    );
+    for (const { task: view, index, key } of triggers) {
+      const trigger = view.trigger;
 
-    // Create watcher
-    const watcher = chokidar.watch(trigger.path, {
-      persistent: true,
-      ignoreInitial: true,
-      awaitWriteFinish: {
-        stabilityThreshold: 500,
-        pollInterval: 100,
-      },
-      // Support glob patterns
-      ignored: /(^|[\/\\])\../, // ignore dotfiles
-    });
-
-    // Handle events
-    watcher.on('all', (event, filePath) => {
-      this.handleFileEvent(task, trigger, event, filePath);
-    });
-
-    watcher.on('error', (error) => {
       console.error(
-        `[FileWatchManager] Watcher error for task ${task.name}:`,
-        error
+        `[FileWatchManager] Starting file watch for task ${task.name}: ${trigger.path}`
       );
-    });
 
-    // Store watcher state
-    this.watchers.set(task.id, {
-      task,
-      watcher,
-      lastTriggered: 0,
-    });
+      // Create watcher
+      const watcher = chokidar.watch(trigger.path, {
+        persistent: true,
+        ignoreInitial: true,
+        awaitWriteFinish: {
+          stabilityThreshold: 500,
+          pollInterval: 100,
+        },
+        // Support glob patterns
+        ignored: /(^|[\/\\])\../, // ignore dotfiles
+      });
+
+      // Handle events
+      watcher.on('all', (event, filePath) => {
+        this.handleFileEvent(key, event, filePath);
+      });
+
+      watcher.on('error', (error) => {
+        console.error(
+          `[FileWatchManager] Watcher error for task ${task.name}:`,
+          error
+        );
+      });
+
+      // Store watcher state
+      this.watchers.set(key, {
+        task: view,
+        ...(index !== undefined && { index }),
+        watcher,
+        lastTriggered: 0,
+      });
+    }
 
     console.error(
       `[FileWatchManager] File watch started for task ${task.name}`
@@ -90,17 +94,18 @@ export class FileWatchManager {
    * Stop watching a task
    */
   async stopWatching(taskId: string): Promise<void> {
-    const state = this.watchers.get(taskId);
-    if (!state) {
-      return;
-    }
+    for (const [key, state] of Array.from(this.watchers.entries())) {
+      if (!isTriggerKeyOf(key, taskId)) {
+        continue;
+      }
 
-    console.error(
-      `[FileWatchManager] Stopping file watch for task ${state.task.name}`
-    );
+      console.error(
+        `[FileWatchManager] Stopping file watch for task ${state.task.name}`
+      );
 
-    await state.watcher.close();
-    this.watchers.delete(taskId);
+      this.watchers.delete(key);
+      await state.watcher.close();
+    }
   }
 
   /**
@@ -111,7 +116,8 @@ export class FileWatchManager {
       `[FileWatchManager] Stopping all file watchers (${this.watchers.size})`
     );
 
-    const promises = Array.from(this.watchers.keys()).map(taskId =>
+    const taskIds = new Set(Array.from(this.watchers.values()).map(state => state.task.id));
+    const promises = Array.from(taskIds).map(taskId =>
       this.stopWatching(taskId)
     );
 
@@ -122,11 +128,17 @@ export class FileWatchManager {
    * Handle file system event
    */
   private handleFileEvent(
-    task: Task,
-    trigger: FileWatchTrigger,
+    key: string,
     event: string,
     filePath: string
   ): void {
+    const state = this.watchers.get(key);
+    if (!state) {
+      return;
+    }
+    const { task } = state;
+    const trigger = task.trigger;
+
     // Check if event matches pattern (if specified)
     if (trigger.pattern && !this.matchesPattern(filePath, trigger.pattern)) {
       return;
@@ -137,11 +149,6 @@ export class FileWatchManager {
     );
 
     // Apply debouncing
-    const state = this.watchers.get(task.id);
-    if (!state) {
-      return;
-    }
-
     const debounceMs = this.parseDuration(trigger.debounce || '0s');
     const now = Date.now();
 
@@ -156,7 +163,7 @@ export class FileWatchManager {
     state.lastTriggered = now;
 
     // Execute task
-    this.executeTask(task, event, filePath);
+    this.executeTask(task, event, filePath, state.index);
   }
 
   /**
@@ -165,7 +172,8 @@ export class FileWatchManager {
   private async executeTask(
     task: Task,
     event: string,
-    filePath: string
+    filePath: string,
+    triggerIndex?: number
   ): Promise<void> {
     try {
       console.error(
@@ -176,6 +184,7 @@ export class FileWatchManager {
         event,
         file_path: filePath,
         timestamp: new Date().toISOString(),
+        ...getTriggerIndexContext(triggerIndex),
       });
     } catch (error: any) {
       console.error(
@@ -233,12 +242,11 @@ export class FileWatchManager {
    */
   getActiveWatchers(): Array<{ taskId: string; taskName: string; path: string }> {
     const result = [];
-    for (const [taskId, state] of this.watchers.entries()) {
-      const trigger = state.task.trigger as FileWatchTrigger;
+    for (const state of this.watchers.values()) {
       result.push({
-        taskId,
+        taskId: state.task.id,
         taskName: state.task.name,
-        path: trigger.path,
+        path: state.task.trigger.path,
       });
     }
     return result;
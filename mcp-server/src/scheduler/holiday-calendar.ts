@@ -0,0 +1,313 @@
+/**
+ * Holiday Calendar Manager
+ *
+ * Resolves holidays from date-holidays regions and local .ics/.json calendar
+ * files. Calendar files are cached and reloaded when their mtime changes
+ *
+ * % 0 COMPLETE - Holiday Calendar Manager
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import Holidays from 'date-holidays';
+import { TaskConditions } from '../models/types.js';
+import { getZonedDateString } from '../utils/timezone.js';
+
+/**
+ * A holiday on a specific date
+ */
+export interface HolidayEntry {
+  date: string;      // YYYY-MM-DD
+  name: string;
+  source: string;    // Region code or calendar file path
+}
+
+/**
+ * Where a task's holidays come from
+ */
+export interface HolidaySources {
+  region?: string;       // date-holidays code, e.g. "US" or "US-NY"
+  calendars?: string[];  // Paths to .ics or .json files
+}
+
+/**
+ * Get the holiday sources a task skips, or null if it does not skip holidays
+ * holiday_region defaults to "US" only when no calendar files are given
+ */
+export function getHolidaySources(conditions?: TaskConditions): HolidaySources | null {
+  if (!conditions) {
+    return null;
+  }
+
+  const calendars = conditions.holiday_calendars ?? [];
+  if (!conditions.skip_holidays && calendars.length === 0) {
+    return null;
+  }
+
+  const region = conditions.holiday_region || (calendars.length === 0 ? 'US' : undefined);
+  return {
+    ...(region !== undefined && { region }),
+    ...(calendars.length > 0 && { calendars }),
+  };
+}
+
+/**
+ * Event parsed from a calendar file
+ */
+interface CalendarEvent {
+  start: string;     // YYYY-MM-DD
+  end: string;       // YYYY-MM-DD (inclusive)
+  name: string;
+  yearly: boolean;   // Repeats every year on the same dates
+}
+
+interface CachedCalendar {
+  mtimeMs: number;
+  events: CalendarEvent[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Shift a YYYY-MM-DD date by a number of days
+ */
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * HolidayCalendarManager
+ */
+export class HolidayCalendarManager {
+  private holidays: Holidays = new Holidays();
+  private cache: Map<string, CachedCalendar> = new Map();
+
+  /**
+   * Get the holiday on the current date in a timezone
+   * @param sources - Region and/or calendar files
+   * @param timezone - IANA timezone that defines "today"
+   * @param now - Time to check (default: current time)
+   * @returns The first matching holiday, or null
+   */
+  getHoliday(sources: HolidaySources, timezone: string, now: Date = new Date()): HolidayEntry | null {
+    if (sources.region) {
+      this.initRegion(sources.region, timezone);
+      const matches = this.holidays.isHoliday(now);
+      if (matches !== false && matches.length > 0) {
+        return {
+          date: getZonedDateString(now, timezone),
+          name: matches[0]!.name,
+          source: sources.region,
+        };
+      }
+    }
+
+    const today = getZonedDateString(now, timezone);
+    for (const file of sources.calendars ?? []) {
+      const event = this.loadCalendar(file).find(e => this.occursOn(e, today));
+      if (event) {
+        return { date: today, name: event.name, source: file };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * List holidays in the next `days` days (starting today in the timezone)
+   * @returns Holidays sorted by date
+   */
+  listHolidays(
+    sources: HolidaySources,
+    timezone: string,
+    days: number,
+    now: Date = new Date()
+  ): HolidayEntry[] {
+    const first = getZonedDateString(now, timezone);
+    const last = addDays(first, Math.max(1, days) - 1);
+    const entries: HolidayEntry[] = [];
+
+    if (sources.region) {
+      this.initRegion(sources.region, timezone);
+      const firstYear = Number(first.slice(0, 4));
+      const lastYear = Number(last.slice(0, 4));
+      for (let year = firstYear; year <= lastYear; year++) {
+        for (const holiday of this.holidays.getHolidays(year)) {
+          const date = holiday.date.slice(0, 10);
+          if (date >= first && date <= last) {
+            entries.push({ date, name: holiday.name, source: sources.region });
+          }
+        }
+      }
+    }
+
+    for (const file of sources.calendars ?? []) {
+      const events = this.loadCalendar(file);
+      for (let date = first; date <= last; date = addDays(date, 1)) {
+        for (const event of events) {
+          if (this.occursOn(event, date)) {
+            entries.push({ date, name: event.name, source: file });
+          }
+        }
+      }
+    }
+
+    return entries.sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  /**
+   * Load a calendar file, reusing the cached events while its mtime is unchanged
+   * Unreadable files are logged and treated as having no holidays
+   */
+  private loadCalendar(file: string): CalendarEvent[] {
+    const filePath = path.resolve(file);
+    const cached = this.cache.get(filePath);
+
+    let mtimeMs: number;
+    try {
+      mtimeMs = fs.statSync(filePath).mtimeMs;
+    } catch (error: any) {
+      console.error(`[HolidayCalendar] Cannot read calendar ${filePath}:`, error.message);
+      return [];
+    }
+
+    if (cached && cached.mtimeMs === mtimeMs) {
+      return cached.events;
+    }
+
+    try {
+      const content = fs.readFileSync(filePath, 'utf-8');
+      const events = filePath.toLowerCase().endsWith('.ics')
+        ? this.parseIcs(content)
+        : this.parseJson(content);
+
+      this.cache.set(filePath, { mtimeMs, events });
+      console.error(`[HolidayCalendar] Loaded ${events.length} holiday(s) from ${filePath}`);
+      return events;
+    } catch (error: any) {
+      console.error(`[HolidayCalendar] Failed to parse calendar ${filePath}:`, error.message);
+      return cached?.events ?? [];
+    }
+  }
+
+  /**
+   * Check if a calendar event covers a date
+   */
+  private occursOn(event: CalendarEvent, date: string): boolean {
+    if (!event.yearly) {
+      return date >= event.start && date <= event.end;
+    }
+
+    // Try the occurrence starting this year and the one starting last year
+    // (for events that wrap into January)
+    const year = Number(date.slice(0, 4));
+    const startYear = Number(event.start.slice(0, 4));
+    const spanDays = Math.round(
+      (Date.parse(`${event.end}T00:00:00Z`) - Date.parse(`${event.start}T00:00:00Z`)) / DAY_MS
+    );
+
+    for (const occurrenceYear of [year, year - 1]) {
+      if (occurrenceYear < startYear) {
+        continue;
+      }
+      const start = `${occurrenceYear}${event.start.slice(4)}`;
+      if (date >= start && date <= addDays(start, spanDays)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Parse a JSON calendar
+   * Accepts an array (or { holidays: [...] }) of "YYYY-MM-DD" strings or
+   * { date, end?, name?, yearly? } objects
+   */
+  private parseJson(content: string): CalendarEvent[] {
+    const data = JSON.parse(content);
+    const items = Array.isArray(data) ? data : data?.holidays;
+
+    if (!Array.isArray(items)) {
+      throw new Error('Expected an array of holidays or { "holidays": [...] }');
+    }
+
+    return items.map((item: any) => {
+      const entry = typeof item === 'string' ? { date: item } : item;
+      if (!entry?.date || !/^\d{4}-\d{2}-\d{2}$/.test(entry.date)) {
+        throw new Error(`Invalid holiday date: ${JSON.stringify(item)}`);
+      }
+      return {
+        start: entry.date,
+        end: entry.end ?? entry.date,
+        name: entry.name ?? 'Holiday',
+        yearly: entry.yearly === true,
+      };
+    });
+  }
+
+  /**
+   * Parse VEVENTs from an iCalendar file
+   * Uses DTSTART/DTEND dates (DTEND is exclusive) and SUMMARY;
+   * RRULE:FREQ=YEARLY is supported, other recurrence rules are ignored
+   */
+  private parseIcs(content: string): CalendarEvent[] {
+    // Unfold continuation lines (RFC 5545 3.1)
+    const lines = content.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+    const events: CalendarEvent[] = [];
+    let current: { start?: string; end?: string; name?: string; yearly?: boolean } | null = null;
+
+    const toDate = (value: string): string =>
+      `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}`;
+
+    for (const line of lines) {
+      const separator = line.indexOf(':');
+      if (separator === -1) {
+        continue;
+      }
+      const key = line.slice(0, separator).split(';')[0]!.toUpperCase();
+      const value = line.slice(separator + 1).trim();
+
+      if (key === 'BEGIN' && value === 'VEVENT') {
+        current = {};
+      } else if (key === 'END' && value === 'VEVENT' && current) {
+        if (current.start) {
+          events.push({
+            start: current.start,
+            end: current.end && current.end > current.start ? addDays(current.end, -1) : current.start,
+            name: current.name ?? 'Holiday',
+            yearly: current.yearly ?? false,
+          });
+        }
+        current = null;
+      } else if (current) {
+        if (key === 'DTSTART') {
+          current.start = toDate(value);
+        } else if (key === 'DTEND') {
+          current.end = toDate(value);
+        } else if (key === 'SUMMARY') {
+          current.name = value.replace(/\\([,;\\])/g, '$1');
+        } else if (key === 'RRULE') {
+          current.yearly = /(^|;)FREQ=YEARLY(;|$)/.test(value);
+        }
+      }
+    }
+
+    return events;
+  }
+
+  /**
+   * Point date-holidays at a region ("US" or "US-NY") in a timezone
+   */
+  private initRegion(region: string, timezone: string): void {
+    const [country, state] = region.split('-');
+    if (state) {
+      this.holidays.init(country!, state, { timezone });
+    } else {
+      this.holidays.init(region, { timezone });
+    }
+  }
+}
+
+/**
+ * % 100 COMPLETE - Holiday Calendar Manager
+ */
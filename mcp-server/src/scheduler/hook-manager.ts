@@ -8,6 +8,7 @@
 
 import { Task, HookEvent, HookTrigger } from '../models/types.js';
 import { Scheduler } from './scheduler.js';
+import { TaskTrigger, getTaskTriggers, getTriggerIndexContext } from '../utils/triggers.js';
 
 export interface HookContext {
   event: HookEvent;
@@ -60,24 +61,24 @@ export class HookManager {
 
     console.error(`[HookManager] Found ${tasks.length} matching tasks`);
 
-    // Execute matching tasks
-    for (const task of tasks) {
-      await this.executeHookTask(task, event, enrichedContext);
+    // Execute matching tasks (once per matching hook trigger)
+    for (const trigger of tasks) {
+      await this.executeHookTask(trigger, event, enrichedContext);
     }
   }
 
   private async findMatchingTasks(
     event: HookEvent,
     context: HookContext
-  ): Promise<Task[]> {
+  ): Promise<TaskTrigger<HookTrigger>[]> {
     // Load tasks with hook triggers
-    const allTasks = await this.scheduler.storage.loadTasks({
+    const allTasks: Task[] = await this.scheduler.storage.loadTasks({
       trigger_type: 'hook'
     });
 
     // Filter by event type and conditions
-    return allTasks.filter(task => {
-      const trigger = task.trigger as HookTrigger;
+    return allTasks.flatMap(task => getTaskTriggers(task, 'hook')).filter(({ task }) => {
+      const trigger = task.trigger;
 
       // Must match event type
       if (trigger.event !== event) return false;
@@ -136,15 +137,16 @@ export class HookManager {
   }
 
   private async executeHookTask(
-    task: Task,
+    { task, index, key }: TaskTrigger<HookTrigger>,
     event: HookEvent,
-    context: HookContext
+    hookContext: HookContext
   ): Promise<void> {
-    const trigger = task.trigger as HookTrigger;
+    const trigger = task.trigger;
+    const context = { ...hookContext, ...getTriggerIndexContext(index) };
 
     // Apply debouncing if configured
     if (trigger.debounce) {
-      const debounceKey = `${task.id}-${event}`;
+      const debounceKey = `${key}-${event}`;
       const debounceMs = this.parseDuration(trigger.debounce);
 
       // Clear existing timer
@@ -0,0 +1,211 @@
+/**
+ * Misfire Handler
+ *
+ * Detects cron, interval and one-shot fire times missed while the server
+ * was down and applies the task's misfire policy on startup
+ *
+ * % 0 COMPLETE - Misfire Handler
+ */
+
+import { ScheduleTrigger, IntervalTrigger, AtTrigger, MisfirePolicy } from '../models/types.js';
+import { parseZonedDateTime } from '../utils/timezone.js';
+import { SingleTriggerTask, getFireKey, getTriggerIndexContext, getTriggerKey } from '../utils/triggers.js';
+
+/**
+ * Default cap on catch-up runs for the 'run_all' policy
+ */
+const DEFAULT_MAX_CATCHUP_RUNS = 10;
+
+/**
+ * Upper bound on fire times scanned per task (e.g. a per-minute cron after a week offline)
+ */
+const MAX_SCANNED_FIRE_TIMES = 100000;
+
+/**
+ * Missed fire times for a task
+ */
+export interface MissedRuns {
+  count: number;     // Total fire times missed
+  times: Date[];     // Most recent missed fire times (oldest first, capped)
+}
+
+/**
+ * MisfireHandler
+ *
+ * Compares last_run/next_run in storage against a task's trigger
+ */
+export class MisfireHandler {
+  private scheduler: any; // Set via setScheduler to avoid circular dependency
+  private defaultTimezone: string;
+
+  constructor(defaultTimezone: string = 'UTC') {
+    this.defaultTimezone = defaultTimezone;
+  }
+
+  /**
+   * Set scheduler reference (to avoid circular dependency)
+   */
+  setScheduler(scheduler: any): void {
+    this.scheduler = scheduler;
+  }
+
+  /**
+   * Get fire times missed between the task's last known schedule and now
+   * next_run is the first fire time the previous process was waiting for;
+   * last_run is used when next_run was never stored
+   * @param task - Task (or trigger of a task) with a schedule, interval or at trigger
+   * @param now - Current time
+   * @param keep - Number of most recent missed times to return
+   */
+  getMissedRuns(task: SingleTriggerTask, now: Date = new Date(), keep: number = 1): MissedRuns {
+    const missed: MissedRuns = { count: 0, times: [] };
+
+    const record = (time: Date) => {
+      missed.count++;
+      missed.times.push(time);
+      if (missed.times.length > keep) {
+        missed.times.shift();
+      }
+    };
+
+    if (task.trigger.type === 'schedule') {
+      const trigger = task.trigger as ScheduleTrigger;
+      // next_run includes jitter, so look back far enough to find its cron time
+      const maxJitter = trigger.jitter ? this.scheduler.parseDuration(trigger.jitter) : 0;
+      const reference = task.next_run
+        ? new Date(new Date(task.next_run).getTime() - maxJitter - 1)
+        : task.last_run ? new Date(task.last_run) : undefined;
+
+      if (!reference || reference.getTime() >= now.getTime()) {
+        return missed;
+      }
+
+      try {
+        const schedule = this.scheduler.getCronSchedule(task, trigger.cron, trigger.timezone || this.defaultTimezone);
+        for (const next of schedule.nextTimes(reference, MAX_SCANNED_FIRE_TIMES, now)) {
+          record(next);
+        }
+      } catch (error: any) {
+        console.error(`[MisfireHandler] Cannot evaluate cron for task ${task.name}:`, error.message);
+      }
+    } else if (task.trigger.type === 'interval') {
+      const trigger = task.trigger as IntervalTrigger;
+      const duration = this.scheduler.parseDuration(trigger.every);
+      if (duration === 0) {
+        return missed;
+      }
+
+      const anchor = task.next_run
+        ? new Date(task.next_run).getTime()
+        : task.last_run ? new Date(task.last_run).getTime() + duration : undefined;
+
+      if (anchor === undefined) {
+        return missed;
+      }
+
+      const until = trigger.end ? Math.min(now.getTime(), Date.parse(trigger.end)) : now.getTime();
+      for (let i = 0, time = anchor; i < MAX_SCANNED_FIRE_TIMES && time <= until; i++, time += duration) {
+        record(new Date(time));
+      }
+    } else if (task.trigger.type === 'at') {
+      const fireTime = this.getAtTime(task.trigger as AtTrigger);
+      const alreadyRan = task.last_run !== undefined && new Date(task.last_run).getTime() >= fireTime.getTime();
+
+      if (!alreadyRan && fireTime.getTime() <= now.getTime()) {
+        record(fireTime);
+      }
+    }
+
+    return missed;
+  }
+
+  /**
+   * Apply the task's misfire policy
+   * Catch-up runs use trigger_type 'catchup' with the original fire time in
+   * trigger_context.scheduled_time
+   * @param task - Task (or trigger of a task) being scheduled on startup
+   * @param now - Current time
+   * @param triggerIndex - Position of the trigger in the task's trigger list
+   * @returns Number of catch-up runs started
+   */
+  async handleMisfires(task: SingleTriggerTask, now: Date = new Date(), triggerIndex?: number): Promise<number> {
+    const policy: MisfirePolicy = task.options?.misfire_policy
+      ?? (task.trigger.type === 'at' ? 'run_once' : 'skip');
+    const maxRuns = policy === 'run_all'
+      ? Math.max(1, task.options?.max_catchup_runs ?? DEFAULT_MAX_CATCHUP_RUNS)
+      : 1;
+
+    const missed = this.getMissedRuns(task, now, maxRuns);
+    if (missed.count === 0) {
+      return 0;
+    }
+
+    if (policy === 'skip') {
+      console.error(
+        `[MisfireHandler] Task ${task.name} missed ${missed.count} run(s) while offline (misfire_policy: skip)`
+      );
+      return 0;
+    }
+
+    if (missed.count > missed.times.length) {
+      console.error(
+        `[MisfireHandler] Task ${task.name} missed ${missed.count} run(s); catching up the latest ${missed.times.length}`
+      );
+    }
+
+    let started = 0;
+    for (const scheduledTime of missed.times) {
+      try {
+        // Another instance sharing the storage may already be catching up
+        const fireKey = getFireKey(getTriggerKey(task.id, triggerIndex), scheduledTime);
+        if (!(await this.scheduler.claimFire(fireKey))) {
+          continue;
+        }
+        await this.scheduler.executeTask(task.id, 'catchup', {
+          scheduled_time: scheduledTime.toISOString(),
+          missed_runs: missed.count,
+          misfire_policy: policy,
+          ...getTriggerIndexContext(triggerIndex),
+        });
+        started++;
+      } catch (error: any) {
+        console.error(
+          `[MisfireHandler] Catch-up run for task ${task.name} (${scheduledTime.toISOString()}) failed:`,
+          error.message
+        );
+      }
+    }
+
+    console.error(`[MisfireHandler] Started ${started} catch-up run(s) for task ${task.name}`);
+    return started;
+  }
+
+  /**
+   * Get the instant an at trigger fires
+   * @throws Error if the datetime cannot be parsed
+   */
+  getAtTime(trigger: AtTrigger): Date {
+    const fireTime = parseZonedDateTime(trigger.at, trigger.timezone || this.defaultTimezone);
+    if (isNaN(fireTime.getTime())) {
+      throw new Error(`Invalid at time: ${trigger.at}`);
+    }
+    return fireTime;
+  }
+
+  /**
+   * Get the first interval slot after now that keeps the cadence of a previous schedule
+   * @param anchor - A previous fire time of the interval
+   * @param duration - Interval length (ms)
+   */
+  nextIntervalSlot(anchor: Date, duration: number, now: Date = new Date()): Date {
+    if (anchor.getTime() > now.getTime()) {
+      return anchor;
+    }
+    const elapsed = now.getTime() - anchor.getTime();
+    return new Date(anchor.getTime() + (Math.floor(elapsed / duration) + 1) * duration);
+  }
+}
+
+/**
+ * % 100 COMPLETE - Misfire Handler
+ */
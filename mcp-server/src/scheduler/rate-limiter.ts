@@ -0,0 +1,257 @@
+/**
+ * Rate Limiter
+ *
+ * Enforces a task's rate_limit option across every trigger source
+ * Run start times are loaded from stored executions once per task, then
+ * tracked in memory so concurrent triggers cannot both slip under the limit.
+ * Other instances sharing the storage are not seen after that first load
+ *
+ * % 0 COMPLETE - Rate Limiter
+ */
+
+import { Task, RateLimit, RateLimitUsage } from '../models/types.js';
+import { Storage } from '../storage/storage.js';
+
+const DEFAULT_WINDOW = '1h';
+
+/**
+ * Durations accepted for per and min_interval, e.g. "90s", "15m", "1h", "2d"
+ */
+const DURATION_PATTERN = /^(\d+)([smhd])$/;
+
+/**
+ * Check a task's rate_limit option
+ * @throws Error for a max_runs that is not a whole number, or a per or
+ * min_interval that does not parse
+ */
+export function validateRateLimit(limit: RateLimit): void {
+  if (limit.max_runs !== undefined && (!Number.isInteger(limit.max_runs) || limit.max_runs < 0)) {
+    throw new Error(`Invalid rate_limit.max_runs: ${limit.max_runs} (expected a whole number)`);
+  }
+
+  for (const field of ['per', 'min_interval'] as const) {
+    const value = limit[field];
+    const match = value === undefined ? null : DURATION_PATTERN.exec(value);
+    if (value !== undefined && (!match || Number(match[1]) === 0)) {
+      throw new Error(
+        `Invalid rate_limit.${field}: "${value}" (expected a positive number followed by s, m, h or d, e.g. "1h")`
+      );
+    }
+  }
+}
+
+interface RunHistory {
+  starts: number[];   // Run start times (ms), oldest first
+  since: number;      // Every run started at or after this time is in `starts`
+}
+
+/**
+ * RateLimiter
+ *
+ * Admits or rejects task runs against max_runs per window and min_interval
+ */
+export class RateLimiter {
+  private storage: Storage;
+  private history: Map<string, RunHistory> = new Map(); // taskId -> run history
+  private loading: Map<string, Promise<void>> = new Map();
+
+  constructor(storage: Storage) {
+    this.storage = storage;
+  }
+
+  /**
+   * Admit a run of a task and record its start
+   * @param task - Task about to run
+   * @param now - Start time of the run
+   * @returns Skip reason if the run is over the limit, null if it may run
+   */
+  async acquire(task: Task, now: Date = new Date()): Promise<string | null> {
+    const limit = task.options?.rate_limit;
+    if (!limit) {
+      return null;
+    }
+
+    const history = await this.getHistory(task.id, limit, now);
+
+    // Check and record without awaiting in between
+    const reason = this.getLimitReason(limit, history, now);
+    if (!reason) {
+      history.starts.push(now.getTime());
+    }
+    return reason;
+  }
+
+  /**
+   * Get the current usage of a task's rate limit
+   * @returns Usage, or null if the task has no rate limit
+   */
+  async getUsage(task: Task, now: Date = new Date()): Promise<RateLimitUsage | null> {
+    const limit = task.options?.rate_limit;
+    if (!limit) {
+      return null;
+    }
+
+    const history = await this.getHistory(task.id, limit, now);
+    const usage: RateLimitUsage = {};
+
+    if (limit.max_runs !== undefined) {
+      usage.runs_in_window = this.getRunsInWindow(limit, history, now).length;
+      usage.max_runs = limit.max_runs;
+      usage.window = limit.per || DEFAULT_WINDOW;
+    }
+
+    const lastRun = history.starts[history.starts.length - 1];
+    if (lastRun !== undefined) {
+      usage.last_run_at = new Date(lastRun).toISOString();
+    }
+
+    const nextAllowed = this.getNextAllowedTime(limit, history, now);
+    if (nextAllowed > now.getTime()) {
+      usage.next_allowed_at = new Date(nextAllowed).toISOString();
+    }
+
+    return usage;
+  }
+
+  /**
+   * Get the run history of a task covering its rate limit span
+   * Loads run starts from storage the first time (or when the span grows)
+   */
+  private async getHistory(taskId: string, limit: RateLimit, now: Date): Promise<RunHistory> {
+    const since = now.getTime() - this.getSpan(limit);
+
+    let history = this.history.get(taskId);
+    while (!history || history.since > since) {
+      let loading = this.loading.get(taskId);
+      if (!loading) {
+        loading = this.load(taskId, since).finally(() => this.loading.delete(taskId));
+        this.loading.set(taskId, loading);
+      }
+      await loading;
+      history = this.history.get(taskId);
+    }
+
+    // Drop runs older than any window still needs
+    while (history.starts.length > 0 && history.starts[0]! < since) {
+      history.starts.shift();
+    }
+    history.since = Math.max(history.since, since);
+
+    return history;
+  }
+
+  /**
+   * Load run start times from stored executions (skipped runs don't count)
+   */
+  private async load(taskId: string, since: number): Promise<void> {
+    const executions = await this.storage.loadExecutions({
+      task_id: taskId,
+      start_date: new Date(since).toISOString(),
+    });
+
+    const starts = executions
+      .filter(execution => execution.status !== 'skipped')
+      .map(execution => new Date(execution.started_at).getTime());
+
+    // Keep runs admitted while loading
+    const current = this.history.get(taskId);
+    if (current) {
+      starts.push(...current.starts.filter(start => !starts.includes(start)));
+    }
+
+    this.history.set(taskId, { starts: starts.sort((a, b) => a - b), since });
+  }
+
+  /**
+   * Get the reason a run is over the limit
+   * @returns "rate_limited: ..." skip reason, or null if the run is allowed
+   */
+  private getLimitReason(limit: RateLimit, history: RunHistory, now: Date): string | null {
+    if (limit.max_runs !== undefined) {
+      const window = limit.per || DEFAULT_WINDOW;
+      const runs = this.getRunsInWindow(limit, history, now).length;
+      if (runs >= limit.max_runs) {
+        return `rate_limited: ${runs} run(s) in the last ${window} (max_runs ${limit.max_runs})`;
+      }
+    }
+
+    const lastRun = history.starts[history.starts.length - 1];
+    if (limit.min_interval && lastRun !== undefined) {
+      const elapsed = now.getTime() - lastRun;
+      if (elapsed < this.parseDuration(limit.min_interval)) {
+        return `rate_limited: last run ${Math.round(elapsed / 1000)}s ago (min_interval ${limit.min_interval})`;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Get the run starts inside the max_runs window
+   */
+  private getRunsInWindow(limit: RateLimit, history: RunHistory, now: Date): number[] {
+    const windowStart = now.getTime() - this.parseDuration(limit.per || DEFAULT_WINDOW);
+    return history.starts.filter(start => start > windowStart);
+  }
+
+  /**
+   * Get the earliest time a new run is allowed (ms)
+   */
+  private getNextAllowedTime(limit: RateLimit, history: RunHistory, now: Date): number {
+    let next = now.getTime();
+
+    if (limit.max_runs !== undefined) {
+      const runs = this.getRunsInWindow(limit, history, now);
+      const blocking = runs[runs.length - limit.max_runs];
+      if (blocking !== undefined) {
+        next = Math.max(next, blocking + this.parseDuration(limit.per || DEFAULT_WINDOW));
+      }
+    }
+
+    const lastRun = history.starts[history.starts.length - 1];
+    if (limit.min_interval && lastRun !== undefined) {
+      next = Math.max(next, lastRun + this.parseDuration(limit.min_interval));
+    }
+
+    return next;
+  }
+
+  /**
+   * Get how far back run starts are needed to apply a limit (ms)
+   */
+  private getSpan(limit: RateLimit): number {
+    const window = limit.max_runs !== undefined ? this.parseDuration(limit.per || DEFAULT_WINDOW) : 0;
+    const interval = limit.min_interval ? this.parseDuration(limit.min_interval) : 0;
+    return Math.max(window, interval);
+  }
+
+  /**
+   * Parse duration string to milliseconds
+   */
+  private parseDuration(duration: string): number {
+    const match = duration.match(DURATION_PATTERN);
+    if (!match || !match[1] || !match[2]) {
+      return 0;
+    }
+
+    const value = parseInt(match[1], 10);
+    const unit = match[2];
+
+    switch (unit) {
+      case 's':
+        return value * 1000;
+      case 'm':
+        return value * 60 * 1000;
+      case 'h':
+        return value * 60 * 60 * 1000;
+      case 'd':
+        return value * 24 * 60 * 60 * 1000;
+      default:
+        return 0;
+    }
+  }
+}
+
+/**
+ * % 100 COMPLETE - Rate Limiter
+ */
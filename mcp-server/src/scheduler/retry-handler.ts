@@ -3,13 +3,19 @@
  *
  * Manages retry policies for failed task executions
  * Supports exponential and linear backoff strategies
+ * Pending retries are persisted in storage and re-armed on startup
  *
  * % 0 COMPLETE - Retry Handler (Day 4)
  */
 
-import { Task, Execution, RetryPolicy, ExecutionStatus } from '../models/types.js';
+import { Task, Execution, RetryPolicy, ExecutionStatus, PendingRetry } from '../models/types.js';
 import { Storage } from '../storage/storage.js';
 
+/**
+ * Longest delay setTimeout supports (~24.8 days)
+ */
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
 /**
  * Retry Metadata
  * Tracks retry attempts and state for an execution
@@ -38,6 +44,8 @@ export interface RetryMetadata {
 export class RetryHandler {
   private storage: Storage;
   private scheduler: any; // Set via setScheduler to avoid circular dependency
+  private timers: Map<string, NodeJS.Timeout> = new Map(); // pendingRetryId -> timer
+  private armOnSave: boolean = true; // False when another process arms the saved retries
 
   constructor(storage: Storage) {
     this.storage = storage;
@@ -50,6 +58,15 @@ export class RetryHandler {
     this.scheduler = scheduler;
   }
 
+  /**
+   * Only save new retries, leaving their timers to the process that restores them
+   * Workers use this: the scheduler re-arms retries from storage, so each runs once
+   * and none is lost when a worker stops
+   */
+  leaveTimersToScheduler(): void {
+    this.armOnSave = false;
+  }
+
   /**
    * Check if a failed execution should be retried
    * @param task - The task that failed
@@ -80,9 +97,9 @@ export class RetryHandler {
       case 'timeout':
         return execution.status === 'timeout';
       case 'error':
-        return execution.status === 'failure';
+        return execution.status === 'failure' || execution.status === 'interrupted';
       case 'all':
-        return execution.status === 'failure' || execution.status === 'timeout';
+        return execution.status === 'failure' || execution.status === 'timeout' || execution.status === 'interrupted';
       default:
         return false;
     }
@@ -161,39 +178,169 @@ export class RetryHandler {
       ],
     };
 
-    // Schedule the retry
-    setTimeout(async () => {
-      try {
-        await this.executeRetry(task, updatedMetadata);
-      } catch (error: any) {
+    // Persist and schedule the retry (a workflow step stays part of its run)
+    await this.persistRetry(task.id, execution.id, nextRetryCount, delay, {
+      retry_metadata: updatedMetadata,
+      ...(execution.trigger_context?.workflow && { workflow: execution.trigger_context.workflow }),
+    });
+  }
+
+  /**
+   * Save a retry in storage and arm its timer (unless left to the scheduler)
+   * Used by retry policies and by 'retry' result handlers
+   * @param taskId - Task to retry
+   * @param executionId - Failed execution being retried
+   * @param attempt - Retry attempt number (1-based)
+   * @param delayMs - Delay before the retry runs
+   * @param triggerContext - Context passed to the retry execution
+   * @returns The pending retry
+   */
+  async persistRetry(
+    taskId: string,
+    executionId: string,
+    attempt: number,
+    delayMs: number,
+    triggerContext: Record<string, any>
+  ): Promise<PendingRetry> {
+    const retry = await this.storage.createPendingRetry({
+      task_id: taskId,
+      execution_id: executionId,
+      attempt,
+      due_at: new Date(Date.now() + delayMs).toISOString(),
+      trigger_context: triggerContext,
+    });
+
+    if (this.armOnSave) {
+      this.armRetry(retry);
+    }
+    return retry;
+  }
+
+  /**
+   * Arm timers for retries saved by a previous process or by workers
+   * Overdue retries run immediately; retries already armed are left as they are
+   * @returns Number of retries restored
+   */
+  async restorePendingRetries(): Promise<number> {
+    const retries = await this.storage.loadPendingRetries();
+    let restored = 0;
+
+    for (const retry of retries) {
+      if (!this.timers.has(retry.id)) {
+        this.armRetry(retry);
+        restored++;
+      }
+    }
+
+    if (restored > 0) {
+      console.error(`[RetryHandler] Restored ${restored} pending retr${restored === 1 ? 'y' : 'ies'}`);
+    }
+    return restored;
+  }
+
+  /**
+   * List retries waiting for their due time
+   * @param taskId - Optional task ID filter
+   */
+  async listPendingRetries(taskId?: string): Promise<PendingRetry[]> {
+    return this.storage.loadPendingRetries(taskId);
+  }
+
+  /**
+   * Cancel a pending retry
+   * @param id - Pending retry ID
+   * @returns The cancelled retry, or null if it was not pending
+   */
+  async cancelRetry(id: string): Promise<PendingRetry | null> {
+    const retries = await this.storage.loadPendingRetries();
+    const retry = retries.find(r => r.id === id);
+    if (!retry) {
+      return null;
+    }
+
+    this.clearTimer(id);
+    await this.storage.deletePendingRetry(id);
+
+    console.error(`[RetryHandler] Cancelled retry ${retry.attempt} for task ${retry.task_id}`);
+    return retry;
+  }
+
+  /**
+   * Stop all retry timers (pending retries stay in storage)
+   */
+  stop(): void {
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+  }
+
+  /**
+   * Arm the timer for a pending retry
+   * Retries due beyond the setTimeout limit are re-armed when the timer fires
+   */
+  private armRetry(retry: PendingRetry): void {
+    const delay = Math.max(0, new Date(retry.due_at).getTime() - Date.now());
+
+    const timer = setTimeout(() => {
+      this.timers.delete(retry.id);
+      if (delay > MAX_TIMER_DELAY) {
+        this.armRetry(retry);
+        return;
+      }
+
+      this.executeRetry(retry).catch((error: any) => {
         console.error(
-          `[RetryHandler] Retry execution failed for task ${task.name}:`,
+          `[RetryHandler] Retry execution failed for task ${retry.task_id}:`,
           error.message
         );
-      }
-    }, delay);
+      });
+    }, Math.min(delay, MAX_TIMER_DELAY));
+
+    this.timers.set(retry.id, timer);
+  }
+
+  private clearTimer(id: string): void {
+    const timer = this.timers.get(id);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(id);
+    }
   }
 
   /**
    * Execute a retry attempt
-   * @param task - The task to retry
-   * @param retryMetadata - Retry metadata including attempt count
+   * The pending retry is removed once the retry execution has been created,
+   * or once the retried execution is finalized if the retry can't start
+   * @param retry - The pending retry
    */
-  private async executeRetry(task: Task, retryMetadata: RetryMetadata): Promise<void> {
+  private async executeRetry(retry: PendingRetry): Promise<void> {
     if (!this.scheduler) {
       throw new Error('Scheduler not set. Call setScheduler() before executing retries.');
     }
 
+    // Instances sharing the storage all arm the same pending retries
+    if (!(await this.scheduler.claimFire(`retry:${retry.id}`))) {
+      return;
+    }
+
     console.error(
-      `[RetryHandler] Executing retry attempt ${retryMetadata.retry_count}/${retryMetadata.max_attempts} for task ${task.name}`
+      `[RetryHandler] Executing retry attempt ${retry.attempt} for task ${retry.task_id}`
     );
 
-    // Execute task with retry context
-    const triggerContext = {
-      retry_metadata: retryMetadata,
-    };
-
-    await this.scheduler.executeTask(task.id, 'retry', triggerContext);
+    try {
+      // Execute task with retry context
+      await this.scheduler.executeTask(retry.task_id, 'retry', retry.trigger_context);
+    } catch (error: any) {
+      // The task was deleted or disabled, so the retried execution is final
+      console.error(
+        `[RetryHandler] Retry attempt ${retry.attempt} for task ${retry.task_id} could not start:`,
+        error.message
+      );
+      await this.scheduler.finishRetriedExecution(retry);
+    } finally {
+      await this.storage.deletePendingRetry(retry.id);
+    }
   }
 
   /**
@@ -6,11 +6,11 @@
  * % 95 COMPLETE - Scheduler implementation (Day 3)
  */
 
-import cron from 'node-cron';
-import Holidays from 'date-holidays';
 import { exec } from 'child_process';
 import { promisify } from 'util';
+import { createHash } from 'crypto';
 import * as fs from 'fs';
+import * as os from 'os';
 import { Storage } from '../storage/storage.js';
 import {
   SchedulerConfig,
@@ -20,24 +20,80 @@ import {
   CommandCondition,
   IntervalTrigger,
   SmartScheduleTrigger,
+  AtTrigger,
+  JitterMode,
+  RecoveryReport,
+  SchedulerPause,
+  PendingRetry,
+  ScheduledRunPreview,
+  TaskConditions,
+  TriggerType,
 } from '../models/types.js';
 import { ExecutorFactory, ExecutionResult } from '../executors/factory.js';
 import { HookManager } from './hook-manager.js';
 import { DependencyManager } from './dependency-manager.js';
+import { WorkflowManager } from './workflow-manager.js';
 import { FileWatchManager } from './file-watch-manager.js';
 import { ResultHandlerExecutor } from './result-handlers.js';
 import { RetryHandler } from './retry-handler.js';
-import { CronExpressionParser } from 'cron-parser';
+import { ExecutionQueue, getOverlapSettings } from './execution-queue.js';
+import { MisfireHandler } from './misfire-handler.js';
+import { RateLimiter } from './rate-limiter.js';
+import { checkTimeConditions } from './time-conditions.js';
+import { nextAlignedTime } from '../utils/timezone.js';
+import { HolidayCalendarManager, HolidayEntry, getHolidaySources } from './holiday-calendar.js';
+import { CronSchedule, isValidCron, parseCron } from './cron-engine.js';
+import {
+  SingleTriggerTask,
+  describeTriggerTypes,
+  getTaskTrigger,
+  getTaskTriggers,
+  getFireKey,
+  getTriggerIndexContext,
+  getTriggerKey,
+  isTriggerKeyOf,
+} from '../utils/triggers.js';
+import {
+  BusySchedule,
+  SIMULATION_WEEKS,
+  checkSmartSchedule,
+  enforceSmartSchedule,
+  getCronFireTimes,
+} from './smart-schedule-constraints.js';
 
 const execAsync = promisify(exec);
 
+/**
+ * Longest delay setTimeout supports (~24.8 days)
+ */
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+/**
+ * Execution trigger types that consume a one-shot (at) task
+ */
+const ONE_SHOT_TRIGGER_TYPES = ['scheduled', 'catchup', 'retry'];
+
+/**
+ * Trigger types of the runs an interval trigger's max_runs counts
+ */
+const INTERVAL_RUN_TRIGGER_TYPES = ['interval', 'catchup'];
+
+/**
+ * Fingerprint of the task fields that decide how a task is armed
+ */
+function getScheduleVersion(task: Task): string {
+  return JSON.stringify([task.enabled, task.trigger]);
+}
+
 /**
  * Scheduled Task Tracking
  */
 interface ScheduledTaskInfo {
   task: Task;
-  cronJob: cron.ScheduledTask;
-  nextRun: Date;
+  timer?: NodeJS.Timeout;   // Fires at the next cron time
+  nextRun: Date;            // Next fire time including jitter
+  jitterMs: number;         // Jitter applied to the next fire
+  jitterTimers: Set<NodeJS.Timeout>; // Fired runs waiting out their jitter (may outlast the period)
 }
 
 /**
@@ -50,36 +106,63 @@ export class Scheduler {
   private config: SchedulerConfig;
   private isRunning: boolean = false;
   private checkInterval?: NodeJS.Timeout;
+  private workerSweepInterval?: NodeJS.Timeout;
   private scheduledTasks: Map<string, ScheduledTaskInfo> = new Map();
-  private holidays: Holidays;
   public hookManager: HookManager;
 
   // Day 3 additions
   private intervalJobs: Map<string, {
     timeout?: NodeJS.Timeout;
-    interval?: NodeJS.Timeout;
-  }> = new Map();
+  }> = new Map(); // trigger key -> timer for the next fire
+  private atJobs: Map<string, NodeJS.Timeout> = new Map(); // trigger key -> one-shot timer
+  private deferredOneShots: Map<string, any> = new Map(); // task ID -> trigger context of a fire held back by a pause or snooze
+  private nextRuns: Map<string, Date> = new Map(); // trigger key -> next fire time
+  private taskVersions: Map<string, string> = new Map(); // taskId -> schedule version last armed
   public dependencyManager: DependencyManager;
+  public workflowManager: WorkflowManager;
   public fileWatchManager: FileWatchManager;
   public resultHandler: ResultHandlerExecutor;
 
   // Day 4 additions
   public retryHandler: RetryHandler;
 
+  // Global execution queue (bounded by max_concurrent_tasks)
+  public executionQueue: ExecutionQueue;
+  public misfireHandler: MisfireHandler;
+  public holidayCalendar: HolidayCalendarManager;
+  public rateLimiter: RateLimiter;
+  private lastRecovery?: RecoveryReport;
+  private pauseState: SchedulerPause | null = null;
+  private runningExecutions: Map<string, {
+    controller: AbortController;
+    skipFailureHandlers: boolean;
+    abandoned: boolean;           // Finalized elsewhere; the run must not record its outcome
+  }> = new Map(); // executionId -> cancellation state
+
   constructor(storage: Storage, config?: SchedulerConfig) {
     this.storage = storage;
     this.config = {
       check_interval: config?.check_interval ?? '30s',
       default_timezone: config?.default_timezone ?? 'UTC',
       max_concurrent_tasks: config?.max_concurrent_tasks ?? 10,
+      queue_order: config?.queue_order ?? 'fifo',
+      orphaned_execution_status: config?.orphaned_execution_status ?? 'interrupted',
+      cluster_mode: config?.cluster_mode ?? false,
+      instance_id: config?.instance_id ?? `${os.hostname()}:${process.pid}`,
+      fire_lock_ttl: config?.fire_lock_ttl ?? '10m',
+      execution_mode: config?.execution_mode ?? 'local',
+      worker_timeout: config?.worker_timeout ?? '1m',
     };
-    this.holidays = new Holidays();
+    this.holidayCalendar = new HolidayCalendarManager();
     this.hookManager = new HookManager(this);
 
     // Initialize Day 3 components
     this.dependencyManager = new DependencyManager(storage);
     this.dependencyManager.setScheduler(this);
 
+    this.workflowManager = new WorkflowManager(storage);
+    this.workflowManager.setScheduler(this);
+
     this.fileWatchManager = new FileWatchManager();
     this.fileWatchManager.setScheduler(this);
 
@@ -89,6 +172,20 @@ export class Scheduler {
     // Initialize Day 4 components
     this.retryHandler = new RetryHandler(storage);
     this.retryHandler.setScheduler(this);
+
+    this.executionQueue = new ExecutionQueue(
+      storage,
+      this.config.max_concurrent_tasks!,
+      this.config.queue_order
+    );
+    this.executionQueue.setRunner((task, execution) =>
+      this.runTaskExecution(task, execution)
+    );
+
+    this.misfireHandler = new MisfireHandler(this.config.default_timezone);
+    this.misfireHandler.setScheduler(this);
+
+    this.rateLimiter = new RateLimiter(storage);
   }
 
   /**
@@ -103,6 +200,23 @@ export class Scheduler {
     this.isRunning = true;
     console.error('[Scheduler] Starting...');
 
+    // Finalize executions left behind by a crash before anything new runs
+    // (in cluster mode 'running' rows may belong to another live instance)
+    if (this.config.cluster_mode) {
+      console.error(`[Scheduler] Cluster mode: instance ${this.config.instance_id}, skipping orphan recovery`);
+    } else {
+      try {
+        await this.recoverOrphanedExecutions();
+      } catch (error: any) {
+        console.error('[Scheduler] Failed to recover orphaned executions:', error.message);
+      }
+    }
+
+    const paused = await this.getPauseState();
+    if (paused) {
+      console.error(`[Scheduler] Paused since ${paused.paused_at}${paused.until ? ` until ${paused.until}` : ''}`);
+    }
+
     // Load all enabled tasks
     const tasks = await this.storage.loadTasks({ enabled: true });
 
@@ -113,46 +227,93 @@ export class Scheduler {
     let scheduleCount = 0;
     let intervalCount = 0;
     let fileWatchCount = 0;
+    let atCount = 0;
+    let catchupCount = 0;
 
     for (const task of tasks) {
-      try {
-        switch (task.trigger.type) {
-          case 'schedule':
-            await this.scheduleTask(task);
-            scheduleCount++;
-            break;
-
-          case 'interval':
-            await this.scheduleIntervalTask(task);
-            intervalCount++;
-            break;
-
-          case 'file_watch':
-            await this.fileWatchManager.startWatching(task);
-            fileWatchCount++;
-            break;
-
-          case 'smart_schedule':
-            await this.optimizeAndScheduleSmartTask(task);
-            scheduleCount++;
-            break;
-
-          // dependency and manual tasks don't need scheduling
-          case 'dependency':
-          case 'manual':
-            break;
+      this.taskVersions.set(task.id, getScheduleVersion(task));
+
+      // Each trigger of a task is scheduled on its own; the views are taken
+      // before scheduling updates next_run so misfires see the stored value
+      for (const { task: view, index } of getTaskTriggers(task)) {
+        try {
+          switch (view.trigger.type) {
+            case 'schedule':
+              // Catch up before scheduling overwrites next_run
+              catchupCount += await this.misfireHandler.handleMisfires(view, new Date(), index);
+              await this.scheduleTask(view, index);
+              scheduleCount++;
+              break;
+
+            case 'interval':
+              catchupCount += await this.misfireHandler.handleMisfires(view, new Date(), index);
+              await this.scheduleIntervalTask(view, index);
+              intervalCount++;
+              break;
+
+            case 'at':
+              catchupCount += await this.scheduleAtTask(view, index);
+              atCount++;
+              break;
+
+            case 'smart_schedule':
+              await this.optimizeAndScheduleSmartTask(view, index);
+              scheduleCount++;
+              break;
+
+            // file_watch triggers are registered per task below; hook,
+            // dependency and manual triggers don't need scheduling
+            default:
+              break;
+          }
+        } catch (error: any) {
+          console.error(
+            `[Scheduler] Failed to schedule task ${task.name}:`,
+            error.message
+          );
+        }
+      }
+
+      if (getTaskTriggers(task, 'file_watch').length > 0) {
+        try {
+          await this.fileWatchManager.startWatching(task);
+          fileWatchCount++;
+        } catch (error: any) {
+          console.error(
+            `[Scheduler] Failed to watch files for task ${task.name}:`,
+            error.message
+          );
         }
-      } catch (error: any) {
-        console.error(
-          `[Scheduler] Failed to schedule task ${task.name}:`,
-          error.message
-        );
       }
     }
 
     console.error(
-      `[Scheduler] Started with ${scheduleCount} scheduled, ${intervalCount} interval, ${fileWatchCount} file watch tasks`
+      `[Scheduler] Started with ${scheduleCount} scheduled, ${intervalCount} interval, ${atCount} one-shot, ${fileWatchCount} file watch tasks (${catchupCount} catch-up runs)`
     );
+
+    // Re-arm retries saved before the last shutdown
+    try {
+      await this.retryHandler.restorePendingRetries();
+    } catch (error: any) {
+      console.error('[Scheduler] Failed to restore pending retries:', error.message);
+    }
+
+    // Pick up tasks added, edited or removed by other processes
+    this.checkInterval = setInterval(() => {
+      this.checkDueTasks().catch((error: any) => {
+        console.error('[Scheduler] Failed to check tasks in storage:', error.message);
+      });
+    }, Math.max(1000, this.parseDuration(this.config.check_interval!)));
+
+    // Watch for runs whose worker went away
+    if (this.config.execution_mode === 'workers') {
+      const timeout = this.parseDuration(this.config.worker_timeout!);
+      this.workerSweepInterval = setInterval(() => {
+        this.recoverStaleWorkerExecutions().catch((error: any) => {
+          console.error('[Scheduler] Failed to recover stale worker executions:', error.message);
+        });
+      }, Math.max(1000, timeout / 2));
+    }
   }
 
   /**
@@ -170,10 +331,14 @@ export class Scheduler {
     if (this.checkInterval) {
       clearInterval(this.checkInterval);
     }
+    if (this.workerSweepInterval) {
+      clearInterval(this.workerSweepInterval);
+    }
 
     // Cancel all scheduled tasks
     for (const [, info] of this.scheduledTasks.entries()) {
-      info.cronJob.stop();
+      if (info.timer) clearTimeout(info.timer);
+      for (const jitterTimer of info.jitterTimers) clearTimeout(jitterTimer);
       console.error(`[Scheduler] Unscheduled task: ${info.task.name}`);
     }
     this.scheduledTasks.clear();
@@ -181,22 +346,39 @@ export class Scheduler {
     // Cancel all interval jobs
     for (const [taskId, job] of this.intervalJobs.entries()) {
       if (job.timeout) clearTimeout(job.timeout);
-      if (job.interval) clearInterval(job.interval);
       console.error(`[Scheduler] Stopped interval task: ${taskId}`);
     }
     this.intervalJobs.clear();
 
+    // Cancel all one-shot timers
+    for (const timer of this.atJobs.values()) {
+      clearTimeout(timer);
+    }
+    this.atJobs.clear();
+    this.nextRuns.clear();
+    this.taskVersions.clear();
+
     // Stop all file watchers
     await this.fileWatchManager.stopAll();
 
+    // Stop retry timers (pending retries stay in storage for the next start)
+    this.retryHandler.stop();
+
+    // Drop executions still waiting for a slot
+    const cancelled = await this.executionQueue.cancelAllPending('Scheduler stopped before execution started');
+    for (const execution of cancelled) {
+      await this.finishCancelledExecution(execution);
+    }
+
     console.error('[Scheduler] Stopped');
   }
 
   /**
    * Schedule a task with a cron trigger
-   * @param task - Task to schedule
+   * @param task - Task (or trigger of a task) to schedule
+   * @param triggerIndex - Position of the trigger in the task's trigger list
    */
-  async scheduleTask(task: Task): Promise<void> {
+  async scheduleTask(task: SingleTriggerTask, triggerIndex?: number): Promise<void> {
     if (task.trigger.type !== 'schedule') {
       throw new Error(`Cannot schedule task with trigger type: ${task.trigger.type}`);
     }
@@ -205,67 +387,160 @@ export class Scheduler {
     const cronExpression = trigger.cron;
     const timezone = trigger.timezone || this.config.default_timezone || 'UTC';
 
-    // Validate cron expression
-    if (!cron.validate(cronExpression)) {
-      throw new Error(`Invalid cron expression: ${cronExpression}`);
-    }
+    // Throws if the cron expression is invalid
+    const schedule = this.getCronSchedule(task, cronExpression, timezone);
 
     // Unschedule existing if already scheduled
-    if (this.scheduledTasks.has(task.id)) {
-      await this.unscheduleTask(task.id);
+    const key = getTriggerKey(task.id, triggerIndex);
+    if (this.scheduledTasks.has(key)) {
+      this.stopCronJob(key);
     }
 
-    // Create cron job
-    const cronJob = cron.schedule(
-      cronExpression,
-      async () => {
-        try {
-          await this.executeTask(task.id, 'scheduled');
-        } catch (error: any) {
-          console.error(
-            `[Scheduler] Error executing scheduled task ${task.name}:`,
-            error.message
-          );
-        }
-      },
-      {
-        scheduled: true,
-        timezone: timezone,
-      }
-    );
+    await this.armCronRun(task, triggerIndex, schedule, new Date());
 
-    // Calculate next run time
-    const nextRun = this.calculateNextRun(cronExpression, timezone);
+    const nextRun = this.scheduledTasks.get(key)?.nextRun;
+    console.error(
+      `[Scheduler] Scheduled task "${task.name}" with cron "${cronExpression}" (next run: ${nextRun?.toISOString() ?? 'never'})`
+    );
+  }
 
-    // Store scheduled task info
-    this.scheduledTasks.set(task.id, {
-      task,
-      cronJob,
-      nextRun,
+  /**
+   * Parse a cron expression of a task; business days (B) skip the task's holidays
+   * @param timezone - Timezone the expression is evaluated in
+   * @throws Error if the cron expression is invalid
+   */
+  getCronSchedule(task: Task, cronExpression: string, timezone: string): CronSchedule {
+    const sources = getHolidaySources(task.conditions);
+    return parseCron(cronExpression, {
+      timezone,
+      ...(sources && {
+        isHoliday: (date: Date) => this.holidayCalendar.getHoliday(sources, timezone, date) !== null,
+      }),
     });
+  }
 
-    // Update task's next_run in database
-    await this.storage.updateTask(task.id, {
-      next_run: nextRun.toISOString(),
-    });
+  /**
+   * Arm the timer for a cron task's next fire and record it as next_run
+   * @param after - Time to find the next fire time from (exclusive)
+   * @param jitterMs - Jitter for this fire (default: picked from the trigger)
+   */
+  private async armCronRun(
+    task: SingleTriggerTask,
+    triggerIndex: number | undefined,
+    schedule: CronSchedule,
+    after: Date,
+    jitterMs?: number
+  ): Promise<void> {
+    const trigger = task.trigger as ScheduleTrigger;
+    const key = getTriggerKey(task.id, triggerIndex);
+    const fireTime = schedule.next(after);
+    if (!fireTime) {
+      console.error(`[Scheduler] Cron of task ${task.name} has no further fire times`);
+      return;
+    }
 
-    console.error(
-      `[Scheduler] Scheduled task "${task.name}" with cron "${cronExpression}" (next run: ${nextRun.toISOString()})`
-    );
+    const offset = jitterMs ?? this.getJitterOffset(task.id, trigger.jitter, trigger.jitter_mode);
+    const nextRun = new Date(fireTime.getTime() + offset);
+    const delay = fireTime.getTime() - Date.now();
+
+    const info: ScheduledTaskInfo = this.scheduledTasks.get(key) ?? { task, nextRun, jitterMs: offset, jitterTimers: new Set() };
+    const timer = setTimeout(() => {
+      if (this.scheduledTasks.get(key) !== info || info.timer !== timer) {
+        return;
+      }
+
+      if (delay > MAX_TIMER_DELAY) {
+        this.armCronRun(task, triggerIndex, schedule, new Date(fireTime.getTime() - 1), offset).catch((error: any) => {
+          console.error(`[Scheduler] Failed to re-arm cron task ${task.name}:`, error.message);
+        });
+        return;
+      }
+
+      this.fireCronRun(task, triggerIndex, schedule, fireTime, info).catch((error: any) => {
+        console.error(
+          `[Scheduler] Error executing scheduled task ${task.name}:`,
+          error.message
+        );
+      });
+    }, Math.max(0, Math.min(delay, MAX_TIMER_DELAY)));
+
+    info.timer = timer;
+    info.nextRun = nextRun;
+    info.jitterMs = offset;
+    this.scheduledTasks.set(key, info);
+
+    await this.recordNextRun(task.id, nextRun, triggerIndex);
+  }
+
+  /**
+   * Arm the following fire of a cron task, then run this one (after its jitter)
+   * @param fireTime - Fire time without jitter
+   */
+  private async fireCronRun(
+    task: SingleTriggerTask,
+    triggerIndex: number | undefined,
+    schedule: CronSchedule,
+    fireTime: Date,
+    info: ScheduledTaskInfo
+  ): Promise<void> {
+    const key = getTriggerKey(task.id, triggerIndex);
+    const delay = info.jitterMs;
+
+    // Keep next_run current so misfires can be detected after a restart
+    await this.armCronRun(task, triggerIndex, schedule, new Date(Math.max(Date.now(), fireTime.getTime())));
+
+    if (!(await this.claimFire(getFireKey(key, fireTime)))) {
+      return;
+    }
+
+    const run = async () => {
+      try {
+        await this.executeTask(task.id, 'scheduled', getTriggerIndexContext(triggerIndex));
+      } catch (error: any) {
+        console.error(
+          `[Scheduler] Error executing scheduled task ${task.name}:`,
+          error.message
+        );
+      }
+    };
+
+    if (delay > 0) {
+      const jitterTimer = setTimeout(() => {
+        info.jitterTimers.delete(jitterTimer);
+        return run();
+      }, delay);
+      info.jitterTimers.add(jitterTimer);
+    } else {
+      await run();
+    }
   }
 
   /**
-   * Unschedule a task
+   * Unschedule a task (cron, interval or one-shot, for every trigger)
    * @param taskId - Task ID to unschedule
    */
   async unscheduleTask(taskId: string): Promise<void> {
-    const info = this.scheduledTasks.get(taskId);
-    if (!info) {
+    this.deferredOneShots.delete(taskId);
+    for (const key of [...this.intervalJobs.keys()].filter(key => isTriggerKeyOf(key, taskId))) {
+      await this.unscheduleIntervalTask(key);
+    }
+    for (const key of [...this.atJobs.keys()].filter(key => isTriggerKeyOf(key, taskId))) {
+      this.unscheduleAtTask(key);
+    }
+    for (const key of [...this.nextRuns.keys()].filter(key => isTriggerKeyOf(key, taskId))) {
+      this.nextRuns.delete(key);
+    }
+    await this.fileWatchManager.stopWatching(taskId);
+
+    const cronKeys = [...this.scheduledTasks.keys()].filter(key => isTriggerKeyOf(key, taskId));
+    if (cronKeys.length === 0) {
       return; // Not scheduled
     }
 
-    info.cronJob.stop();
-    this.scheduledTasks.delete(taskId);
+    let name = taskId;
+    for (const key of cronKeys) {
+      name = this.stopCronJob(key) ?? name;
+    }
 
     // Clear next_run in database - use delete to properly remove optional property
     const task = await this.storage.getTask(taskId);
@@ -274,20 +549,69 @@ export class Scheduler {
       await this.storage.updateTask(taskId, task);
     }
 
-    console.error(`[Scheduler] Unscheduled task: ${info.task.name}`);
+    console.error(`[Scheduler] Unscheduled task: ${name}`);
+  }
+
+  /**
+   * Stop a cron job and its pending jitter timers
+   * @param key - Trigger key of the job
+   * @returns Name of the task, or undefined if nothing was scheduled
+   */
+  private stopCronJob(key: string): string | undefined {
+    const info = this.scheduledTasks.get(key);
+    if (!info) {
+      return undefined;
+    }
+
+    if (info.timer) {
+      clearTimeout(info.timer);
+    }
+    for (const jitterTimer of info.jitterTimers) {
+      clearTimeout(jitterTimer);
+    }
+    this.scheduledTasks.delete(key);
+    this.nextRuns.delete(key);
+    return info.task.name;
   }
 
   /**
-   * Reschedule a task (update existing schedule)
+   * Reschedule a task (update existing schedule and dependency graph)
    * @param task - Updated task
    */
   async rescheduleTask(task: Task): Promise<void> {
+    this.taskVersions.set(task.id, getScheduleVersion(task));
+    await this.dependencyManager.onTaskSaved(task);
+
     // Unschedule first
     await this.unscheduleTask(task.id);
 
-    // Schedule if enabled and has schedule trigger
-    if (task.enabled && task.trigger.type === 'schedule') {
-      await this.scheduleTask(task);
+    if (!task.enabled) {
+      return;
+    }
+
+    // Schedule time-based triggers
+    for (const { task: view, index } of getTaskTriggers(task)) {
+      switch (view.trigger.type) {
+        case 'schedule':
+          await this.scheduleTask(view, index);
+          break;
+
+        case 'interval':
+          await this.scheduleIntervalTask(view, index);
+          break;
+
+        case 'at':
+          await this.scheduleAtTask(view, index);
+          break;
+
+        case 'smart_schedule':
+          await this.optimizeAndScheduleSmartTask(view, index);
+          break;
+      }
+    }
+
+    if (getTaskTriggers(task, 'file_watch').length > 0) {
+      await this.fileWatchManager.startWatching(task);
     }
   }
 
@@ -337,99 +661,617 @@ export class Scheduler {
 
     console.error(`[Scheduler] Executing task: ${task.name} (${task.id})`);
 
+    // A paused scheduler or snoozed task only runs when asked to explicitly
+    const pauseReason = triggerType === 'manual' ? null : await this.getPauseReason(task);
+    if (pauseReason) {
+      console.error(`[Scheduler] Skipping task ${task.name}: ${pauseReason}`);
+      const execution = await this.createSkippedExecution(
+        task,
+        triggerType,
+        triggerContext,
+        pauseReason
+      );
+      this.deferOneShotTask(task, triggerType, triggerContext);
+      return execution.id;
+    }
+
     // Check conditions (unless overridden)
-    if (!overrideConditions && (await this.shouldSkipTask(task, triggerContext))) {
-      console.error(`[Scheduler] Skipping task ${task.name} due to conditions`);
+    const skipReason = overrideConditions ? null : await this.getSkipReason(task, triggerContext);
+    if (skipReason) {
+      console.error(`[Scheduler] Skipping task ${task.name} due to conditions (${skipReason})`);
       const execution = await this.createSkippedExecution(
         task,
         triggerType,
-        triggerContext
+        triggerContext,
+        skipReason
       );
+      await this.finishOneShotTask(task, triggerType);
       return execution.id;
     }
 
-    // Create execution record with 'running' status
-    const execution = await this.storage.createExecution({
-      task_id: task.id,
-      trigger_type: triggerType,
-      trigger_context: triggerContext,
-      status: 'running',
-      started_at: new Date().toISOString(),
-    });
+    // Apply the task's overlap policy against its active executions
+    const active = await this.getActiveExecutions(task.id);
+    const activeCount = active.running.length + active.pending.length;
+    const overlap = getOverlapSettings(task);
+
+    if (overlap.policy === 'skip' && overlap.limit !== undefined && activeCount >= overlap.limit) {
+      console.error(`[Scheduler] Skipping task ${task.name}: ${activeCount} execution(s) already active`);
+      const execution = await this.createSkippedExecution(
+        task,
+        triggerType,
+        triggerContext,
+        `overlap: ${activeCount} execution(s) already active (max_concurrent ${overlap.limit})`
+      );
+      await this.finishOneShotTask(task, triggerType);
+      return execution.id;
+    }
+
+    // Apply the task's rate limit (runs from every trigger source count)
+    const rateLimitReason = await this.rateLimiter.acquire(task);
+    if (rateLimitReason) {
+      console.error(`[Scheduler] Skipping task ${task.name}: ${rateLimitReason}`);
+      const execution = await this.createSkippedExecution(
+        task,
+        triggerType,
+        triggerContext,
+        rateLimitReason
+      );
+      await this.finishOneShotTask(task, triggerType);
+      return execution.id;
+    }
+
+    if (overlap.policy === 'cancel_previous' && activeCount > 0) {
+      console.error(`[Scheduler] Cancelling ${activeCount} previous execution(s) of task ${task.name}`);
+      for (const executionId of [...active.pending, ...active.running]) {
+        await this.cancelExecution(executionId, 'Cancelled by newer execution (overlap_policy: cancel_previous)');
+      }
+    }
+
+    // Leave the run to a worker
+    if (this.config.execution_mode === 'workers') {
+      const execution = await this.storage.createExecution({
+        task_id: task.id,
+        trigger_type: triggerType,
+        trigger_context: triggerContext,
+        status: 'pending',
+        started_at: new Date().toISOString(),
+      });
+      console.error(`[Scheduler] Queued execution ${execution.id} of task ${task.name} for workers`);
+      return execution.id;
+    }
+
+    // Create execution record - 'running' if a slot is free, otherwise 'pending'
+    const hasSlot = this.executionQueue.tryReserve(task);
+    let execution: Execution;
+    try {
+      execution = await this.storage.createExecution({
+        task_id: task.id,
+        trigger_type: triggerType,
+        trigger_context: triggerContext,
+        status: hasSlot ? 'running' : 'pending',
+        started_at: new Date().toISOString(),
+      });
+    } catch (error) {
+      if (hasSlot) {
+        this.executionQueue.releaseReservation(task);
+      }
+      throw error;
+    }
 
     // Execute task asynchronously (don't wait)
-    this.runTaskExecution(task, execution).catch((error) => {
-      console.error(`[Scheduler] Unhandled error in task execution:`, error);
-    });
+    if (hasSlot) {
+      this.executionQueue.start(task, execution);
+    } else {
+      this.executionQueue.enqueue(task, execution);
+    }
 
     return execution.id;
   }
 
   /**
-   * Run task execution (async)
-   * @param task - Task to execute
-   * @param execution - Execution record
+   * Cancel a queued or running execution
+   * Queued executions are removed from the queue; running executions are
+   * signalled to abort and recorded as cancelled when they settle
+   * @param executionId - Execution to cancel
+   * @param reason - Error message recorded on the execution
+   * @param options.skip_failure_handlers - Don't run on_failure handlers for the cancelled run
+   * @returns True if the execution was queued or running in this process
    */
-  private async runTaskExecution(
-    task: Task,
-    execution: Execution
-  ): Promise<void> {
-    const startTime = Date.now();
-
-    try {
-      // Get appropriate executor with storage for streaming support
-      const executor = ExecutorFactory.createExecutor(task, this.storage);
-
-      // Execute task
-      const result: ExecutionResult = await executor.execute(task, execution);
-
-      // Calculate duration
-      const duration = Date.now() - startTime;
+  async cancelExecution(
+    executionId: string,
+    reason: string,
+    options: { skip_failure_handlers?: boolean } = {}
+  ): Promise<boolean> {
+    if (await this.executionQueue.removePending(executionId)) {
+      const cancelled = await this.storage.updateExecution(executionId, {
+        status: 'cancelled',
+        completed_at: new Date().toISOString(),
+        duration_ms: 0,
+        error: reason,
+      });
+      await this.finishCancelledExecution(cancelled, options.skip_failure_handlers);
+      return true;
+    }
 
-      // Update execution record with success
-      const updatedExecution = { ...execution };
-      updatedExecution.status = result.status;
-      updatedExecution.completed_at = new Date().toISOString();
-      updatedExecution.duration_ms = duration;
-      if (result.output !== undefined) updatedExecution.output = result.output;
-      if (result.error !== undefined) updatedExecution.error = result.error;
-      if (result.exit_code !== undefined) updatedExecution.exit_code = result.exit_code;
-      if (result.thinking_output !== undefined) updatedExecution.thinking_output = result.thinking_output;
-      if (result.tool_calls !== undefined) updatedExecution.tool_calls = result.tool_calls;
-      if (result.sdk_usage !== undefined) updatedExecution.sdk_usage = result.sdk_usage;
-      if (result.cost_usd !== undefined) updatedExecution.cost_usd = result.cost_usd;
+    const running = this.runningExecutions.get(executionId);
+    if (running) {
+      running.skipFailureHandlers = options.skip_failure_handlers ?? false;
+      running.controller.abort(reason);
+      return true;
+    }
 
-      await this.storage.updateExecution(execution.id, updatedExecution);
+    // Queued for or claimed by a worker (a worker aborts on its next heartbeat)
+    if (this.config.execution_mode === 'workers') {
+      const execution = await this.storage.getExecution(executionId);
+      if (execution && (execution.status === 'pending' || execution.status === 'running')) {
+        const completedAt = new Date();
+        const cancelled = await this.storage.updateExecution(executionId, {
+          status: 'cancelled',
+          completed_at: completedAt.toISOString(),
+          duration_ms: execution.status === 'running'
+            ? Math.max(0, completedAt.getTime() - new Date(execution.started_at).getTime())
+            : 0,
+          error: reason,
+        });
+        // A running one is finalized by its worker once it notices the cancel
+        if (execution.status === 'pending') {
+          await this.finishCancelledExecution(cancelled, options.skip_failure_handlers);
+        }
+        return true;
+      }
+    }
 
-      // Update task statistics
-      await this.updateTaskStats(task.id, result.status === 'success');
+    return false;
+  }
 
-      // Handle success/failure actions
-      if (result.status === 'success') {
-        await this.handleResultActions(task, updatedExecution, 'success');
-        // Trigger dependent tasks on success
-        await this.dependencyManager.onTaskCompleted(task.id, updatedExecution);
-      } else {
-        // Check if we should retry the failed task
-        if (this.retryHandler.shouldRetry(task, updatedExecution)) {
-          await this.retryHandler.scheduleRetry(task, updatedExecution);
-        } else {
-          // Only handle failure actions if we're not retrying
-          await this.handleResultActions(task, updatedExecution, 'failure');
-        }
+  /**
+   * Finalize an execution cancelled before it started, as a cancelled run is:
+   * count it in task stats, run on_failure handlers and pass it on to
+   * dependents and workflow runs
+   * @param execution - Cancelled execution record
+   * @param skipFailureHandlers - Don't run on_failure handlers
+   */
+  private async finishCancelledExecution(execution: Execution, skipFailureHandlers: boolean = false): Promise<void> {
+    try {
+      const task = await this.storage.getTask(execution.task_id);
+      if (!task) {
+        return;
       }
 
-      console.error(
-        `[Scheduler] Task ${task.name} completed with status: ${result.status}`
-      );
+      await this.updateTaskStats(task.id, 'cancelled');
+      if (!skipFailureHandlers) {
+        await this.handleResultActions(task, execution, 'failure');
+      }
+      await this.notifyCompleted(task.id, execution);
+      await this.finishOneShotTask(task, execution.trigger_type);
     } catch (error: any) {
-      const duration = Date.now() - startTime;
-
-      console.error(`[Scheduler] Task ${task.name} failed:`, error.message);
+      console.error(`[Scheduler] Failed to finalize cancelled execution ${execution.id}:`, error.message);
+    }
+  }
+
+  /**
+   * Stop a local run that has already been finalized elsewhere, e.g. interrupted
+   * by the stale-worker sweep after missed heartbeats
+   * Unlike cancelExecution, the run's record, task stats, result handlers and
+   * dependents are left as they are, so the outcome is not counted twice
+   * @param executionId - Execution to stop
+   * @param reason - Why the run is stopped
+   * @returns True if the execution was running here
+   */
+  abandonExecution(executionId: string, reason: string): boolean {
+    const running = this.runningExecutions.get(executionId);
+    if (!running) {
+      return false;
+    }
+
+    running.abandoned = true;
+    running.controller.abort(reason);
+    return true;
+  }
+
+  /**
+   * Get IDs of a task's running and queued executions
+   * In workers mode these are read from storage, since workers run them
+   */
+  private async getActiveExecutions(taskId: string): Promise<{ running: string[]; pending: string[] }> {
+    if (this.config.execution_mode !== 'workers') {
+      return this.executionQueue.getActiveExecutions(taskId);
+    }
+
+    const [running, pending] = await Promise.all([
+      this.storage.loadExecutions({ task_id: taskId, status: 'running' }),
+      this.storage.loadExecutions({ task_id: taskId, status: 'pending' }),
+    ]);
+    return {
+      running: running.map(execution => execution.id),
+      pending: pending.map(execution => execution.id),
+    };
+  }
+
+  /**
+   * Run an execution a worker claimed from storage
+   * Stats, result handlers, retries and dependent tasks are handled as for local runs
+   * @param task - Task to execute
+   * @param execution - Claimed execution ('running')
+   */
+  async runClaimedExecution(task: Task, execution: Execution): Promise<void> {
+    await this.runTaskExecution(task, execution);
+  }
+
+  /**
+   * List upcoming holidays that will skip a task
+   * @param task - Task with skip_holidays or holiday_calendars conditions
+   * @param days - Number of days to look ahead
+   */
+  listUpcomingHolidays(task: Task, days: number = 30): HolidayEntry[] {
+    const sources = getHolidaySources(task.conditions);
+    if (!sources) {
+      return [];
+    }
+
+    const timezone = task.conditions?.timezone || this.config.default_timezone || 'UTC';
+    return this.holidayCalendar.listHolidays(sources, timezone, days);
+  }
+
+  /**
+   * Preview the next runs of a time-based task
+   * Runs that time windows, blackouts or holidays would skip are marked with
+   * the reason. Other conditions (files, git, skip_if/only_if) depend on state
+   * at run time and are not evaluated. Runs of all time-based triggers in a
+   * trigger list are merged in time order
+   * @param task - Saved task, or an unsaved task built from a trigger and conditions
+   * @param count - Number of runs to list
+   * @param now - Time to preview from (default: current time)
+   * @throws Error if the task has no time-based trigger or a schedule is invalid
+   */
+  async previewSchedule(task: Task, count: number = 10, now: Date = new Date()): Promise<ScheduledRunPreview[]> {
+    const views = getTaskTriggers(task).filter(view =>
+      ['schedule', 'smart_schedule', 'interval', 'at'].includes(view.task.trigger.type)
+    );
+    if (views.length === 0) {
+      throw new Error(`Trigger type ${describeTriggerTypes(task)} is event-driven and has no schedule to preview`);
+    }
+
+    const runs: Array<{ time: Date; index: number | undefined }> = [];
+    for (const { task: view, index } of views) {
+      const times = await this.previewTriggerRuns(view, index, count, now);
+      runs.push(...times.map(time => ({ time, index })));
+    }
+    runs.sort((a, b) => a.time.getTime() - b.time.getTime());
+    runs.splice(count);
+
+    return runs.map(({ time, index }) => {
+      const reason = task.conditions ? this.getTimeSkipReason(task.conditions, time) : null;
+      return {
+        time: time.toISOString(),
+        ...(index !== undefined && { trigger_index: index }),
+        skipped: reason !== null,
+        ...(reason !== null && { skip_reason: reason }),
+      };
+    });
+  }
+
+  /**
+   * Get the next fire times of one time-based trigger (with its fixed jitter)
+   */
+  private async previewTriggerRuns(
+    task: SingleTriggerTask,
+    triggerIndex: number | undefined,
+    count: number,
+    now: Date
+  ): Promise<Date[]> {
+    const trigger = task.trigger;
+    const timezone = this.config.default_timezone || 'UTC';
+    let times: Date[];
+
+    switch (trigger.type) {
+      case 'schedule':
+        times = this.getCronSchedule(task, trigger.cron, trigger.timezone || timezone).nextTimes(now, count);
+        break;
+
+      case 'smart_schedule': {
+        const cronExpr = trigger.computed_cron || trigger.fallback_cron;
+        if (!cronExpr) {
+          throw new Error('Smart schedule has not been optimized yet and has no fallback_cron');
+        }
+        times = this.getCronSchedule(task, cronExpr, trigger.constraints?.timezone || timezone).nextTimes(now, count);
+        break;
+      }
+
+      case 'interval': {
+        const duration = this.parseDuration(trigger.every);
+        if (duration === 0) {
+          throw new Error(`Invalid interval duration: ${trigger.every}`);
+        }
+        const remaining = Math.min(count, await this.getRemainingIntervalRuns(task, triggerIndex));
+        times = [];
+        let next = this.getNextIntervalRun(trigger, duration, this.getIntervalAnchor(task, duration, now), now);
+        while (next && times.length < remaining) {
+          times.push(next);
+          next = this.getNextIntervalRun(trigger, duration, new Date(next.getTime() + duration), next);
+        }
+        break;
+      }
+
+      case 'at': {
+        const fireTime = this.misfireHandler.getAtTime(trigger);
+        times = fireTime.getTime() > now.getTime() ? [fireTime] : [];
+        break;
+      }
+
+      default:
+        return [];
+    }
+
+    // Random jitter differs on every run, so only the fixed offset is shown
+    const jitter = (trigger.type === 'schedule' || trigger.type === 'interval') &&
+      (trigger.jitter_mode ?? 'fixed') === 'fixed'
+      ? this.getJitterOffset(task.id, trigger.jitter)
+      : 0;
+
+    return times.map(time => new Date(time.getTime() + jitter));
+  }
+
+  /**
+   * Cancel a pending retry
+   * The retried execution's on_failure handlers (unless skipped) and
+   * dependents run, since they were deferred while the retry was pending
+   * @param retryId - Pending retry ID
+   * @param options.skip_failure_handlers - Don't run on_failure handlers
+   * @returns True if the retry was pending
+   */
+  async cancelRetry(
+    retryId: string,
+    options: { skip_failure_handlers?: boolean } = {}
+  ): Promise<boolean> {
+    const retry = await this.retryHandler.cancelRetry(retryId);
+    if (!retry) {
+      return false;
+    }
+
+    await this.finishRetriedExecution(retry, options.skip_failure_handlers);
+    return true;
+  }
+
+  /**
+   * Run what a pending retry deferred for the execution it retried
+   * Used when the retry is cancelled or can't start (task deleted or disabled)
+   * @param retry - The pending retry that won't run
+   * @param skipFailureHandlers - Don't run on_failure handlers
+   */
+  async finishRetriedExecution(retry: PendingRetry, skipFailureHandlers: boolean = false): Promise<void> {
+    const execution = await this.storage.getExecution(retry.execution_id);
+    if (!execution) {
+      return;
+    }
+
+    const task = await this.storage.getTask(retry.task_id);
+    if (task && !skipFailureHandlers) {
+      await this.handleResultActions(task, execution, 'failure');
+    }
+    await this.notifyCompleted(retry.task_id, execution);
+  }
+
+  /**
+   * Finalize executions a previous process left 'running' or 'pending'
+   * Running ones are marked with orphaned_execution_status, counted in task
+   * stats and fed into the retry policy (or on_failure handlers); queued ones
+   * are marked 'interrupted' without stats since they never started
+   * @returns Recovery report (also exposed via getStatus())
+   */
+  private async recoverOrphanedExecutions(): Promise<RecoveryReport> {
+    const report: RecoveryReport = {
+      recovered_at: new Date().toISOString(),
+      interrupted: 0,
+      abandoned: 0,
+      retried: 0,
+      execution_ids: [],
+    };
+
+    // In workers mode queued runs wait for a worker, and runs a worker
+    // claimed are checked by heartbeat instead
+    const workers = this.config.execution_mode === 'workers';
+    const running = (await this.storage.loadExecutions({ status: 'running' }))
+      .filter(execution => !workers || !execution.worker_id);
+    const pending = workers ? [] : await this.storage.loadExecutions({ status: 'pending' });
+
+    for (const execution of running) {
+      const retried = await this.interruptExecution(
+        execution,
+        'Interrupted: the server stopped while this execution was running'
+      );
+      report.interrupted++;
+      report.execution_ids.push(execution.id);
+      if (retried) {
+        report.retried++;
+      }
+    }
+
+    for (const execution of pending) {
+      const abandoned = await this.storage.updateExecution(execution.id, {
+        status: 'interrupted',
+        completed_at: new Date().toISOString(),
+        duration_ms: 0,
+        error: 'Interrupted: the server stopped before this queued execution started',
+      });
+      await this.workflowManager.onExecutionCompleted(abandoned);
+      report.abandoned++;
+      report.execution_ids.push(execution.id);
+    }
+
+    if (report.execution_ids.length > 0) {
+      console.error(
+        `[Scheduler] Recovered ${report.interrupted} interrupted and ${report.abandoned} queued execution(s) from a previous run (${report.retried} retried)`
+      );
+    }
+
+    this.lastRecovery = report;
+    return report;
+  }
+
+  /**
+   * Interrupt runs whose worker stopped sending heartbeats (workers mode)
+   * They are finalized like runs orphaned by a crash
+   * @param now - Current time
+   * @returns Number of executions interrupted
+   */
+  async recoverStaleWorkerExecutions(now: Date = new Date()): Promise<number> {
+    const timeout = this.parseDuration(this.config.worker_timeout!);
+    const running = await this.storage.loadExecutions({ status: 'running' });
+    let recovered = 0;
+
+    for (const execution of running) {
+      const lastSeen = new Date(execution.heartbeat_at ?? execution.started_at).getTime();
+      if (!execution.worker_id || now.getTime() - lastSeen < timeout) {
+        continue;
+      }
+
+      // Other scheduler instances sweep the same executions
+      if (!(await this.claimFire(`stale:${execution.id}`))) {
+        continue;
+      }
+
+      console.error(
+        `[Scheduler] Worker ${execution.worker_id} stopped responding while running execution ${execution.id}`
+      );
+      await this.interruptExecution(
+        execution,
+        `Interrupted: worker ${execution.worker_id} stopped sending heartbeats`
+      );
+      recovered++;
+    }
+
+    return recovered;
+  }
+
+  /**
+   * Finalize a run that will never report back
+   * Marks it with orphaned_execution_status, counts it in task stats and
+   * feeds it into the retry policy (or on_failure handlers)
+   * @returns True if a retry was scheduled
+   */
+  private async interruptExecution(execution: Execution, error: string): Promise<boolean> {
+    const completedAt = new Date();
+    const recovered = await this.storage.updateExecution(execution.id, {
+      status: this.config.orphaned_execution_status ?? 'interrupted',
+      completed_at: completedAt.toISOString(),
+      duration_ms: Math.max(0, completedAt.getTime() - new Date(execution.started_at).getTime()),
+      error,
+    });
+
+    const task = await this.storage.getTask(execution.task_id);
+    if (!task) {
+      return false;
+    }
+
+    await this.updateTaskStats(task.id, 'failure');
+
+    if (task.enabled && this.retryHandler.shouldRetry(task, recovered)) {
+      await this.retryHandler.scheduleRetry(task, recovered);
+      return true;
+    }
+
+    await this.handleResultActions(task, recovered, 'failure');
+    await this.notifyCompleted(task.id, recovered);
+    return false;
+  }
+
+  /**
+   * Run task execution (async)
+   * @param task - Task to execute
+   * @param execution - Execution record
+   */
+  private async runTaskExecution(
+    task: Task,
+    execution: Execution
+  ): Promise<void> {
+    const startTime = Date.now();
+    const cancellation = { controller: new AbortController(), skipFailureHandlers: false, abandoned: false };
+    this.runningExecutions.set(execution.id, cancellation);
+    const signal = cancellation.controller.signal;
+    let retryScheduled = false;
+
+    try {
+      // Get appropriate executor with storage for streaming support
+      const executor = ExecutorFactory.createExecutor(task, this.storage);
+
+      // Execute task
+      const result: ExecutionResult = await executor.execute(task, execution, signal);
+
+      // Calculate duration
+      const duration = Date.now() - startTime;
+
+      if (cancellation.abandoned) {
+        console.error(`[Scheduler] Task ${task.name} stopped; execution ${execution.id} was finalized elsewhere`);
+        return;
+      }
+
+      // A cancelled run is cancelled even if the executor finished first
+      if (signal.aborted && result.status !== 'cancelled') {
+        result.status = 'cancelled';
+        result.error = `Cancelled: ${String(signal.reason)}`;
+      }
+
+      // Update execution record with success
+      const updatedExecution = { ...execution };
+      updatedExecution.status = result.status;
+      updatedExecution.completed_at = new Date().toISOString();
+      updatedExecution.duration_ms = duration;
+      if (result.output !== undefined) updatedExecution.output = result.output;
+      if (result.error !== undefined) updatedExecution.error = result.error;
+      if (result.exit_code !== undefined) updatedExecution.exit_code = result.exit_code;
+      if (result.thinking_output !== undefined) updatedExecution.thinking_output = result.thinking_output;
+      if (result.tool_calls !== undefined) updatedExecution.tool_calls = result.tool_calls;
+      if (result.sdk_usage !== undefined) updatedExecution.sdk_usage = result.sdk_usage;
+      if (result.cost_usd !== undefined) updatedExecution.cost_usd = result.cost_usd;
+
+      await this.storage.updateExecution(execution.id, updatedExecution);
+
+      // Update task statistics
+      await this.updateTaskStats(
+        task.id,
+        result.status === 'success' ? 'success' : result.status === 'cancelled' ? 'cancelled' : 'failure'
+      );
+
+      // Handle success/failure actions
+      if (result.status === 'success') {
+        await this.handleResultActions(task, updatedExecution, 'success');
+      } else if (result.status === 'cancelled') {
+        // Cancelled runs are never retried
+        if (!cancellation.skipFailureHandlers) {
+          await this.handleResultActions(task, updatedExecution, 'failure');
+        }
+      } else {
+        // Check if we should retry the failed task
+        if (this.retryHandler.shouldRetry(task, updatedExecution)) {
+          await this.retryHandler.scheduleRetry(task, updatedExecution);
+          retryScheduled = true;
+        } else {
+          // Only handle failure actions if we're not retrying
+          await this.handleResultActions(task, updatedExecution, 'failure');
+        }
+      }
+
+      // Trigger dependent tasks and workflow steps once the outcome is final
+      if (!retryScheduled) {
+        await this.notifyCompleted(task.id, updatedExecution);
+      }
+
+      console.error(
+        `[Scheduler] Task ${task.name} completed with status: ${result.status}`
+      );
+    } catch (error: any) {
+      const duration = Date.now() - startTime;
+
+      console.error(`[Scheduler] Task ${task.name} failed:`, error.message);
+
+      if (cancellation.abandoned) {
+        return;
+      }
 
       // Update execution record with failure
       const failedExecution = { ...execution };
-      failedExecution.status = 'failure';
+      failedExecution.status = signal.aborted ? 'cancelled' : 'failure';
       failedExecution.completed_at = new Date().toISOString();
       failedExecution.duration_ms = duration;
       failedExecution.error = error.message;
@@ -437,15 +1279,31 @@ export class Scheduler {
       await this.storage.updateExecution(execution.id, failedExecution);
 
       // Update task statistics
-      await this.updateTaskStats(task.id, false);
+      await this.updateTaskStats(task.id, signal.aborted ? 'cancelled' : 'failure');
 
       // Check if we should retry the failed task
-      if (this.retryHandler.shouldRetry(task, failedExecution)) {
+      if (signal.aborted) {
+        if (!cancellation.skipFailureHandlers) {
+          await this.handleResultActions(task, failedExecution, 'failure');
+        }
+      } else if (this.retryHandler.shouldRetry(task, failedExecution)) {
         await this.retryHandler.scheduleRetry(task, failedExecution);
+        retryScheduled = true;
       } else {
         // Only handle failure actions if we're not retrying
         await this.handleResultActions(task, failedExecution, 'failure');
       }
+
+      if (!retryScheduled) {
+        await this.notifyCompleted(task.id, failedExecution);
+      }
+    } finally {
+      this.runningExecutions.delete(execution.id);
+    }
+
+    // A one-shot task is done once its run (including retries) has settled
+    if (!retryScheduled) {
+      await this.finishOneShotTask(task, execution.trigger_type);
     }
   }
 
@@ -453,53 +1311,31 @@ export class Scheduler {
    * Check if task should be skipped based on conditions
    * @param task - Task to check
    * @param _context - Trigger context (not currently used)
-   * @returns True if task should be skipped
+   * @returns Skip reason ("code: detail"), or null if the task may run
    */
-  private async shouldSkipTask(task: Task, _context?: any): Promise<boolean> {
+  private async getSkipReason(task: Task, _context?: any): Promise<string | null> {
     if (!task.conditions) {
-      return false;
+      return null;
     }
 
     const conditions = task.conditions;
 
-    // Check time window
-    if (conditions.time_window) {
-      const inWindow = this.isWithinTimeWindow(
-        conditions.time_window.start,
-        conditions.time_window.end,
-        conditions.time_window.timezone || this.config.default_timezone
-      );
-      if (!inWindow) {
-        console.error(`[Scheduler] Task ${task.name} outside time window`);
-        return true;
-      }
-    }
-
-    // Check holidays
-    if (conditions.skip_holidays) {
-      const region = conditions.holiday_region || 'US';
-      if (this.isHoliday(region)) {
-        console.error(`[Scheduler] Task ${task.name} skipped due to holiday`);
-        return true;
-      }
+    // Check blackout periods, time windows and holidays
+    const timeReason = this.getTimeSkipReason(conditions);
+    if (timeReason) {
+      return timeReason;
     }
 
     // Check file existence
     if (conditions.only_if_file_exists) {
       if (!fs.existsSync(conditions.only_if_file_exists)) {
-        console.error(
-          `[Scheduler] Task ${task.name} skipped: file does not exist: ${conditions.only_if_file_exists}`
-        );
-        return true;
+        return `conditions: file does not exist: ${conditions.only_if_file_exists}`;
       }
     }
 
     if (conditions.skip_if_file_exists) {
       if (fs.existsSync(conditions.skip_if_file_exists)) {
-        console.error(
-          `[Scheduler] Task ${task.name} skipped: file exists: ${conditions.skip_if_file_exists}`
-        );
-        return true;
+        return `conditions: file exists: ${conditions.skip_if_file_exists}`;
       }
     }
 
@@ -507,8 +1343,7 @@ export class Scheduler {
     if (conditions.only_if_git_dirty) {
       const isDirty = await this.isGitDirty();
       if (!isDirty) {
-        console.error(`[Scheduler] Task ${task.name} skipped: git is clean`);
-        return true;
+        return 'conditions: git is clean';
       }
     }
 
@@ -516,8 +1351,7 @@ export class Scheduler {
     if (conditions.skip_if) {
       const shouldSkip = await this.evaluateCondition(conditions.skip_if);
       if (shouldSkip) {
-        console.error(`[Scheduler] Task ${task.name} skipped: skip_if condition met`);
-        return true;
+        return 'conditions: skip_if condition met';
       }
     }
 
@@ -525,60 +1359,38 @@ export class Scheduler {
     if (conditions.only_if) {
       const shouldRun = await this.evaluateCondition(conditions.only_if);
       if (!shouldRun) {
-        console.error(
-          `[Scheduler] Task ${task.name} skipped: only_if condition not met`
-        );
-        return true;
+        return 'conditions: only_if condition not met';
       }
     }
 
-    return false;
+    return null;
   }
 
   /**
-   * Check if current time is within time window
+   * Check the time-based conditions (blackouts, time windows, holidays)
+   * These depend only on the time, so they can also be evaluated for future runs
+   * @param conditions - Task conditions
+   * @param now - Time to check (default: current time)
+   * @returns Skip reason ("code: detail"), or null if the task may run
    */
-  private isWithinTimeWindow(
-    startTime: string,
-    endTime: string,
-    _timezone?: string
-  ): boolean {
-    const now = new Date();
+  private getTimeSkipReason(conditions: TaskConditions, now: Date = new Date()): string | null {
+    const timezone = conditions.timezone || this.config.default_timezone || 'UTC';
 
-    // Parse time strings (HH:MM format)
-    const startParts = startTime.split(':').map(Number);
-    const endParts = endTime.split(':').map(Number);
-
-    const startHour = startParts[0] || 0;
-    const startMin = startParts[1] || 0;
-    const endHour = endParts[0] || 0;
-    const endMin = endParts[1] || 0;
-
-    // Get current time in specified timezone
-    const currentHour = now.getHours();
-    const currentMin = now.getMinutes();
-
-    // Convert to minutes since midnight for easy comparison
-    const currentMinutes = currentHour * 60 + currentMin;
-    const startMinutes = startHour * 60 + startMin;
-    const endMinutes = endHour * 60 + endMin;
+    const timeReason = checkTimeConditions(conditions, timezone, now);
+    if (timeReason) {
+      return timeReason;
+    }
 
-    // Handle overnight windows (e.g., 22:00 - 06:00)
-    if (startMinutes <= endMinutes) {
-      return currentMinutes >= startMinutes && currentMinutes <= endMinutes;
-    } else {
-      return currentMinutes >= startMinutes || currentMinutes <= endMinutes;
+    // Region and/or calendar file holidays
+    const holidaySources = getHolidaySources(conditions);
+    if (holidaySources) {
+      const holiday = this.holidayCalendar.getHoliday(holidaySources, timezone, now);
+      if (holiday) {
+        return `holiday: ${holiday.name} (${holiday.source})`;
+      }
     }
-  }
 
-  /**
-   * Check if today is a holiday
-   */
-  private isHoliday(region: string): boolean {
-    this.holidays.init(region);
-    const today = new Date();
-    const holidays = this.holidays.isHoliday(today);
-    return holidays !== false;
+    return null;
   }
 
   /**
@@ -626,12 +1438,21 @@ export class Scheduler {
   }
 
   /**
-   * Create a skipped execution record
+   * Pass a run's final outcome on to dependent tasks and its workflow run
+   */
+  private async notifyCompleted(taskId: string, execution: Execution): Promise<void> {
+    await this.dependencyManager.onTaskCompleted(taskId, execution);
+    await this.workflowManager.onExecutionCompleted(execution);
+  }
+
+  /**
+   * Create a skipped execution record and pass it on to dependents and workflow runs
    */
   private async createSkippedExecution(
     task: Task,
     triggerType: string,
-    triggerContext?: any
+    triggerContext?: any,
+    skipReason?: string
   ): Promise<Execution> {
     const execution = await this.storage.createExecution({
       task_id: task.id,
@@ -641,21 +1462,27 @@ export class Scheduler {
       started_at: new Date().toISOString(),
       completed_at: new Date().toISOString(),
       duration_ms: 0,
+      ...(skipReason !== undefined && { skip_reason: skipReason }),
     });
+    await this.notifyCompleted(task.id, execution);
     return execution;
   }
 
   /**
    * Update task statistics
+   * Cancelled runs count towards run_count only
    */
-  private async updateTaskStats(taskId: string, success: boolean): Promise<void> {
+  private async updateTaskStats(
+    taskId: string,
+    outcome: 'success' | 'failure' | 'cancelled'
+  ): Promise<void> {
     const task = await this.storage.getTask(taskId);
     if (!task) return;
 
     await this.storage.updateTask(taskId, {
       run_count: task.run_count + 1,
-      success_count: success ? task.success_count + 1 : task.success_count,
-      failure_count: success ? task.failure_count : task.failure_count + 1,
+      success_count: outcome === 'success' ? task.success_count + 1 : task.success_count,
+      failure_count: outcome === 'failure' ? task.failure_count + 1 : task.failure_count,
       last_run: new Date().toISOString(),
     });
   }
@@ -686,47 +1513,294 @@ export class Scheduler {
   }
 
   /**
-   * Calculate next run time for a cron expression
+   * Get the jitter delay for a task's next fire
+   * @param taskId - Task ID (seeds the fixed offset)
+   * @param jitter - Max delay duration (e.g. "5m")
+   * @param mode - 'fixed' (same offset every run) or 'random' (new offset every run)
+   * @returns Delay in ms, in [0, jitter)
+   */
+  private getJitterOffset(taskId: string, jitter?: string, mode: JitterMode = 'fixed'): number {
+    const maxJitter = jitter ? this.parseDuration(jitter) : 0;
+    if (maxJitter === 0) {
+      return 0;
+    }
+
+    if (mode === 'random') {
+      return Math.floor(Math.random() * maxJitter);
+    }
+
+    const hash = createHash('sha256').update(taskId).digest();
+    return hash.readUInt32BE(0) % maxJitter;
+  }
+
+  /**
+   * Persist a task's next fire time
+   * A task with several triggers stores the earliest fire time of all of them
+   * @param triggerIndex - Position of the trigger in the task's trigger list
    */
-  private calculateNextRun(cronExpression: string, timezone: string): Date {
+  private async recordNextRun(taskId: string, nextRun: Date, triggerIndex?: number): Promise<void> {
+    const key = getTriggerKey(taskId, triggerIndex);
+    const info = this.scheduledTasks.get(key);
+    if (info) {
+      info.nextRun = nextRun;
+    }
+    this.nextRuns.set(key, nextRun);
+
+    let earliest = nextRun;
+    for (const [otherKey, time] of this.nextRuns) {
+      if (isTriggerKeyOf(otherKey, taskId) && time.getTime() < earliest.getTime()) {
+        earliest = time;
+      }
+    }
+
     try {
-      const interval = CronExpressionParser.parse(cronExpression, {
-        currentDate: new Date(),
-        tz: timezone,
-      });
-      return interval.next().toDate();
-    } catch (error) {
-      // Fallback to 1 minute from now
-      return new Date(Date.now() + 60000);
+      await this.storage.updateTask(taskId, { next_run: earliest.toISOString() });
+    } catch (error: any) {
+      console.error(`[Scheduler] Failed to record next run for task ${taskId}:`, error.message);
     }
   }
 
   /**
-   * Check for due tasks
-   * Called periodically (not needed with node-cron, kept for compatibility)
+   * Check storage for tasks changed outside this scheduler
+   * Called every check_interval. Tasks added, edited (trigger or enabled) or
+   * deleted by another process, such as the hook-event CLI or a second MCP
+   * session, are armed, re-armed or unscheduled here. One-shot tasks held back
+   * by a pause or snooze run once it has ended, whichever instance ended it, and
+   * in workers mode retries saved by workers are armed
+   * @returns Number of tasks whose schedule changed
    */
-  async checkDueTasks(): Promise<void> {
-    // Not needed with node-cron as it handles scheduling automatically
-    // Kept for future use with other trigger types
+  async checkDueTasks(): Promise<number> {
+    const tasks = await this.storage.loadTasks();
+    const seen = new Set<string>();
+    const graph = this.dependencyManager.getDependencyGraph();
+    let changed = 0;
+    let dependenciesChanged = false;
+
+    for (const task of tasks) {
+      seen.add(task.id);
+      const version = getScheduleVersion(task);
+      const known = this.taskVersions.get(task.id);
+      if (known === version || (known === undefined && !task.enabled)) {
+        this.taskVersions.set(task.id, version);
+        continue;
+      }
+
+      console.error(`[Scheduler] Task ${task.name} ${known === undefined ? 'added' : 'changed'} in storage, rescheduling`);
+      try {
+        await this.rescheduleTask(task);
+      } catch (error: any) {
+        console.error(`[Scheduler] Failed to reschedule task ${task.name}:`, error.message);
+      }
+      changed++;
+
+      if (
+        getTaskTriggers(task, 'dependency').length > 0 ||
+        [...graph.values()].some(dependents => dependents.includes(task.id))
+      ) {
+        dependenciesChanged = true;
+      }
+    }
+
+    for (const taskId of [...this.taskVersions.keys()]) {
+      if (seen.has(taskId)) {
+        continue;
+      }
+
+      console.error(`[Scheduler] Task ${taskId} deleted from storage, unscheduling`);
+      this.taskVersions.delete(taskId);
+      await this.unscheduleTask(taskId);
+      changed++;
+      dependenciesChanged = dependenciesChanged || graph.has(taskId) ||
+        [...graph.values()].some(dependents => dependents.includes(taskId));
+    }
+
+    if (dependenciesChanged) {
+      await this.dependencyManager.buildDependencyGraph(tasks.filter(task => task.enabled));
+    }
+
+    await this.runDeferredOneShotTasks();
+
+    // Workers save retries of their failed runs without arming them
+    if (this.config.execution_mode === 'workers') {
+      await this.retryHandler.restorePendingRetries();
+    }
+
+    return changed;
   }
 
   /**
    * Get scheduler status
    * Used for diagnostics and monitoring
    */
-  getStatus(): { running: boolean; config: SchedulerConfig; scheduled_count: number } {
+  getStatus(): {
+    running: boolean;
+    config: SchedulerConfig;
+    scheduled_count: number;
+    running_executions: number;
+    queued_executions: number;
+    paused?: SchedulerPause;
+    last_recovery?: RecoveryReport;
+  } {
+    const paused = this.getCachedPause();
     return {
       running: this.isRunning,
       config: this.config,
       scheduled_count: this.scheduledTasks.size,
+      running_executions: this.executionQueue.getRunningCount(),
+      queued_executions: this.executionQueue.getPendingCount(),
+      ...(paused && { paused }),
+      ...(this.lastRecovery && { last_recovery: this.lastRecovery }),
+    };
+  }
+
+  /**
+   * Pause the scheduler
+   * Triggers keep firing but their runs are recorded as skipped; manual runs still start.
+   * The pause is saved in storage, so it survives restarts and applies to every instance
+   * @param reason - Why the scheduler is paused (shown in skip reasons and status)
+   * @param until - Resume automatically at this time
+   */
+  async pause(reason?: string, until?: Date): Promise<SchedulerPause> {
+    if (until && until.getTime() <= Date.now()) {
+      throw new Error(`Pause expiry is in the past: ${until.toISOString()}`);
+    }
+
+    const pause: SchedulerPause = {
+      paused_at: new Date().toISOString(),
+      ...(reason && { reason }),
+      ...(until && { until: until.toISOString() }),
     };
+    await this.storage.saveSchedulerPause(pause);
+    this.pauseState = pause;
+    console.error(
+      `[Scheduler] Paused${reason ? ` (${reason})` : ''}${until ? ` until ${until.toISOString()}` : ''}`
+    );
+    return pause;
+  }
+
+  /**
+   * Resume a paused scheduler
+   * @returns True if the scheduler was paused
+   */
+  async resume(): Promise<boolean> {
+    if (!(await this.getPauseState())) {
+      return false;
+    }
+
+    await this.storage.saveSchedulerPause(null);
+    this.pauseState = null;
+    console.error('[Scheduler] Resumed');
+    await this.runDeferredOneShotTasks();
+    return true;
+  }
+
+  /**
+   * Get the current pause from storage
+   * An expired pause counts as resumed; its row is left for the next pause to replace,
+   * so an instance cannot delete a pause another instance has just saved
+   */
+  async getPauseState(): Promise<SchedulerPause | null> {
+    try {
+      this.pauseState = await this.storage.getSchedulerPause();
+    } catch (error: any) {
+      // Keep the last pause seen rather than running everything while storage is down
+      console.error('[Scheduler] Failed to load the scheduler pause:', error.message);
+    }
+    return this.getCachedPause();
+  }
+
+  /**
+   * Get the pause last read from storage, ignoring it once its expiry has passed
+   */
+  private getCachedPause(): SchedulerPause | null {
+    const pause = this.pauseState;
+    if (pause?.until && new Date(pause.until).getTime() <= Date.now()) {
+      return null;
+    }
+    return pause;
+  }
+
+  /**
+   * Snooze a task: runs from all of its triggers are skipped until a time
+   * @param taskId - Task to snooze
+   * @param until - End of the snooze, or null to end it now
+   * @returns Updated task
+   */
+  async snoozeTask(taskId: string, until: Date | null): Promise<Task> {
+    const task = await this.storage.getTask(taskId);
+    if (!task) {
+      throw new Error(`Task not found: ${taskId}`);
+    }
+
+    if (!until) {
+      console.error(`[Scheduler] Snooze of task ${task.name} ended`);
+      const updated = await this.storage.updateTask(taskId, { snoozed_until: null });
+      await this.runDeferredOneShotTasks();
+      return updated;
+    }
+
+    if (until.getTime() <= Date.now()) {
+      throw new Error(`Snooze end is in the past: ${until.toISOString()}`);
+    }
+
+    console.error(`[Scheduler] Snoozed task ${task.name} until ${until.toISOString()}`);
+    return this.storage.updateTask(taskId, { snoozed_until: until.toISOString() });
+  }
+
+  /**
+   * Get why a task must not run because the scheduler is paused or the task is snoozed
+   * @returns "paused: ..." or "snoozed: ..." skip reason, or null
+   */
+  private async getPauseReason(task: Task): Promise<string | null> {
+    const paused = await this.getPauseState();
+    if (paused) {
+      const until = paused.until ? ` until ${paused.until}` : '';
+      return `paused: ${paused.reason || 'scheduler paused'}${until}`;
+    }
+
+    if (task.snoozed_until && new Date(task.snoozed_until).getTime() > Date.now()) {
+      return `snoozed: until ${task.snoozed_until}`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Claim a scheduled fire so only one instance in a cluster runs it
+   * Outside cluster mode every fire is claimed locally
+   * @param key - Fire key shared by all instances (see getFireKey)
+   * @returns True if this instance should run the fire
+   */
+  async claimFire(key: string): Promise<boolean> {
+    if (!this.config.cluster_mode) {
+      return true;
+    }
+
+    try {
+      const claimed = await this.storage.acquireLease(
+        key,
+        this.config.instance_id!,
+        this.parseDuration(this.config.fire_lock_ttl!)
+      );
+      if (!claimed) {
+        console.error(`[Scheduler] ${key} claimed by another instance`);
+      }
+      return claimed;
+    } catch (error: any) {
+      console.error(`[Scheduler] Failed to claim ${key}:`, error.message);
+      return false;
+    }
   }
 
   /**
    * Schedule an interval task
-   * @param task - Task with interval trigger
+   * Each fire time is computed from the previous one (or from next_run/last_run
+   * in storage after a restart) and armed with its own timer, so the cadence
+   * does not drift or reset with process uptime
+   * @param task - Task (or trigger of a task) with interval trigger
+   * @param triggerIndex - Position of the trigger in the task's trigger list
    */
-  private async scheduleIntervalTask(task: Task): Promise<void> {
+  private async scheduleIntervalTask(task: SingleTriggerTask, triggerIndex?: number): Promise<void> {
     if (task.trigger.type !== 'interval') {
       throw new Error(`Cannot schedule interval task with trigger type: ${task.trigger.type}`);
     }
@@ -739,146 +1813,547 @@ export class Scheduler {
     }
 
     // Unschedule existing if already scheduled
-    if (this.intervalJobs.has(task.id)) {
-      await this.unscheduleIntervalTask(task.id);
+    const key = getTriggerKey(task.id, triggerIndex);
+    if (this.intervalJobs.has(key)) {
+      await this.unscheduleIntervalTask(key);
     }
 
-    // Calculate start time
-    const startTime = trigger.start ? new Date(trigger.start) : new Date();
-    const delay = Math.max(0, startTime.getTime() - Date.now());
+    const now = new Date();
+    const anchor = this.getIntervalAnchor(task, duration, now);
+    const nextRun = this.getNextIntervalRun(trigger, duration, anchor, now);
+    if (!nextRun || (await this.getRemainingIntervalRuns(task, triggerIndex)) <= 0) {
+      console.error(`[Scheduler] Interval task "${task.name}" has reached its end or max_runs; not scheduling`);
+      return;
+    }
 
     console.error(
-      `[Scheduler] Scheduling interval task "${task.name}" every ${trigger.every} (start: ${startTime.toISOString()})`
+      `[Scheduler] Scheduling interval task "${task.name}" every ${trigger.every} (start: ${nextRun.toISOString()})`
     );
 
-    // Schedule with initial delay
-    const timeout = setTimeout(() => {
-      // Remove timeout from job record since it has fired
-      const job = this.intervalJobs.get(task.id);
-      if (job) {
-        delete job.timeout;
+    await this.armIntervalRun(task, triggerIndex, nextRun);
+  }
+
+  /**
+   * Get the fire time an interval task's cadence follows
+   * Resumes the previous cadence if the task was scheduled before
+   * (next_run includes jitter; the fixed offset is taken back out to find the cadence)
+   */
+  private getIntervalAnchor(task: SingleTriggerTask, duration: number, now: Date): Date | undefined {
+    const trigger = task.trigger as IntervalTrigger;
+    const start = trigger.start ? new Date(trigger.start) : undefined;
+    if (start && start.getTime() > now.getTime()) {
+      return start;
+    }
+
+    if (task.next_run) {
+      const fixedOffset = (trigger.jitter_mode ?? 'fixed') === 'fixed'
+        ? this.getJitterOffset(task.id, trigger.jitter, trigger.jitter_mode)
+        : 0;
+      return new Date(new Date(task.next_run).getTime() - fixedOffset);
+    }
+    if (task.last_run) {
+      return new Date(new Date(task.last_run).getTime() + duration);
+    }
+    return start;
+  }
+
+  /**
+   * Get the next interval fire time (without jitter)
+   * @param trigger - Interval trigger
+   * @param duration - Interval length (ms)
+   * @param anchor - A previous or planned fire time the cadence follows
+   * @param now - Current time
+   * @returns Next fire time, or null if it would be after trigger.end
+   */
+  private getNextIntervalRun(
+    trigger: IntervalTrigger,
+    duration: number,
+    anchor: Date | undefined,
+    now: Date
+  ): Date | null {
+    let next: Date;
+
+    if (trigger.align) {
+      const timezone = trigger.timezone || this.config.default_timezone || 'UTC';
+      const earliest = anchor && anchor.getTime() > now.getTime() ? anchor : now;
+      next = nextAlignedTime(new Date(earliest.getTime() - 1), duration, timezone);
+    } else if (anchor) {
+      next = this.misfireHandler.nextIntervalSlot(anchor, duration, now);
+    } else {
+      next = now;
+    }
+
+    if (trigger.end && next.getTime() > new Date(trigger.end).getTime()) {
+      return null;
+    }
+    return next;
+  }
+
+  /**
+   * Get how many more runs an interval trigger may start under max_runs
+   * Counts the interval and catch-up runs this trigger started, including
+   * ones still queued or running (here or on a worker); skipped fires don't count
+   * @param task - Task (or trigger of a task) with interval trigger
+   * @param triggerIndex - Position of the trigger in the task's trigger list
+   */
+  private async getRemainingIntervalRuns(task: SingleTriggerTask, triggerIndex?: number): Promise<number> {
+    const maxRuns = (task.trigger as IntervalTrigger).max_runs;
+    if (maxRuns === undefined) {
+      return Infinity;
+    }
+
+    const executions = await this.storage.loadExecutions({ task_id: task.id });
+    const runs = executions.filter(execution =>
+      INTERVAL_RUN_TRIGGER_TYPES.includes(execution.trigger_type) &&
+      execution.status !== 'skipped' &&
+      execution.trigger_context?.trigger_index === triggerIndex
+    );
+    return maxRuns - runs.length;
+  }
+
+  /**
+   * Arm the timer for an interval task's next fire and record it as next_run
+   * @param task - Task (or trigger of a task) with interval trigger
+   * @param triggerIndex - Position of the trigger in the task's trigger list
+   * @param scheduledTime - Fire time without jitter
+   * @param jitterMs - Jitter for this fire (default: picked from the trigger)
+   */
+  private async armIntervalRun(
+    task: SingleTriggerTask,
+    triggerIndex: number | undefined,
+    scheduledTime: Date,
+    jitterMs?: number
+  ): Promise<void> {
+    const trigger = task.trigger as IntervalTrigger;
+    const key = getTriggerKey(task.id, triggerIndex);
+    const offset = jitterMs ?? this.getJitterOffset(task.id, trigger.jitter, trigger.jitter_mode);
+    const fireAt = new Date(scheduledTime.getTime() + offset);
+    const delay = fireAt.getTime() - Date.now();
+
+    const job: { timeout?: NodeJS.Timeout } = {};
+    job.timeout = setTimeout(() => {
+      if (this.intervalJobs.get(key) !== job) {
+        return;
       }
 
-      // Execute first time immediately after delay
-      this.executeTask(task.id, 'interval').catch((error: any) => {
+      if (delay > MAX_TIMER_DELAY) {
+        this.armIntervalRun(task, triggerIndex, scheduledTime, offset).catch((error: any) => {
+          console.error(`[Scheduler] Failed to re-arm interval task ${task.name}:`, error.message);
+        });
+        return;
+      }
+
+      this.fireIntervalRun(task, triggerIndex, scheduledTime, job).catch((error: any) => {
         console.error(
           `[Scheduler] Interval task ${task.name} failed:`,
           error.message
         );
       });
+    }, Math.max(0, Math.min(delay, MAX_TIMER_DELAY)));
 
-      // Then set up recurring interval
-      const interval = setInterval(async () => {
-        try {
-          await this.executeTask(task.id, 'interval');
-        } catch (error: any) {
-          console.error(
-            `[Scheduler] Interval task ${task.name} failed:`,
-            error.message
-          );
+    this.intervalJobs.set(key, job);
+    await this.recordNextRun(task.id, fireAt, triggerIndex);
+  }
+
+  /**
+   * Run an interval task and arm its next fire
+   * @param job - Job record the timer belonged to (stale jobs are ignored)
+   */
+  private async fireIntervalRun(
+    task: SingleTriggerTask,
+    triggerIndex: number | undefined,
+    scheduledTime: Date,
+    job: { timeout?: NodeJS.Timeout }
+  ): Promise<void> {
+    const trigger = task.trigger as IntervalTrigger;
+    const key = getTriggerKey(task.id, triggerIndex);
+    const current = await this.storage.getTask(task.id);
+
+    // Unscheduled or rescheduled while loading
+    if (this.intervalJobs.get(key) !== job) {
+      return;
+    }
+    this.intervalJobs.delete(key);
+
+    const view = current && getTaskTrigger(current, triggerIndex);
+    if (!current || !current.enabled || !view) {
+      return;
+    }
+
+    const remaining = await this.getRemainingIntervalRuns(view.task, triggerIndex);
+    if (remaining <= 0) {
+      console.error(`[Scheduler] Interval task ${task.name} reached max_runs (${trigger.max_runs})`);
+      return;
+    }
+
+    // Arm the next fire before running so a slow run does not shift the cadence
+    const now = new Date(Math.max(Date.now(), scheduledTime.getTime()));
+    const nextRun = remaining > 1
+      ? this.getNextIntervalRun(trigger, this.parseDuration(trigger.every), scheduledTime, now)
+      : null;
+    if (nextRun) {
+      await this.armIntervalRun(task, triggerIndex, nextRun);
+    } else {
+      this.nextRuns.delete(key);
+      console.error(`[Scheduler] Interval task ${task.name} fired for the last time`);
+    }
+
+    if (!(await this.claimFire(getFireKey(key, scheduledTime)))) {
+      return;
+    }
+
+    await this.executeTask(task.id, 'interval', {
+      scheduled_time: scheduledTime.toISOString(),
+      ...getTriggerIndexContext(triggerIndex),
+    });
+  }
+
+  /**
+   * Arm a one-shot task with an at trigger
+   * A fire time that passed while the server was down is handled by the
+   * task's misfire policy (default: run once now)
+   * @param task - Task (or trigger of a task) with at trigger
+   * @param triggerIndex - Position of the trigger in the task's trigger list
+   * @returns Number of catch-up runs started
+   */
+  private async scheduleAtTask(task: SingleTriggerTask, triggerIndex?: number): Promise<number> {
+    if (task.trigger.type !== 'at') {
+      throw new Error(`Cannot schedule one-shot task with trigger type: ${task.trigger.type}`);
+    }
+
+    const fireTime = this.misfireHandler.getAtTime(task.trigger as AtTrigger);
+    this.unscheduleAtTask(getTriggerKey(task.id, triggerIndex));
+
+    if (fireTime.getTime() > Date.now()) {
+      this.armAtTimer(task, fireTime, triggerIndex);
+      await this.recordNextRun(task.id, fireTime, triggerIndex);
+      console.error(`[Scheduler] Scheduled one-shot task "${task.name}" at ${fireTime.toISOString()}`);
+      return 0;
+    }
+
+    const started = await this.misfireHandler.handleMisfires(task, new Date(), triggerIndex);
+    if (
+      triggerIndex === undefined && started === 0 &&
+      (await this.retryHandler.listPendingRetries(task.id)).length === 0
+    ) {
+      // Skipped by misfire policy, or already ran before a restart
+      await this.finishOneShotTask(task, 'catchup');
+    }
+    return started;
+  }
+
+  /**
+   * Set the timer for a one-shot task, re-arming in steps for far-off times
+   */
+  private armAtTimer(task: SingleTriggerTask, fireTime: Date, triggerIndex?: number): void {
+    const key = getTriggerKey(task.id, triggerIndex);
+    const delay = fireTime.getTime() - Date.now();
+
+    const timer = setTimeout(() => {
+      if (delay > MAX_TIMER_DELAY) {
+        this.armAtTimer(task, fireTime, triggerIndex);
+        return;
+      }
+
+      this.atJobs.delete(key);
+      this.nextRuns.delete(key);
+      this.claimFire(getFireKey(key, fireTime)).then(claimed => {
+        if (!claimed) {
+          return;
         }
-      }, duration);
+        return this.executeTask(task.id, 'scheduled', {
+          scheduled_time: fireTime.toISOString(),
+          ...getTriggerIndexContext(triggerIndex),
+        });
+      }).catch((error: any) => {
+        console.error(`[Scheduler] One-shot task ${task.name} failed:`, error.message);
+      });
+    }, Math.max(0, Math.min(delay, MAX_TIMER_DELAY)));
 
-      // Update job record with interval
-      if (this.intervalJobs.has(task.id)) {
-        this.intervalJobs.get(task.id)!.interval = interval;
-      } else {
-        // Task was unscheduled while timeout was running
-        clearInterval(interval);
+    this.atJobs.set(key, timer);
+  }
+
+  /**
+   * Cancel a one-shot task's timer
+   * @param key - Trigger key of the timer
+   */
+  private unscheduleAtTask(key: string): void {
+    const timer = this.atJobs.get(key);
+    if (timer) {
+      clearTimeout(timer);
+      this.atJobs.delete(key);
+    }
+  }
+
+  /**
+   * Keep a one-shot task due when a pause or snooze skips its fire
+   * It runs once the pause or snooze ends (see runDeferredOneShotTasks); after
+   * a restart the misfire policy catches it up, as it has not run
+   * @param task - Task whose run was skipped
+   * @param triggerType - Trigger type of the skipped run
+   * @param triggerContext - Trigger context of the skipped run, reused for the deferred one
+   */
+  private deferOneShotTask(task: Task, triggerType: string, triggerContext?: any): void {
+    const trigger = task.trigger;
+    if (Array.isArray(trigger) || trigger.type !== 'at' || !ONE_SHOT_TRIGGER_TYPES.includes(triggerType)) {
+      return;
+    }
+
+    this.deferredOneShots.set(task.id, triggerContext);
+    console.error(`[Scheduler] One-shot task ${task.name} stays due until its pause or snooze ends`);
+  }
+
+  /**
+   * Run the one-shot tasks held back by a pause or snooze that has since ended
+   * They run as catch-up runs of their original fire time
+   */
+  private async runDeferredOneShotTasks(): Promise<void> {
+    for (const [taskId, triggerContext] of [...this.deferredOneShots]) {
+      try {
+        const task = await this.storage.getTask(taskId);
+        if (!task?.enabled) {
+          this.deferredOneShots.delete(taskId);
+          continue;
+        }
+        if (await this.getPauseReason(task)) {
+          continue;
+        }
+
+        this.deferredOneShots.delete(taskId);
+        console.error(`[Scheduler] Running one-shot task ${task.name} held back by a pause or snooze`);
+        await this.executeTask(task, 'catchup', triggerContext);
+      } catch (error: any) {
+        console.error(`[Scheduler] Deferred one-shot task ${taskId} failed:`, error.message);
       }
-    }, delay);
+    }
+  }
 
-    // Store the timeout timer so it can be cancelled
-    this.intervalJobs.set(task.id, { timeout });
+  /**
+   * Apply a one-shot task's after_run option once it has fired
+   * Only tasks whose single trigger is an at trigger are one-shot; an at
+   * trigger in a trigger list just stops firing
+   * @param task - Task that ran or was skipped
+   * @param triggerType - Trigger type of the execution
+   */
+  private async finishOneShotTask(task: Task, triggerType: string): Promise<void> {
+    const trigger = task.trigger;
+    if (Array.isArray(trigger) || trigger.type !== 'at' || !ONE_SHOT_TRIGGER_TYPES.includes(triggerType)) {
+      return;
+    }
+
+    this.unscheduleAtTask(task.id);
+
+    try {
+      if (task.options?.after_run === 'delete') {
+        await this.storage.deleteTask(task.id);
+        console.error(`[Scheduler] Deleted one-shot task ${task.name} after it ran`);
+        return;
+      }
+
+      await this.storage.updateTask(task.id, { enabled: false });
+      console.error(`[Scheduler] Disabled one-shot task ${task.name} after it ran`);
+    } catch (error: any) {
+      console.error(`[Scheduler] Failed to finish one-shot task ${task.name}:`, error.message);
+    }
   }
 
   /**
    * Unschedule an interval task
-   * @param taskId - Task ID to unschedule
+   * @param key - Trigger key of the job (the task ID for a single trigger)
    */
-  private async unscheduleIntervalTask(taskId: string): Promise<void> {
-    const job = this.intervalJobs.get(taskId);
+  private async unscheduleIntervalTask(key: string): Promise<void> {
+    const job = this.intervalJobs.get(key);
     if (!job) {
       return;
     }
 
-    // Clear both timeout (if still pending) and interval (if running)
     if (job.timeout) {
       clearTimeout(job.timeout);
     }
-    if (job.interval) {
-      clearInterval(job.interval);
-    }
 
-    this.intervalJobs.delete(taskId);
+    this.intervalJobs.delete(key);
 
-    console.error(`[Scheduler] Unscheduled interval task: ${taskId}`);
+    console.error(`[Scheduler] Unscheduled interval task: ${key}`);
   }
 
   /**
    * Optimize and schedule a smart schedule task
-   * @param task - Task with smart_schedule trigger
+   * @param task - Task (or trigger of a task) with smart_schedule trigger
+   * @param triggerIndex - Position of the trigger in the task's trigger list
    */
-  private async optimizeAndScheduleSmartTask(task: Task): Promise<void> {
+  private async optimizeAndScheduleSmartTask(task: SingleTriggerTask, triggerIndex?: number): Promise<void> {
     if (task.trigger.type !== 'smart_schedule') {
       throw new Error(`Cannot optimize task with trigger type: ${task.trigger.type}`);
     }
 
     const trigger = task.trigger as SmartScheduleTrigger;
+    const constraints = trigger.constraints ?? {};
+    const options = {
+      timezone: constraints.timezone || this.config.default_timezone || 'UTC',
+      busy: await this.getBusySchedules(constraints.avoid_conflicts_with ?? []),
+    };
 
     // Check if already optimized recently (within 24 hours)
     if (trigger.computed_cron && trigger.last_optimized) {
       const lastOpt = new Date(trigger.last_optimized);
       const hoursSinceOpt = (Date.now() - lastOpt.getTime()) / (1000 * 60 * 60);
-      if (hoursSinceOpt < 24) {
+      const violations = hoursSinceOpt < 24
+        ? checkSmartSchedule(trigger.computed_cron, constraints, options, 1)
+        : [];
+      if (hoursSinceOpt < 24 && violations.length === 0) {
         console.error(
           `[Scheduler] Using cached cron for ${task.name}: ${trigger.computed_cron}`
         );
         // Schedule with existing cron
-        const scheduleTask = { ...task, trigger: { type: 'schedule' as const, cron: trigger.computed_cron } };
-        await this.scheduleTask(scheduleTask);
+        const scheduleTask = { ...task, trigger: { type: 'schedule' as const, cron: trigger.computed_cron, timezone: options.timezone } };
+        await this.scheduleTask(scheduleTask, triggerIndex);
         return;
       }
+      if (violations.length > 0) {
+        console.error(
+          `[Scheduler] Cached cron for ${task.name} no longer satisfies its constraints: ${violations[0]!.message}`
+        );
+      }
     }
 
-    // If AI optimization is disabled, use fallback
-    if (!trigger.ai_optimize && trigger.fallback_cron) {
-      console.error(
-        `[Scheduler] Using fallback cron for ${task.name}: ${trigger.fallback_cron}`
-      );
-      const scheduleTask = { ...task, trigger: { type: 'schedule' as const, cron: trigger.fallback_cron } };
-      await this.scheduleTask(scheduleTask);
-      return;
+    // If AI optimization is disabled, use fallback; otherwise ask the model
+    let candidate = trigger.fallback_cron;
+    if (trigger.ai_optimize || !trigger.fallback_cron) {
+      try {
+        candidate = await this.optimizeSmartSchedule(task);
+      } catch (error: any) {
+        console.error(
+          `[Scheduler] AI optimization failed for ${task.name}, using fallback:`,
+          error.message
+        );
+      }
     }
 
-    // Attempt AI optimization
+    // The model's (or fallback) cron is only a suggestion: check it against
+    // the constraints and repair it, or build one locally, if it breaks them
+    let enforced;
     try {
-      const cronExpr = await this.optimizeSmartSchedule(task);
+      enforced = enforceSmartSchedule(candidate, constraints, options);
+    } catch (error: any) {
+      throw new Error(`Cannot schedule smart schedule task ${task.name}: ${error.message}`);
+    }
+
+    if (enforced.violations.length > 0) {
+      console.error(
+        `[Scheduler] Cron ${candidate} for ${task.name} breaks its constraints: ` +
+        enforced.violations.map(violation => violation.message).join('; ')
+      );
+    }
 
-      // Update task with computed cron
-      trigger.computed_cron = cronExpr;
+    // Update task with computed cron (an unchanged fallback is not cached)
+    if (enforced.cron !== trigger.fallback_cron) {
+      trigger.computed_cron = enforced.cron;
       trigger.last_optimized = new Date().toISOString();
-      await this.storage.updateTask(task.id, task);
+      await this.saveTrigger(task.id, trigger, triggerIndex);
+    }
 
-      // Schedule with computed cron
-      const scheduleTask = { ...task, trigger: { type: 'schedule' as const, cron: cronExpr } };
-      await this.scheduleTask(scheduleTask);
+    // Schedule with computed cron
+    const scheduleTask = { ...task, trigger: { type: 'schedule' as const, cron: enforced.cron, timezone: options.timezone } };
+    await this.scheduleTask(scheduleTask, triggerIndex);
 
-      console.error(
-        `[Scheduler] AI-optimized schedule for ${task.name}: ${cronExpr}`
-      );
-    } catch (error: any) {
-      console.error(
-        `[Scheduler] AI optimization failed for ${task.name}, using fallback:`,
-        error.message
-      );
+    console.error(
+      `[Scheduler] Smart schedule for ${task.name}: ${enforced.cron} (${enforced.source})`
+    );
+  }
 
-      if (trigger.fallback_cron) {
-        const scheduleTask = { ...task, trigger: { type: 'schedule' as const, cron: trigger.fallback_cron } };
-        await this.scheduleTask(scheduleTask);
-      } else {
-        throw new Error(`No fallback cron available for smart schedule task ${task.name}`);
+  /**
+   * Persist one trigger of a task, leaving the task's other triggers as they are
+   * @param triggerIndex - Position of the trigger in the task's trigger list
+   */
+  private async saveTrigger(taskId: string, trigger: TriggerType, triggerIndex?: number): Promise<void> {
+    let updated: Task;
+    if (triggerIndex === undefined) {
+      updated = await this.storage.updateTask(taskId, { trigger });
+    } else {
+      const current = await this.storage.getTask(taskId);
+      if (!current || !Array.isArray(current.trigger) || triggerIndex >= current.trigger.length) {
+        return;
+      }
+      const triggers = [...current.trigger];
+      triggers[triggerIndex] = trigger;
+      updated = await this.storage.updateTask(taskId, { trigger: triggers });
+    }
+
+    // Our own write must not look like an outside edit to checkDueTasks()
+    if (this.taskVersions.has(taskId)) {
+      this.taskVersions.set(taskId, getScheduleVersion(updated));
+    }
+  }
+
+  /**
+   * Get the fire times of tasks over the constraint simulation range
+   * @param taskIds - Tasks a smart schedule must not overlap
+   */
+  private async getBusySchedules(taskIds: string[]): Promise<BusySchedule[]> {
+    // One extra week so runs just past the simulated range still count
+    const from = new Date();
+    const until = new Date(from.getTime() + (SIMULATION_WEEKS + 1) * 7 * 24 * 60 * 60 * 1000);
+    const schedules: BusySchedule[] = [];
+
+    for (const taskId of taskIds) {
+      const other = await this.storage.getTask(taskId);
+      if (!other) {
+        console.error(`[Scheduler] avoid_conflicts_with task not found: ${taskId}`);
+        continue;
       }
+
+      let times: Date[] = [];
+      try {
+        times = getTaskTriggers(other)
+          .flatMap(view => this.getTaskFireTimes(view.task, from, until))
+          .sort((a, b) => a.getTime() - b.getTime());
+      } catch (error: any) {
+        console.error(`[Scheduler] Cannot simulate schedule of task ${taskId}:`, error.message);
+      }
+      schedules.push({ task_id: other.id, name: other.name, times });
+    }
+
+    return schedules;
+  }
+
+  /**
+   * Get the fire times of a time-based task in a range
+   * Event-driven triggers (hooks, dependencies, ...) have no fire times
+   */
+  private getTaskFireTimes(task: SingleTriggerTask, from: Date, until: Date): Date[] {
+    const trigger = task.trigger;
+    const defaultTimezone = this.config.default_timezone || 'UTC';
+
+    switch (trigger.type) {
+      case 'schedule':
+        return getCronFireTimes(trigger.cron, trigger.timezone || defaultTimezone, from, until);
+
+      case 'smart_schedule': {
+        const cronExpr = trigger.computed_cron || trigger.fallback_cron;
+        const timezone = trigger.constraints?.timezone || defaultTimezone;
+        return cronExpr ? getCronFireTimes(cronExpr, timezone, from, until) : [];
+      }
+
+      case 'interval': {
+        const duration = this.parseDuration(trigger.every);
+        const end = trigger.end ? new Date(trigger.end).getTime() : Infinity;
+        const times: Date[] = [];
+        let time = task.next_run ? new Date(task.next_run).getTime() : from.getTime();
+        for (; time <= Math.min(until.getTime(), end) && times.length < 10000; time += duration) {
+          if (time > from.getTime()) {
+            times.push(new Date(time));
+          }
+        }
+        return times;
+      }
+
+      case 'at': {
+        const fireTime = this.misfireHandler.getAtTime(trigger);
+        return fireTime > from && fireTime <= until ? [fireTime] : [];
+      }
+
+      default:
+        return [];
     }
   }
 
@@ -887,7 +2362,7 @@ export class Scheduler {
    * @param task - Task to optimize
    * @returns Optimized cron expression
    */
-  private async optimizeSmartSchedule(task: Task): Promise<string> {
+  private async optimizeSmartSchedule(task: SingleTriggerTask): Promise<string> {
     const trigger = task.trigger as SmartScheduleTrigger;
 
     // Import subagent executor dynamically to avoid circular dependencies
@@ -957,7 +2432,7 @@ Examples:
       // Extract and validate cron expression
       const cronExpr = result.output?.trim().split('\n')[0]?.trim() || '';
 
-      if (!cronExpr || !cron.validate(cronExpr)) {
+      if (!cronExpr || !isValidCron(cronExpr)) {
         throw new Error(`Invalid cron expression generated: ${cronExpr}`);
       }
 
@@ -985,7 +2460,7 @@ Examples:
   /**
    * Parse duration string to milliseconds
    */
-  private parseDuration(duration: string): number {
+  parseDuration(duration: string): number {
     const match = duration.match(/^(\d+)([smhd])$/);
     if (!match || !match[1] || !match[2]) {
       return 0;
@@ -0,0 +1,408 @@
+/**
+ * Smart Schedule Constraints
+ *
+ * Checks a smart_schedule cron against its constraints by simulating the
+ * next weeks of fire times, and repairs or builds a cron that satisfies them
+ *
+ * % 0 COMPLETE - Smart Schedule Constraints
+ */
+
+import { SmartScheduleConstraints, TimeWindow } from '../models/types.js';
+import { isWithinTimeWindow } from './time-conditions.js';
+import { parseCron } from './cron-engine.js';
+import { getZonedTime, getZonedDateString, parseTimeOfDay } from '../utils/timezone.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Weeks of fire times simulated by default
+ */
+export const SIMULATION_WEEKS = 4;
+
+/**
+ * Fire times closer than this to another task's run count as a conflict
+ */
+const CONFLICT_WINDOW_MS = 15 * 60 * 1000;
+
+/**
+ * Cap on simulated fire times per schedule (every minute for a week is ~10k)
+ */
+const MAX_SIMULATED_RUNS = 10000;
+
+/**
+ * Minutes tried, in order, when building a cron
+ */
+const CANDIDATE_MINUTES = Array.from({ length: 12 }, (_, i) => i * 5);
+
+const BUSINESS_HOURS: TimeWindow = {
+  name: 'business hours',
+  start: '09:00',
+  end: '16:59',
+  days: ['mon', 'tue', 'wed', 'thu', 'fri'],
+};
+
+const PEAK_HOURS: TimeWindow = { name: 'peak hours', start: '09:00', end: '16:59' };
+
+const NAMED_WINDOWS: Record<string, TimeWindow> = {
+  morning: { name: 'morning', start: '06:00', end: '11:59' },
+  afternoon: { name: 'afternoon', start: '12:00', end: '16:59' },
+  evening: { name: 'evening', start: '17:00', end: '21:59' },
+  night: { name: 'night', start: '22:00', end: '05:59' },
+};
+
+/**
+ * Fire times of another task that a smart schedule must avoid
+ */
+export interface BusySchedule {
+  task_id: string;
+  name: string;
+  times: Date[];
+}
+
+/**
+ * A constraint broken by a simulated fire time
+ */
+export interface ConstraintViolation {
+  constraint: keyof SmartScheduleConstraints;
+  message: string;
+}
+
+/**
+ * Simulation settings
+ */
+export interface ConstraintCheckOptions {
+  timezone: string;          // Timezone the cron and constraints are evaluated in
+  busy?: BusySchedule[];     // Schedules of avoid_conflicts_with tasks
+  from?: Date;               // Simulation start (default: now)
+  weeks?: number;            // Simulation length (default: 4)
+}
+
+/**
+ * Where an enforced cron came from
+ * - candidate: the given cron already satisfied the constraints
+ * - repaired: the given cron was adjusted to satisfy them
+ * - generated: a new cron was built from the constraints alone
+ */
+export type EnforcedCronSource = 'candidate' | 'repaired' | 'generated';
+
+/**
+ * Get the fire times of a cron expression in a time range
+ * @param cronExpression - 5 or 6 field cron expression
+ * @param timezone - IANA timezone the cron is evaluated in
+ * @param from - Range start (exclusive)
+ * @param until - Range end (inclusive)
+ */
+export function getCronFireTimes(cronExpression: string, timezone: string, from: Date, until: Date): Date[] {
+  return parseCron(cronExpression, { timezone }).nextTimes(from, MAX_SIMULATED_RUNS, until);
+}
+
+/**
+ * Resolve preferred_time_windows into time windows
+ * @throws Error for names that are neither a known window nor "HH:MM-HH:MM"
+ */
+export function getPreferredWindows(constraints: SmartScheduleConstraints): TimeWindow[] {
+  return (constraints.preferred_time_windows ?? []).map(entry => {
+    const named = NAMED_WINDOWS[entry.toLowerCase()];
+    if (named) {
+      return named;
+    }
+    const match = /^(\d{1,2}:\d{2})\s*-\s*(\d{1,2}:\d{2})$/.exec(entry.trim());
+    if (!match) {
+      throw new Error(`Unknown preferred time window: ${entry}`);
+    }
+    return { name: entry, start: match[1]!, end: match[2]! };
+  });
+}
+
+/**
+ * Simulate a cron and list the constraints its fire times break
+ * @param cronExpression - Cron to check
+ * @param constraints - Smart schedule constraints
+ * @param options - Timezone, busy schedules and simulation range
+ * @param limit - Stop after this many violations
+ * @returns Violations (empty if the cron satisfies every constraint)
+ */
+export function checkSmartSchedule(
+  cronExpression: string,
+  constraints: SmartScheduleConstraints,
+  options: ConstraintCheckOptions,
+  limit: number = 10
+): ConstraintViolation[] {
+  const { timezone } = options;
+  const from = options.from ?? new Date();
+  const until = new Date(from.getTime() + (options.weeks ?? SIMULATION_WEEKS) * 7 * DAY_MS);
+  const preferred = getPreferredWindows(constraints);
+  const busy = (constraints.avoid_conflicts_with?.length ? options.busy ?? [] : [])
+    .filter(schedule => constraints.avoid_conflicts_with!.includes(schedule.task_id));
+
+  const violations: ConstraintViolation[] = [];
+  const dailyRuns: Map<string, number> = new Map();
+  const weeklyRuns: Map<string, number> = new Map();
+
+  for (const time of getCronFireTimes(cronExpression, timezone, from, until)) {
+    if (violations.length >= limit) {
+      break;
+    }
+    const at = time.toISOString();
+
+    if (constraints.business_hours_only && !isWithinTimeWindow(BUSINESS_HOURS, timezone, time)) {
+      violations.push({
+        constraint: 'business_hours_only',
+        message: `${at} is outside business hours (Mon-Fri 09:00-17:00 ${timezone})`,
+      });
+    }
+
+    if (constraints.avoid_peak_hours && isWithinTimeWindow(PEAK_HOURS, timezone, time)) {
+      violations.push({
+        constraint: 'avoid_peak_hours',
+        message: `${at} is in peak hours (09:00-17:00 ${timezone})`,
+      });
+    }
+
+    if (preferred.length > 0 && !preferred.some(window => isWithinTimeWindow(window, timezone, time))) {
+      violations.push({
+        constraint: 'preferred_time_windows',
+        message: `${at} is outside ${preferred.map(window => window.name).join(', ')}`,
+      });
+    }
+
+    if (constraints.max_daily_runs !== undefined) {
+      const day = getZonedDateString(time, timezone);
+      const count = (dailyRuns.get(day) ?? 0) + 1;
+      dailyRuns.set(day, count);
+      if (count === constraints.max_daily_runs + 1) {
+        violations.push({
+          constraint: 'max_daily_runs',
+          message: `more than ${constraints.max_daily_runs} run(s) on ${day}`,
+        });
+      }
+    }
+
+    if (constraints.max_weekly_runs !== undefined) {
+      const week = getWeekStart(time, timezone);
+      const count = (weeklyRuns.get(week) ?? 0) + 1;
+      weeklyRuns.set(week, count);
+      if (count === constraints.max_weekly_runs + 1) {
+        violations.push({
+          constraint: 'max_weekly_runs',
+          message: `more than ${constraints.max_weekly_runs} run(s) in the week of ${week}`,
+        });
+      }
+    }
+
+    for (const schedule of busy) {
+      const clash = schedule.times.find(
+        other => Math.abs(other.getTime() - time.getTime()) < CONFLICT_WINDOW_MS
+      );
+      if (clash) {
+        violations.push({
+          constraint: 'avoid_conflicts_with',
+          message: `${at} is within 15m of ${schedule.name} (${schedule.task_id}) at ${clash.toISOString()}`,
+        });
+        break;
+      }
+    }
+  }
+
+  return violations.slice(0, limit);
+}
+
+/**
+ * Adjust a cron so it satisfies the constraints
+ * Keeps the cron's day-of-month, month and weekdays, and prefers its minute
+ * and hours; hours, minute and (for max_weekly_runs) weekdays are changed
+ * @returns The repaired cron, or null if no adjustment satisfies the constraints
+ */
+export function repairSmartSchedule(
+  cronExpression: string,
+  constraints: SmartScheduleConstraints,
+  options: ConstraintCheckOptions
+): string | null {
+  let fields;
+  try {
+    fields = parseCron(cronExpression, { timezone: options.timezone }).fields;
+  } catch {
+    return null;
+  }
+
+  return searchSchedule(constraints, options, {
+    ...(fields.minute[0] !== undefined && { minute: fields.minute[0] }),
+    hours: fields.hour,
+    runsPerDay: fields.minute.length * fields.hour.length,
+    dayOfMonth: fields.dayOfMonth,
+    month: fields.month,
+    weekdays: fields.dayOfWeek,
+    weekdayRule: fields.weekdayRule,
+  });
+}
+
+/**
+ * Build a cron from the constraints alone (used when no model is available)
+ * Runs max_daily_runs times a day (default once), spread over the allowed hours
+ * @returns A cron that satisfies the constraints, or null if none was found
+ */
+export function buildSmartSchedule(
+  constraints: SmartScheduleConstraints,
+  options: ConstraintCheckOptions
+): string | null {
+  return searchSchedule(constraints, options, {
+    hours: [],
+    runsPerDay: 1,
+    dayOfMonth: '*',
+    month: '*',
+    weekdays: [0, 1, 2, 3, 4, 5, 6],
+  });
+}
+
+/**
+ * Check a cron and repair it, or build a new one, when it breaks the constraints
+ * @param candidate - Cron from the model or fallback_cron (may be missing)
+ * @throws Error if no cron satisfying the constraints can be found
+ */
+export function enforceSmartSchedule(
+  candidate: string | undefined,
+  constraints: SmartScheduleConstraints,
+  options: ConstraintCheckOptions
+): { cron: string; source: EnforcedCronSource; violations: ConstraintViolation[] } {
+  let violations: ConstraintViolation[] = [];
+
+  if (candidate) {
+    violations = checkSmartSchedule(candidate, constraints, options);
+    if (violations.length === 0) {
+      return { cron: candidate, source: 'candidate', violations };
+    }
+
+    const repaired = repairSmartSchedule(candidate, constraints, options);
+    if (repaired) {
+      return { cron: repaired, source: 'repaired', violations };
+    }
+  }
+
+  const generated = buildSmartSchedule(constraints, options);
+  if (generated) {
+    return { cron: generated, source: 'generated', violations };
+  }
+
+  throw new Error('No schedule satisfies the constraints');
+}
+
+/**
+ * Shape of the crons tried by searchSchedule
+ */
+interface ScheduleTemplate {
+  minute?: number;           // Tried first
+  hours: number[];           // Preferred hours
+  runsPerDay: number;
+  dayOfMonth: string;
+  month: string;
+  weekdays: number[];        // 0 (Sunday) - 6
+  weekdayRule?: boolean;     // Day of month is a W or B rule, so weekdays stay '*'
+}
+
+/**
+ * Try crons of the form "<minute> <hours> <dom> <month> <weekdays>" until one
+ * passes checkSmartSchedule. The search is deterministic
+ */
+function searchSchedule(
+  constraints: SmartScheduleConstraints,
+  options: ConstraintCheckOptions,
+  template: ScheduleTemplate
+): string | null {
+  let weekdays = constraints.business_hours_only
+    ? template.weekdays.filter(day => day >= 1 && day <= 5)
+    : template.weekdays;
+  if (weekdays.length === 0) {
+    weekdays = [1, 2, 3, 4, 5];
+  }
+
+  let runsPerDay = Math.min(template.runsPerDay, constraints.max_daily_runs ?? Infinity);
+  if (constraints.max_weekly_runs !== undefined) {
+    const weekly = constraints.max_weekly_runs;
+    if (weekly < weekdays.length) {
+      weekdays = spread(weekdays, Math.max(weekly, 1));
+      runsPerDay = 1;
+    } else {
+      runsPerDay = Math.min(runsPerDay, Math.floor(weekly / weekdays.length));
+    }
+  }
+  runsPerDay = Math.max(runsPerDay, 1);
+
+  const dayOfWeek = weekdays.length === 7 || template.weekdayRule ? '*' : weekdays.join(',');
+  const minutes = [
+    ...(template.minute !== undefined ? [template.minute] : []),
+    ...CANDIDATE_MINUTES.filter(minute => minute !== template.minute),
+  ];
+  const preferred = getPreferredWindows(constraints);
+
+  for (const minute of minutes) {
+    const allowed = Array.from({ length: 24 }, (_, hour) => hour)
+      .filter(hour => allowsTimeOfDay(constraints, preferred, hour * 60 + minute));
+    const preferredHours = allowed.filter(hour => template.hours.includes(hour));
+    const pool = preferredHours.length > 0 ? preferredHours : allowed;
+
+    for (let offset = 0; offset < pool.length; offset++) {
+      const hours = spread(rotate(pool, offset), Math.min(runsPerDay, pool.length));
+      const candidate = `${minute} ${hours.join(',')} ${template.dayOfMonth} ${template.month} ${dayOfWeek}`;
+      if (checkSmartSchedule(candidate, constraints, options, 1).length === 0) {
+        return candidate;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check the time-of-day constraints for a minute of the day (ignoring weekdays)
+ */
+function allowsTimeOfDay(
+  constraints: SmartScheduleConstraints,
+  preferred: TimeWindow[],
+  minuteOfDay: number
+): boolean {
+  const contains = (window: TimeWindow): boolean => {
+    const start = parseTimeOfDay(window.start);
+    const end = parseTimeOfDay(window.end);
+    return start <= end
+      ? minuteOfDay >= start && minuteOfDay <= end
+      : minuteOfDay >= start || minuteOfDay <= end;
+  };
+
+  if (constraints.business_hours_only && !contains(BUSINESS_HOURS)) {
+    return false;
+  }
+  if (constraints.avoid_peak_hours && contains(PEAK_HOURS)) {
+    return false;
+  }
+  return preferred.length === 0 || preferred.some(contains);
+}
+
+/**
+ * Pick `count` items spread evenly over a list, in ascending order
+ */
+function spread(items: number[], count: number): number[] {
+  const picked = Array.from({ length: count }, (_, i) => items[Math.floor((i * items.length) / count)]!);
+  return [...new Set(picked)].sort((a, b) => a - b);
+}
+
+/**
+ * Rotate a list left by `offset` items
+ */
+function rotate(items: number[], offset: number): number[] {
+  return [...items.slice(offset), ...items.slice(0, offset)];
+}
+
+/**
+ * Get the Monday starting the week of an instant in a timezone as "YYYY-MM-DD"
+ */
+function getWeekStart(date: Date, timezone: string): string {
+  const zoned = getZonedTime(date, timezone);
+  const daysSinceMonday = (zoned.weekday + 6) % 7;
+  return new Date(Date.UTC(zoned.year, zoned.month - 1, zoned.day) - daysSinceMonday * DAY_MS)
+    .toISOString()
+    .slice(0, 10);
+}
+
+/**
+ * % 100 COMPLETE - Smart Schedule Constraints
+ */
@@ -0,0 +1,130 @@
+/**
+ * Time Conditions
+ *
+ * Evaluates the time-based parts of TaskConditions (time windows and
+ * blackout periods) in the task's timezone
+ *
+ * % 0 COMPLETE - Time Conditions
+ */
+
+import { TaskConditions, TimeWindow, BlackoutPeriod, Weekday } from '../models/types.js';
+import { getZonedTime, getZonedDateString, isValidTimezone, parseTimeOfDay } from '../utils/timezone.js';
+
+const WEEKDAYS: Weekday[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Check if a time is within a time window
+ * Overnight windows (e.g. fri 22:00 - 06:00) belong to the day they open on
+ * @param window - Window to check
+ * @param timezone - IANA timezone the window is written in
+ * @param now - Time to check
+ */
+export function isWithinTimeWindow(window: TimeWindow, timezone: string, now: Date = new Date()): boolean {
+  const zoned = getZonedTime(now, timezone);
+  const currentMinutes = zoned.hour * 60 + zoned.minute;
+  const startMinutes = parseTimeOfDay(window.start);
+  const endMinutes = parseTimeOfDay(window.end);
+
+  const opensOn = (weekday: number): boolean =>
+    !window.days || window.days.length === 0 ||
+    window.days.some(day => day.toLowerCase() === WEEKDAYS[weekday]);
+
+  if (startMinutes <= endMinutes) {
+    return currentMinutes >= startMinutes && currentMinutes <= endMinutes && opensOn(zoned.weekday);
+  }
+
+  if (currentMinutes >= startMinutes) {
+    return opensOn(zoned.weekday);
+  }
+  if (currentMinutes <= endMinutes) {
+    return opensOn((zoned.weekday + 6) % 7);
+  }
+  return false;
+}
+
+/**
+ * Check if a time falls inside a blackout period
+ * YYYY-MM-DD bounds cover the whole day in the blackout's timezone
+ * @param blackout - Blackout period
+ * @param timezone - Timezone used when the blackout has none
+ * @param now - Time to check
+ */
+export function isInBlackout(blackout: BlackoutPeriod, timezone: string, now: Date = new Date()): boolean {
+  const zone = blackout.timezone || timezone;
+
+  const afterStart = DATE_ONLY.test(blackout.start)
+    ? getZonedDateString(now, zone) >= blackout.start
+    : now.getTime() >= Date.parse(blackout.start);
+
+  const beforeEnd = DATE_ONLY.test(blackout.end)
+    ? getZonedDateString(now, zone) <= blackout.end
+    : now.getTime() <= Date.parse(blackout.end);
+
+  return afterStart && beforeEnd;
+}
+
+/**
+ * Human-readable label for a time window
+ */
+export function describeTimeWindow(window: TimeWindow, timezone: string): string {
+  if (window.name) {
+    return window.name;
+  }
+  const days = window.days && window.days.length > 0 ? `${window.days.join(',')} ` : '';
+  return `${days}${window.start}-${window.end} ${window.timezone || timezone}`;
+}
+
+/**
+ * Get all time windows of a task (time_window and time_windows combined)
+ */
+export function getTimeWindows(conditions: TaskConditions): TimeWindow[] {
+  return [
+    ...(conditions.time_window ? [conditions.time_window] : []),
+    ...(conditions.time_windows ?? []),
+  ];
+}
+
+/**
+ * Evaluate time windows and blackout periods
+ * @param conditions - Task conditions
+ * @param defaultTimezone - Timezone used when conditions set none
+ * @param now - Time to check
+ * @returns Skip reason ("code: detail"), or null if the task may run
+ */
+export function checkTimeConditions(
+  conditions: TaskConditions,
+  defaultTimezone: string,
+  now: Date = new Date()
+): string | null {
+  const timezone = conditions.timezone || defaultTimezone;
+  const windows = getTimeWindows(conditions);
+  const blackouts = conditions.blackouts ?? [];
+
+  const zones = [
+    timezone,
+    ...windows.map(window => window.timezone),
+    ...blackouts.map(blackout => blackout.timezone),
+  ];
+  for (const zone of zones) {
+    if (zone !== undefined && !isValidTimezone(zone)) {
+      return `timezone: invalid timezone "${zone}"`;
+    }
+  }
+
+  const blackout = blackouts.find(period => isInBlackout(period, timezone, now));
+  if (blackout) {
+    return `blackout: ${blackout.name} (${blackout.start} to ${blackout.end})`;
+  }
+
+  if (windows.length > 0 && !windows.some(window => isWithinTimeWindow(window, window.timezone || timezone, now))) {
+    return `time_window: outside ${windows.map(window => describeTimeWindow(window, timezone)).join('; ')}`;
+  }
+
+  return null;
+}
+
+/**
+ * % 100 COMPLETE - Time Conditions
+ */
@@ -0,0 +1,208 @@
+/**
+ * Worker
+ *
+ * Claims 'pending' executions that a scheduler in workers mode stored, runs
+ * them and reports heartbeats so the scheduler can tell it is alive
+ *
+ * % 0 COMPLETE - Worker
+ */
+
+import * as os from 'os';
+import { Execution, SchedulerConfig, WorkerConfig } from '../models/types.js';
+import { Storage } from '../storage/storage.js';
+import { Scheduler } from './scheduler.js';
+
+/**
+ * Worker
+ *
+ * Runs claimed executions through a local (never started) scheduler, so
+ * stats, result handlers, retries and dependent tasks behave as they do
+ * for local runs. Follow-up runs are queued for the worker pool as well
+ */
+export class Worker {
+  private storage: Storage;
+  private config: WorkerConfig;
+  public scheduler: Scheduler;
+  private isRunning: boolean = false;
+  private polling: boolean = false;
+  private pollInterval?: NodeJS.Timeout;
+  private heartbeatInterval?: NodeJS.Timeout;
+  private running: Map<string, Promise<void>> = new Map(); // executionId -> run
+  private graphVersion?: string; // Dependency triggers the graph was built from
+
+  constructor(storage: Storage, config?: WorkerConfig, schedulerConfig?: SchedulerConfig) {
+    this.storage = storage;
+    this.config = {
+      worker_id: config?.worker_id ?? `${os.hostname()}:${process.pid}`,
+      concurrency: Math.max(1, config?.concurrency ?? 1),
+      poll_interval: config?.poll_interval ?? '5s',
+      heartbeat_interval: config?.heartbeat_interval ?? '15s',
+    };
+    this.scheduler = new Scheduler(storage, { ...schedulerConfig, execution_mode: 'workers' });
+    // Retries of runs that fail here are armed by the scheduler
+    this.scheduler.retryHandler.leaveTimersToScheduler();
+  }
+
+  /**
+   * Start claiming executions
+   */
+  async start(): Promise<void> {
+    if (this.isRunning) {
+      throw new Error('Worker is already running');
+    }
+
+    this.isRunning = true;
+    console.error(
+      `[Worker] Starting ${this.config.worker_id} (concurrency ${this.config.concurrency})`
+    );
+
+    // Dependent tasks are triggered by whichever worker ran their parent
+    await this.refreshDependencyGraph();
+
+    this.pollInterval = setInterval(() => {
+      this.refreshDependencyGraph().catch((error: any) => {
+        console.error('[Worker] Failed to refresh the dependency graph:', error.message);
+      }).then(() => this.poll()).catch((error: any) => {
+        console.error('[Worker] Failed to claim executions:', error.message);
+      });
+    }, this.scheduler.parseDuration(this.config.poll_interval!));
+
+    this.heartbeatInterval = setInterval(() => {
+      this.sendHeartbeats().catch((error: any) => {
+        console.error('[Worker] Failed to send heartbeats:', error.message);
+      });
+    }, this.scheduler.parseDuration(this.config.heartbeat_interval!));
+
+    await this.poll();
+  }
+
+  /**
+   * Stop claiming executions and wait for the running ones to finish
+   */
+  async stop(): Promise<void> {
+    if (!this.isRunning) {
+      return;
+    }
+
+    this.isRunning = false;
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+    }
+
+    await Promise.all(this.running.values());
+
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
+    }
+    this.scheduler.retryHandler.stop();
+
+    console.error(`[Worker] Stopped ${this.config.worker_id}`);
+  }
+
+  /**
+   * Claim executions until the worker is busy or none are pending
+   * @returns Number of executions claimed
+   */
+  async poll(): Promise<number> {
+    if (this.polling) {
+      return 0;
+    }
+
+    this.polling = true;
+    let claimed = 0;
+    try {
+      while (this.isRunning && this.running.size < this.config.concurrency!) {
+        const execution = await this.storage.claimExecution(this.config.worker_id!);
+        if (!execution) {
+          break;
+        }
+
+        claimed++;
+        const run = this.runExecution(execution).finally(() => {
+          this.running.delete(execution.id);
+          // A slot is free, look for more work
+          if (this.isRunning) {
+            this.poll().catch((error: any) => {
+              console.error('[Worker] Failed to claim executions:', error.message);
+            });
+          }
+        });
+        this.running.set(execution.id, run);
+      }
+    } finally {
+      this.polling = false;
+    }
+
+    return claimed;
+  }
+
+  /**
+   * Rebuild the dependency graph when tasks were added, changed or removed
+   * since it was built (progress itself is read from storage on each completion)
+   */
+  private async refreshDependencyGraph(): Promise<void> {
+    const tasks = await this.storage.loadTasks({ enabled: true });
+    const version = JSON.stringify(tasks.map(task => [task.id, task.trigger]));
+    if (version === this.graphVersion) {
+      return;
+    }
+
+    await this.scheduler.dependencyManager.buildDependencyGraph(tasks);
+    this.graphVersion = version;
+  }
+
+  /**
+   * Get the number of executions this worker is running
+   */
+  getRunningCount(): number {
+    return this.running.size;
+  }
+
+  /**
+   * Run a claimed execution
+   */
+  private async runExecution(execution: Execution): Promise<void> {
+    try {
+      const task = await this.storage.getTask(execution.task_id);
+      if (!task) {
+        await this.storage.updateExecution(execution.id, {
+          status: 'failure',
+          completed_at: new Date().toISOString(),
+          duration_ms: 0,
+          error: `Task not found: ${execution.task_id}`,
+        });
+        return;
+      }
+
+      console.error(`[Worker] Running execution ${execution.id} of task ${task.name}`);
+      await this.scheduler.runClaimedExecution(task, execution);
+    } catch (error: any) {
+      console.error(`[Worker] Execution ${execution.id} failed:`, error.message);
+    }
+  }
+
+  /**
+   * Report running executions alive; abort the ones no longer ours
+   * A cancelled run is finalized here, as the cancelling scheduler only marked
+   * it; a run interrupted after missed heartbeats was already finalized by the
+   * sweep, so it is abandoned without recording anything
+   */
+  private async sendHeartbeats(): Promise<void> {
+    for (const executionId of this.running.keys()) {
+      const alive = await this.storage.heartbeatExecution(executionId, this.config.worker_id!);
+      if (!alive) {
+        const current = await this.storage.getExecution(executionId);
+        console.error(`[Worker] Execution ${executionId} is now ${current?.status ?? 'deleted'}, aborting`);
+        if (current?.status === 'cancelled') {
+          await this.scheduler.cancelExecution(executionId, current.error ?? 'Cancelled while running on a worker');
+        } else {
+          this.scheduler.abandonExecution(executionId, current?.error ?? 'Execution lost by this worker');
+        }
+      }
+    }
+  }
+}
+
+/**
+ * % 100 COMPLETE - Worker
+ */
@@ -0,0 +1,374 @@
+/**
+ * Workflow Manager
+ *
+ * Runs workflows: DAGs of existing tasks. Steps start once all their
+ * upstream steps succeeded; a step that does not succeed blocks everything
+ * downstream of it
+ *
+ * % 0 COMPLETE - Workflow Manager
+ */
+
+import {
+  Execution,
+  ExecutionStatus,
+  Workflow,
+  WorkflowRun,
+  WorkflowStepRun,
+  WorkflowStepStatus,
+} from '../models/types.js';
+import { Storage } from '../storage/storage.js';
+
+/**
+ * Step statuses that end a step
+ */
+const FINISHED_STEP_STATUSES: WorkflowStepStatus[] = ['success', 'failure', 'skipped', 'cancelled', 'blocked'];
+
+/**
+ * Workflow fields a step execution carries in its trigger_context
+ */
+export interface WorkflowStepContext {
+  run_id: string;
+  step_id: string;
+}
+
+/**
+ * Check a workflow's steps and edges
+ * @throws Error for duplicate or unknown steps, self edges and cycles
+ */
+export function validateWorkflow(workflow: Pick<Workflow, 'steps' | 'edges'>): void {
+  if (workflow.steps.length === 0) {
+    throw new Error('Workflow must have at least one step');
+  }
+
+  const stepIds = new Set<string>();
+  for (const step of workflow.steps) {
+    if (!step.id || !step.task_id) {
+      throw new Error('Every workflow step needs an id and a task_id');
+    }
+    if (stepIds.has(step.id)) {
+      throw new Error(`Duplicate workflow step: ${step.id}`);
+    }
+    stepIds.add(step.id);
+  }
+
+  for (const edge of workflow.edges) {
+    for (const stepId of [edge.from, edge.to]) {
+      if (!stepIds.has(stepId)) {
+        throw new Error(`Workflow edge references unknown step: ${stepId}`);
+      }
+    }
+    if (edge.from === edge.to) {
+      throw new Error(`Workflow step ${edge.from} cannot depend on itself`);
+    }
+  }
+
+  // Kahn's algorithm: steps left over sit on a cycle
+  const inDegree = new Map([...stepIds].map(id => [id, 0]));
+  for (const edge of workflow.edges) {
+    inDegree.set(edge.to, inDegree.get(edge.to)! + 1);
+  }
+  const ready = [...stepIds].filter(id => inDegree.get(id) === 0);
+  let visited = 0;
+  while (ready.length > 0) {
+    const stepId = ready.pop()!;
+    visited++;
+    for (const edge of workflow.edges.filter(e => e.from === stepId)) {
+      inDegree.set(edge.to, inDegree.get(edge.to)! - 1);
+      if (inDegree.get(edge.to) === 0) {
+        ready.push(edge.to);
+      }
+    }
+  }
+
+  if (visited < stepIds.size) {
+    const cycle = [...stepIds].filter(id => inDegree.get(id)! > 0);
+    throw new Error(`Workflow has a cycle between steps: ${cycle.join(', ')}`);
+  }
+}
+
+/**
+ * Map an execution's final status to its step status
+ */
+function getStepStatus(status: ExecutionStatus): WorkflowStepStatus {
+  switch (status) {
+    case 'success':
+    case 'skipped':
+    case 'cancelled':
+      return status;
+    default:
+      return 'failure';
+  }
+}
+
+/**
+ * WorkflowManager
+ *
+ * Run progress lives in storage, so steps that finish on a worker (or after
+ * a restart) advance the same run. The storage applies each update to a run
+ * atomically, so steps finishing at once on different workers are all kept
+ */
+export class WorkflowManager {
+  private storage: Storage;
+  private scheduler: any; // Set via setScheduler to avoid circular dependency
+
+  constructor(storage: Storage) {
+    this.storage = storage;
+  }
+
+  /**
+   * Set scheduler reference (to avoid circular dependency)
+   */
+  setScheduler(scheduler: any): void {
+    this.scheduler = scheduler;
+  }
+
+  /**
+   * Create a workflow after checking its graph and tasks
+   * @throws Error if the graph is invalid or a task does not exist
+   */
+  async createWorkflow(workflow: Omit<Workflow, 'id' | 'created_at' | 'updated_at'>): Promise<Workflow> {
+    validateWorkflow(workflow);
+
+    for (const step of workflow.steps) {
+      if (!(await this.storage.getTask(step.task_id))) {
+        throw new Error(`Task not found for step ${step.id}: ${step.task_id}`);
+      }
+    }
+
+    const created = await this.storage.createWorkflow(workflow);
+    console.error(`[WorkflowManager] Created workflow ${created.name} with ${created.steps.length} steps`);
+    return created;
+  }
+
+  /**
+   * Start a run of a workflow: every step without upstream steps starts at once
+   * @param triggerType - What started the run
+   * @returns The run as stored after its first steps started
+   */
+  async startRun(workflowId: string, triggerType: string = 'manual'): Promise<WorkflowRun> {
+    const workflow = await this.storage.getWorkflow(workflowId);
+    if (!workflow) {
+      throw new Error(`Workflow not found: ${workflowId}`);
+    }
+
+    const now = new Date().toISOString();
+    const steps: WorkflowStepRun[] = workflow.steps.map(step => {
+      const dependsOn = workflow.edges.filter(edge => edge.to === step.id).map(edge => edge.from);
+      return {
+        step_id: step.id,
+        task_id: step.task_id,
+        depends_on: dependsOn,
+        status: dependsOn.length === 0 ? 'running' : 'pending',
+        ...(dependsOn.length === 0 && { started_at: now }),
+      };
+    });
+
+    const run = await this.storage.createWorkflowRun({
+      workflow_id: workflow.id,
+      status: 'running',
+      trigger_type: triggerType,
+      steps,
+      started_at: now,
+    });
+
+    console.error(`[WorkflowManager] Started run ${run.id} of workflow ${workflow.name}`);
+
+    await this.launchSteps(run.id, steps.filter(step => step.status === 'running'));
+    return (await this.storage.getWorkflowRun(run.id))!;
+  }
+
+  /**
+   * Cancel a run: waiting steps are cancelled and running step executions aborted
+   * @returns The cancelled run, or null if it was not running
+   */
+  async cancelRun(runId: string, reason: string = 'Workflow run cancelled'): Promise<WorkflowRun | null> {
+    const result = await this.updateRun(runId, run => {
+      if (run.status !== 'running') {
+        return null;
+      }
+
+      const now = new Date().toISOString();
+      for (const step of run.steps.filter(s => s.status === 'pending')) {
+        step.status = 'cancelled';
+        step.completed_at = now;
+      }
+      run.status = 'cancelled';
+      run.completed_at = now;
+      run.error = reason;
+
+      return run.steps
+        .filter(step => step.status === 'running' && step.execution_id)
+        .map(step => step.execution_id!);
+    });
+
+    if (!result) {
+      return null;
+    }
+
+    // Their completions record the steps as cancelled
+    for (const executionId of result.value) {
+      await this.cancelStepExecution(executionId, reason);
+    }
+
+    console.error(`[WorkflowManager] Cancelled run ${runId}: ${reason}`);
+    return result.run;
+  }
+
+  /**
+   * Advance a run when one of its step executions reaches its final outcome
+   * @param execution - Final execution (not one that will be retried)
+   */
+  async onExecutionCompleted(execution: Execution): Promise<void> {
+    const context = execution.trigger_context?.workflow as WorkflowStepContext | undefined;
+    if (!context?.run_id || !context.step_id) {
+      return;
+    }
+
+    try {
+      await this.completeStep(context.run_id, context.step_id, getStepStatus(execution.status), {
+        execution_id: execution.id,
+        ...(execution.status !== 'success' && execution.error !== undefined && { error: execution.error }),
+      });
+    } catch (error: any) {
+      console.error(`[WorkflowManager] Failed to advance run ${context.run_id}:`, error.message);
+    }
+  }
+
+  /**
+   * Record a step's outcome, block or start the steps after it and finish the run when done
+   */
+  private async completeStep(
+    runId: string,
+    stepId: string,
+    status: WorkflowStepStatus,
+    details: { execution_id?: string; error?: string }
+  ): Promise<void> {
+    const result = await this.updateRun(runId, run => {
+      const step = run.steps.find(s => s.step_id === stepId);
+      if (!step || FINISHED_STEP_STATUSES.includes(step.status)) {
+        return null;
+      }
+
+      const now = new Date().toISOString();
+      step.status = status;
+      step.completed_at = now;
+      if (details.execution_id !== undefined) step.execution_id = details.execution_id;
+      if (details.error !== undefined) step.error = details.error;
+
+      // A cancelled run only records the outcome of steps still in flight
+      if (run.status !== 'running') {
+        return [];
+      }
+
+      if (status !== 'success') {
+        this.blockDownstream(run, stepId, now);
+      }
+
+      // Fan-in: a step starts once every upstream step succeeded
+      const ready = run.steps.filter(candidate =>
+        candidate.status === 'pending' &&
+        candidate.depends_on.every(id => run.steps.find(s => s.step_id === id)?.status === 'success')
+      );
+      for (const next of ready) {
+        next.status = 'running';
+        next.started_at = now;
+      }
+
+      if (run.steps.every(s => FINISHED_STEP_STATUSES.includes(s.status))) {
+        const failed = run.steps.find(s => s.status !== 'success');
+        run.status = failed ? 'failure' : 'success';
+        run.completed_at = now;
+        if (failed) {
+          run.error = `Step ${failed.step_id} ended with status ${failed.status}`;
+        }
+        console.error(`[WorkflowManager] Run ${runId} finished with status ${run.status}`);
+      }
+
+      return ready;
+    });
+
+    if (result) {
+      await this.launchSteps(runId, result.value);
+    }
+  }
+
+  /**
+   * Mark every step downstream of a step as blocked
+   */
+  private blockDownstream(run: WorkflowRun, stepId: string, now: string): void {
+    for (const step of run.steps) {
+      if (step.status === 'pending' && step.depends_on.includes(stepId)) {
+        step.status = 'blocked';
+        step.completed_at = now;
+        step.error = `Upstream step ${stepId} did not succeed`;
+        this.blockDownstream(run, step.step_id, now);
+      }
+    }
+  }
+
+  /**
+   * Start executions for steps already marked running
+   * Runs outside the run update, since a skipped execution completes the step right away
+   */
+  private async launchSteps(runId: string, steps: WorkflowStepRun[]): Promise<void> {
+    for (const step of steps) {
+      const context: WorkflowStepContext = { run_id: runId, step_id: step.step_id };
+
+      let executionId: string;
+      try {
+        executionId = await this.scheduler.executeTask(step.task_id, 'workflow', { workflow: context });
+      } catch (error: any) {
+        console.error(`[WorkflowManager] Step ${step.step_id} of run ${runId} could not start:`, error.message);
+        await this.completeStep(runId, step.step_id, 'failure', { error: error.message });
+        continue;
+      }
+
+      // Keep the execution ID so the run can be inspected and cancelled
+      const result = await this.updateRun(runId, run => {
+        const current = run.steps.find(s => s.step_id === step.step_id);
+        if (current && current.execution_id === undefined) {
+          current.execution_id = executionId;
+        }
+        return run.status === 'cancelled' && current?.status === 'running';
+      });
+
+      // Cancelled while the step was starting
+      if (result?.value) {
+        await this.cancelStepExecution(executionId, result.run.error ?? 'Workflow run cancelled');
+      }
+    }
+  }
+
+  /**
+   * Cancel a step's execution, if it is still active
+   */
+  private async cancelStepExecution(executionId: string, reason: string): Promise<void> {
+    try {
+      await this.scheduler.cancelExecution(executionId, reason);
+    } catch (error: any) {
+      console.error(`[WorkflowManager] Failed to cancel execution ${executionId}:`, error.message);
+    }
+  }
+
+  /**
+   * Apply a change to a run and save it in one atomic storage update
+   * @param change - Mutates the run; returns null to leave it unsaved
+   * @returns The saved run and the change's result, or null if nothing was saved
+   */
+  private async updateRun<T>(
+    runId: string,
+    change: (run: WorkflowRun) => T | null
+  ): Promise<{ run: WorkflowRun; value: T } | null> {
+    let value: T | null = null;
+    const run = await this.storage.changeWorkflowRun(runId, current => {
+      value = change(current);
+      return value !== null;
+    });
+
+    return run ? { run, value: value as T } : null;
+  }
+}
+
+/**
+ * % 100 COMPLETE - Workflow Manager
+ */
@@ -191,6 +191,8 @@ export class ClaudeCronServer {
         check_interval: '30s',
         default_timezone: 'UTC',
         max_concurrent_tasks: 10,
+        queue_order: 'fifo',
+        orphaned_execution_status: 'interrupted',
       },
       transport: 'stdio',
     };
@@ -213,6 +215,7 @@ export class ClaudeCronServer {
     return {
       ...config,
       scheduler: {
+        ...config.scheduler,
         check_interval: config.scheduler?.check_interval ?? '30s',
         default_timezone: config.scheduler?.default_timezone ?? 'UTC',
         max_concurrent_tasks: config.scheduler?.max_concurrent_tasks ?? 10,
@@ -243,6 +246,13 @@ async function main() {
     return; // hook-event.js handles its own execution
   }
 
+  // Route to worker CLI: claudecron worker [config_path]
+  if (subcommand === 'worker') {
+    process.argv.splice(2, 1);
+    await import('./cli/worker.js');
+    return; // worker.js runs until it receives SIGINT/SIGTERM
+  }
+
   // Otherwise, start MCP server
   // Determine transport from environment
   const transport = (process.env.CLAUDECRON_TRANSPORT as 'stdio' | 'http') || 'stdio';
@@ -7,10 +7,10 @@
  * % 0 COMPLETE - PostgreSQL storage
  */
 
-import { Pool } from 'pg';
+import { Pool, PoolClient } from 'pg';
 import { v4 as uuidv4 } from 'uuid';
-import { Task, Execution } from '../models/types.js';
-import { Storage, TaskFilter, ExecutionFilter, TaskStats } from './storage.js';
+import { Task, Execution, PendingRetry, DependencyState, Workflow, WorkflowRun, SchedulerPause } from '../models/types.js';
+import { Storage, TaskFilter, ExecutionFilter, TaskStats, WorkflowRunFilter } from './storage.js';
 
 /**
  * PostgreSQL Storage Implementation
@@ -75,7 +75,10 @@ export class PostgresStorage implements Storage {
           -- Statistics
           run_count INTEGER NOT NULL DEFAULT 0,
           success_count INTEGER NOT NULL DEFAULT 0,
-          failure_count INTEGER NOT NULL DEFAULT 0
+          failure_count INTEGER NOT NULL DEFAULT 0,
+
+          -- Snooze (all triggers skipped until this time)
+          snoozed_until TIMESTAMPTZ
         )
       `);
 
@@ -98,6 +101,7 @@ export class PostgresStorage implements Storage {
           status TEXT NOT NULL,
           exit_code INTEGER,
           error TEXT,
+          skip_reason TEXT,
 
           -- Output
           output TEXT,
@@ -109,10 +113,101 @@ export class PostgresStorage implements Storage {
           sdk_usage JSONB,
           cost_usd REAL,
 
+          -- Worker
+          worker_id TEXT,
+          heartbeat_at TIMESTAMPTZ,
+
+          FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE
+        )
+      `);
+
+      // Create pending retries table
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS pending_retries (
+          id TEXT PRIMARY KEY,
+          task_id TEXT NOT NULL,
+          execution_id TEXT NOT NULL,
+          attempt INTEGER NOT NULL,
+          due_at TIMESTAMPTZ NOT NULL,
+          trigger_context JSONB,
+          created_at TIMESTAMPTZ NOT NULL,
+
+          FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE
+        )
+      `);
+
+      // Create dependency state table (progress of dependency triggers)
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS dependency_state (
+          key TEXT PRIMARY KEY,
+          task_id TEXT NOT NULL,
+          completed JSONB NOT NULL,
+          last_triggered TIMESTAMPTZ,
+
           FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE
         )
       `);
 
+      // Create workflow tables
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS workflows (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          description TEXT,
+          steps JSONB NOT NULL,
+          edges JSONB NOT NULL,
+          created_at TIMESTAMPTZ NOT NULL,
+          updated_at TIMESTAMPTZ NOT NULL
+        )
+      `);
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS workflow_runs (
+          id TEXT PRIMARY KEY,
+          workflow_id TEXT NOT NULL,
+          status TEXT NOT NULL,
+          trigger_type TEXT NOT NULL,
+          steps JSONB NOT NULL,
+          started_at TIMESTAMPTZ NOT NULL,
+          completed_at TIMESTAMPTZ,
+          error TEXT,
+
+          FOREIGN KEY (workflow_id) REFERENCES workflows(id) ON DELETE CASCADE
+        )
+      `);
+
+      // Create leases table (scheduled fires claimed by one instance)
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS leases (
+          key TEXT PRIMARY KEY,
+          owner TEXT NOT NULL,
+          expires_at TIMESTAMPTZ NOT NULL
+        )
+      `);
+
+      // Create scheduler pause table (at most one row)
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS scheduler_pause (
+          id TEXT PRIMARY KEY,
+          paused_at TIMESTAMPTZ NOT NULL,
+          reason TEXT,
+          until TIMESTAMPTZ
+        )
+      `);
+
+      // Add columns introduced after the initial schema
+      await client.query(`
+        ALTER TABLE executions ADD COLUMN IF NOT EXISTS skip_reason TEXT
+      `);
+      await client.query(`
+        ALTER TABLE tasks ADD COLUMN IF NOT EXISTS snoozed_until TIMESTAMPTZ
+      `);
+      await client.query(`
+        ALTER TABLE executions ADD COLUMN IF NOT EXISTS worker_id TEXT
+      `);
+      await client.query(`
+        ALTER TABLE executions ADD COLUMN IF NOT EXISTS heartbeat_at TIMESTAMPTZ
+      `);
+
       // Create indexes for performance
       await client.query(`
         CREATE INDEX IF NOT EXISTS idx_tasks_enabled ON tasks(enabled);
@@ -121,6 +216,10 @@ export class PostgresStorage implements Storage {
         CREATE INDEX IF NOT EXISTS idx_executions_task_id ON executions(task_id);
         CREATE INDEX IF NOT EXISTS idx_executions_started_at ON executions(started_at);
         CREATE INDEX IF NOT EXISTS idx_executions_status ON executions(status);
+        CREATE INDEX IF NOT EXISTS idx_pending_retries_due_at ON pending_retries(due_at);
+        CREATE INDEX IF NOT EXISTS idx_leases_expires_at ON leases(expires_at);
+        CREATE INDEX IF NOT EXISTS idx_workflow_runs_workflow_id ON workflow_runs(workflow_id);
+        CREATE INDEX IF NOT EXISTS idx_workflow_runs_status ON workflow_runs(status);
       `);
 
       console.log('[PostgresStorage] Database schema initialized');
@@ -153,12 +252,12 @@ export class PostgresStorage implements Storage {
         id, name, description, enabled, type, task_config, trigger,
         options, conditions, on_success, on_failure,
         created_at, updated_at, last_run, next_run,
-        run_count, success_count, failure_count
+        run_count, success_count, failure_count, snoozed_until
       ) VALUES (
         $1, $2, $3, $4, $5, $6, $7,
         $8, $9, $10, $11,
         $12, $13, $14, $15,
-        $16, $17, $18
+        $16, $17, $18, $19
       )
     `;
 
@@ -180,7 +279,8 @@ export class PostgresStorage implements Storage {
       fullTask.next_run ?? null,
       fullTask.run_count,
       fullTask.success_count,
-      fullTask.failure_count
+      fullTask.failure_count,
+      fullTask.snoozed_until ?? null
     ];
 
     await this.pool.query(query, values);
@@ -223,8 +323,9 @@ export class PostgresStorage implements Storage {
         name = $1, description = $2, enabled = $3, type = $4,
         task_config = $5, trigger = $6, options = $7, conditions = $8,
         on_success = $9, on_failure = $10, updated_at = $11, last_run = $12,
-        next_run = $13, run_count = $14, success_count = $15, failure_count = $16
-      WHERE id = $17
+        next_run = $13, run_count = $14, success_count = $15, failure_count = $16,
+        snoozed_until = $17
+      WHERE id = $18
     `;
 
     const values = [
@@ -244,6 +345,7 @@ export class PostgresStorage implements Storage {
       updated.run_count,
       updated.success_count,
       updated.failure_count,
+      updated.snoozed_until ?? null,
       id
     ];
 
@@ -285,14 +387,15 @@ export class PostgresStorage implements Storage {
       paramIndex++;
     }
 
+    // A task's trigger is an object or a list of objects; match any of them
     if (filter?.trigger_type) {
-      query += ` AND trigger->>'type' = $${paramIndex}`;
+      query += ` AND (trigger->>'type' = $${paramIndex} OR trigger @> jsonb_build_array(jsonb_build_object('type', $${paramIndex}::text)))`;
       params.push(filter.trigger_type);
       paramIndex++;
     }
 
     if (filter?.trigger_event) {
-      query += ` AND trigger->>'event' = $${paramIndex}`;
+      query += ` AND (trigger->>'event' = $${paramIndex} OR trigger @> jsonb_build_array(jsonb_build_object('event', $${paramIndex}::text)))`;
       params.push(filter.trigger_event);
       paramIndex++;
     }
@@ -323,12 +426,12 @@ export class PostgresStorage implements Storage {
         id, task_id, started_at, completed_at, duration_ms,
         trigger_type, trigger_context, status, exit_code, error,
         output, output_truncated, thinking_output, tool_calls,
-        sdk_usage, cost_usd
+        sdk_usage, cost_usd, skip_reason, worker_id, heartbeat_at
       ) VALUES (
         $1, $2, $3, $4, $5,
         $6, $7, $8, $9, $10,
         $11, $12, $13, $14,
-        $15, $16
+        $15, $16, $17, $18, $19
       )
     `;
 
@@ -348,7 +451,10 @@ export class PostgresStorage implements Storage {
       fullExecution.thinking_output ?? null,
       fullExecution.tool_calls ? JSON.stringify(fullExecution.tool_calls) : null,
       fullExecution.sdk_usage ? JSON.stringify(fullExecution.sdk_usage) : null,
-      fullExecution.cost_usd ?? null
+      fullExecution.cost_usd ?? null,
+      fullExecution.skip_reason ?? null,
+      fullExecution.worker_id ?? null,
+      fullExecution.heartbeat_at ?? null
     ];
 
     await this.pool.query(query, values);
@@ -389,8 +495,9 @@ export class PostgresStorage implements Storage {
       UPDATE executions SET
         completed_at = $1, duration_ms = $2, status = $3, exit_code = $4,
         error = $5, output = $6, output_truncated = $7, thinking_output = $8,
-        tool_calls = $9, sdk_usage = $10, cost_usd = $11
-      WHERE id = $12
+        tool_calls = $9, sdk_usage = $10, cost_usd = $11, started_at = $12,
+        skip_reason = $13, worker_id = $14, heartbeat_at = $15
+      WHERE id = $16
     `;
 
     const values = [
@@ -405,6 +512,10 @@ export class PostgresStorage implements Storage {
       updated.tool_calls ? JSON.stringify(updated.tool_calls) : null,
       updated.sdk_usage ? JSON.stringify(updated.sdk_usage) : null,
       updated.cost_usd ?? null,
+      updated.started_at,
+      updated.skip_reason ?? null,
+      updated.worker_id ?? null,
+      updated.heartbeat_at ?? null,
       id
     ];
 
@@ -465,6 +576,54 @@ export class PostgresStorage implements Storage {
     return result.rows.map(row => this.deserializeExecution(row));
   }
 
+  async claimExecution(workerId: string): Promise<Execution | null> {
+    // % 0 COMPLETE - claimExecution
+
+    // Claims are serialized so two workers cannot both take the last free slot of
+    // a task; SKIP LOCKED passes over rows other writers hold. Tasks with an
+    // overlap policy are passed over while max_concurrent runs are in flight
+    // (policy defaults as in getOverlapSettings)
+    const query = `
+      UPDATE executions SET status = 'running', started_at = now(), worker_id = $1, heartbeat_at = now()
+      WHERE id = (
+        SELECT e.id FROM executions e
+        LEFT JOIN tasks t ON t.id = e.task_id
+        WHERE e.status = 'pending' AND (
+          COALESCE(
+            t.options->>'overlap_policy',
+            CASE WHEN t.options->'max_concurrent' IS NULL THEN 'allow' ELSE 'queue' END
+          ) = 'allow'
+          OR (
+            SELECT COUNT(*) FROM executions r WHERE r.task_id = e.task_id AND r.status = 'running'
+          ) < GREATEST(1, COALESCE((t.options->>'max_concurrent')::int, 1))
+        )
+        ORDER BY e.started_at LIMIT 1
+        FOR UPDATE OF e SKIP LOCKED
+      )
+      RETURNING *
+    `;
+    const result = await this.transaction(async client => {
+      await client.query(`SELECT pg_advisory_xact_lock(hashtext('claim_execution'))`);
+      return client.query(query, [workerId]);
+    });
+
+    // % 100 COMPLETE - claimExecution
+    return result.rows.length > 0 ? this.deserializeExecution(result.rows[0]) : null;
+  }
+
+  async heartbeatExecution(id: string, workerId: string): Promise<boolean> {
+    // % 0 COMPLETE - heartbeatExecution
+
+    const query = `
+      UPDATE executions SET heartbeat_at = now()
+      WHERE id = $1 AND worker_id = $2 AND status = 'running'
+    `;
+    const result = await this.pool.query(query, [id, workerId]);
+
+    // % 100 COMPLETE - heartbeatExecution
+    return (result.rowCount ?? 0) > 0;
+  }
+
   /**
    * Statistics Operations
    */
@@ -496,6 +655,386 @@ export class PostgresStorage implements Storage {
     };
   }
 
+  /**
+   * Retry Operations
+   */
+
+  async createPendingRetry(retry: Omit<PendingRetry, 'id' | 'created_at'>): Promise<PendingRetry> {
+    // % 0 COMPLETE - createPendingRetry
+
+    const fullRetry: PendingRetry = {
+      ...retry,
+      id: uuidv4(),
+      created_at: new Date().toISOString(),
+    };
+
+    const query = `
+      INSERT INTO pending_retries (
+        id, task_id, execution_id, attempt, due_at, trigger_context, created_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+    `;
+
+    await this.pool.query(query, [
+      fullRetry.id,
+      fullRetry.task_id,
+      fullRetry.execution_id,
+      fullRetry.attempt,
+      fullRetry.due_at,
+      JSON.stringify(fullRetry.trigger_context),
+      fullRetry.created_at,
+    ]);
+
+    // % 100 COMPLETE - createPendingRetry
+    return fullRetry;
+  }
+
+  async loadPendingRetries(taskId?: string): Promise<PendingRetry[]> {
+    // % 0 COMPLETE - loadPendingRetries
+
+    let query = 'SELECT * FROM pending_retries';
+    const params: any[] = [];
+
+    if (taskId) {
+      query += ' WHERE task_id = $1';
+      params.push(taskId);
+    }
+
+    query += ' ORDER BY due_at ASC';
+
+    const result = await this.pool.query(query, params);
+
+    // % 100 COMPLETE - loadPendingRetries
+    return result.rows.map(row => this.deserializePendingRetry(row));
+  }
+
+  async deletePendingRetry(id: string): Promise<boolean> {
+    // % 0 COMPLETE - deletePendingRetry
+
+    const result = await this.pool.query('DELETE FROM pending_retries WHERE id = $1', [id]);
+
+    // % 100 COMPLETE - deletePendingRetry
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Dependency State Operations
+   */
+
+  async loadDependencyStates(): Promise<DependencyState[]> {
+    // % 0 COMPLETE - loadDependencyStates
+
+    const result = await this.pool.query('SELECT * FROM dependency_state');
+
+    // % 100 COMPLETE - loadDependencyStates
+    return result.rows.map(row => this.deserializeDependencyState(row));
+  }
+
+  async saveDependencyState(state: DependencyState): Promise<void> {
+    // % 0 COMPLETE - saveDependencyState
+
+    const query = `
+      INSERT INTO dependency_state (key, task_id, completed, last_triggered)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (key) DO UPDATE SET
+        task_id = EXCLUDED.task_id,
+        completed = EXCLUDED.completed,
+        last_triggered = EXCLUDED.last_triggered
+    `;
+
+    await this.pool.query(query, [
+      state.key,
+      state.task_id,
+      JSON.stringify(state.completed),
+      state.last_triggered || null,
+    ]);
+
+    // % 100 COMPLETE - saveDependencyState
+  }
+
+  async changeDependencyState(
+    key: string,
+    taskId: string,
+    change: (state: DependencyState) => boolean
+  ): Promise<DependencyState | null> {
+    // % 0 COMPLETE - changeDependencyState
+
+    // The row is created first so there is always a row to lock; the lock holds
+    // off changes from other processes until this one commits
+    const saved = await this.transaction(async client => {
+      await client.query(`
+        INSERT INTO dependency_state (key, task_id, completed)
+        VALUES ($1, $2, '{}')
+        ON CONFLICT (key) DO NOTHING
+      `, [key, taskId]);
+      const result = await client.query('SELECT * FROM dependency_state WHERE key = $1 FOR UPDATE', [key]);
+
+      const state = this.deserializeDependencyState(result.rows[0]);
+      if (!change(state)) {
+        return null;
+      }
+
+      const query = `
+        UPDATE dependency_state SET task_id = $2, completed = $3, last_triggered = $4
+        WHERE key = $1
+      `;
+      await client.query(query, [key, taskId, JSON.stringify(state.completed), state.last_triggered || null]);
+      return { ...state, key, task_id: taskId };
+    });
+
+    // % 100 COMPLETE - changeDependencyState
+    return saved;
+  }
+
+  /**
+   * Workflow Operations
+   */
+
+  async createWorkflow(workflow: Omit<Workflow, 'id' | 'created_at' | 'updated_at'>): Promise<Workflow> {
+    // % 0 COMPLETE - createWorkflow
+
+    const now = new Date().toISOString();
+    const fullWorkflow: Workflow = {
+      ...workflow,
+      id: uuidv4(),
+      created_at: now,
+      updated_at: now,
+    };
+
+    const query = `
+      INSERT INTO workflows (id, name, description, steps, edges, created_at, updated_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+    `;
+
+    await this.pool.query(query, [
+      fullWorkflow.id,
+      fullWorkflow.name,
+      fullWorkflow.description ?? null,
+      JSON.stringify(fullWorkflow.steps),
+      JSON.stringify(fullWorkflow.edges),
+      fullWorkflow.created_at,
+      fullWorkflow.updated_at,
+    ]);
+
+    // % 100 COMPLETE - createWorkflow
+    return fullWorkflow;
+  }
+
+  async getWorkflow(id: string): Promise<Workflow | null> {
+    // % 0 COMPLETE - getWorkflow
+
+    const result = await this.pool.query('SELECT * FROM workflows WHERE id = $1', [id]);
+
+    // % 100 COMPLETE - getWorkflow
+    return result.rows.length > 0 ? this.deserializeWorkflow(result.rows[0]) : null;
+  }
+
+  async loadWorkflows(): Promise<Workflow[]> {
+    // % 0 COMPLETE - loadWorkflows
+
+    const result = await this.pool.query('SELECT * FROM workflows ORDER BY name ASC');
+
+    // % 100 COMPLETE - loadWorkflows
+    return result.rows.map(row => this.deserializeWorkflow(row));
+  }
+
+  async createWorkflowRun(run: Omit<WorkflowRun, 'id'>): Promise<WorkflowRun> {
+    // % 0 COMPLETE - createWorkflowRun
+
+    const fullRun: WorkflowRun = {
+      ...run,
+      id: uuidv4(),
+    };
+
+    const query = `
+      INSERT INTO workflow_runs (
+        id, workflow_id, status, trigger_type, steps, started_at, completed_at, error
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+    `;
+
+    await this.pool.query(query, [
+      fullRun.id,
+      fullRun.workflow_id,
+      fullRun.status,
+      fullRun.trigger_type,
+      JSON.stringify(fullRun.steps),
+      fullRun.started_at,
+      fullRun.completed_at ?? null,
+      fullRun.error ?? null,
+    ]);
+
+    // % 100 COMPLETE - createWorkflowRun
+    return fullRun;
+  }
+
+  async getWorkflowRun(id: string): Promise<WorkflowRun | null> {
+    // % 0 COMPLETE - getWorkflowRun
+
+    const result = await this.pool.query('SELECT * FROM workflow_runs WHERE id = $1', [id]);
+
+    // % 100 COMPLETE - getWorkflowRun
+    return result.rows.length > 0 ? this.deserializeWorkflowRun(result.rows[0]) : null;
+  }
+
+  async updateWorkflowRun(id: string, updates: Partial<WorkflowRun>): Promise<WorkflowRun> {
+    // % 0 COMPLETE - updateWorkflowRun
+
+    const existing = await this.getWorkflowRun(id);
+    if (!existing) {
+      throw new Error(`Workflow run not found: ${id}`);
+    }
+
+    const updated: WorkflowRun = {
+      ...existing,
+      ...updates,
+      id, // Prevent ID change
+    };
+
+    const query = `
+      UPDATE workflow_runs SET
+        status = $1, steps = $2, completed_at = $3, error = $4
+      WHERE id = $5
+    `;
+
+    await this.pool.query(query, [
+      updated.status,
+      JSON.stringify(updated.steps),
+      updated.completed_at ?? null,
+      updated.error ?? null,
+      id,
+    ]);
+
+    // % 100 COMPLETE - updateWorkflowRun
+    return updated;
+  }
+
+  async changeWorkflowRun(id: string, change: (run: WorkflowRun) => boolean): Promise<WorkflowRun | null> {
+    // % 0 COMPLETE - changeWorkflowRun
+
+    // The row lock holds off changes from other processes until this one commits
+    const saved = await this.transaction(async client => {
+      const result = await client.query('SELECT * FROM workflow_runs WHERE id = $1 FOR UPDATE', [id]);
+      if (result.rows.length === 0) {
+        throw new Error(`Workflow run not found: ${id}`);
+      }
+
+      const run = this.deserializeWorkflowRun(result.rows[0]);
+      if (!change(run)) {
+        return null;
+      }
+
+      const query = `
+        UPDATE workflow_runs SET
+          status = $1, steps = $2, completed_at = $3, error = $4
+        WHERE id = $5
+      `;
+      await client.query(query, [
+        run.status,
+        JSON.stringify(run.steps),
+        run.completed_at ?? null,
+        run.error ?? null,
+        id,
+      ]);
+      return { ...run, id };
+    });
+
+    // % 100 COMPLETE - changeWorkflowRun
+    return saved;
+  }
+
+  async loadWorkflowRuns(filter?: WorkflowRunFilter): Promise<WorkflowRun[]> {
+    // % 0 COMPLETE - loadWorkflowRuns
+
+    let query = 'SELECT * FROM workflow_runs WHERE 1=1';
+    const params: any[] = [];
+    let paramIndex = 1;
+
+    if (filter?.workflow_id) {
+      query += ` AND workflow_id = $${paramIndex}`;
+      params.push(filter.workflow_id);
+      paramIndex++;
+    }
+
+    if (filter?.status) {
+      query += ` AND status = $${paramIndex}`;
+      params.push(filter.status);
+      paramIndex++;
+    }
+
+    query += ' ORDER BY started_at DESC';
+
+    if (filter?.limit) {
+      query += ` LIMIT $${paramIndex}`;
+      params.push(filter.limit);
+    }
+
+    const result = await this.pool.query(query, params);
+
+    // % 100 COMPLETE - loadWorkflowRuns
+    return result.rows.map(row => this.deserializeWorkflowRun(row));
+  }
+
+  /**
+   * Lease Operations
+   */
+
+  async acquireLease(key: string, owner: string, ttlMs: number): Promise<boolean> {
+    // % 0 COMPLETE - acquireLease
+
+    // Expiry uses the database clock so instances with skewed clocks agree
+    await this.pool.query('DELETE FROM leases WHERE expires_at <= now()');
+
+    const query = `
+      INSERT INTO leases (key, owner, expires_at)
+      VALUES ($1, $2, now() + $3 * interval '1 millisecond')
+      ON CONFLICT (key) DO UPDATE SET owner = EXCLUDED.owner, expires_at = EXCLUDED.expires_at
+      WHERE leases.owner = EXCLUDED.owner OR leases.expires_at <= now()
+      RETURNING key
+    `;
+    const result = await this.pool.query(query, [key, owner, ttlMs]);
+
+    // % 100 COMPLETE - acquireLease
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Scheduler Pause Operations
+   */
+
+  async getSchedulerPause(): Promise<SchedulerPause | null> {
+    // % 0 COMPLETE - getSchedulerPause
+
+    const result = await this.pool.query('SELECT * FROM scheduler_pause WHERE id = $1', ['scheduler']);
+    const row = result.rows[0];
+
+    // % 100 COMPLETE - getSchedulerPause
+    return row ? {
+      paused_at: row.paused_at instanceof Date ? row.paused_at.toISOString() : row.paused_at,
+      ...(row.reason && { reason: row.reason }),
+      ...(row.until && { until: row.until instanceof Date ? row.until.toISOString() : row.until }),
+    } : null;
+  }
+
+  async saveSchedulerPause(pause: SchedulerPause | null): Promise<void> {
+    // % 0 COMPLETE - saveSchedulerPause
+
+    if (!pause) {
+      await this.pool.query('DELETE FROM scheduler_pause WHERE id = $1', ['scheduler']);
+      return;
+    }
+
+    const query = `
+      INSERT INTO scheduler_pause (id, paused_at, reason, until)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (id) DO UPDATE SET
+        paused_at = EXCLUDED.paused_at,
+        reason = EXCLUDED.reason,
+        until = EXCLUDED.until
+    `;
+    await this.pool.query(query, ['scheduler', pause.paused_at, pause.reason || null, pause.until || null]);
+
+    // % 100 COMPLETE - saveSchedulerPause
+  }
+
   /**
    * Streaming Operations
    */
@@ -570,6 +1109,25 @@ export class PostgresStorage implements Storage {
    * Private Helper Methods
    */
 
+  /**
+   * Run queries in a transaction on one pooled connection
+   * Rolled back if the callback throws
+   */
+  private async transaction<T>(callback: (client: PoolClient) => Promise<T>): Promise<T> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      const result = await callback(client);
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
   /**
    * Deserialize a task row from database
    */
@@ -593,6 +1151,7 @@ export class PostgresStorage implements Storage {
       run_count: row.run_count,
       success_count: row.success_count,
       failure_count: row.failure_count,
+      snoozed_until: row.snoozed_until ? (row.snoozed_until instanceof Date ? row.snoozed_until.toISOString() : row.snoozed_until) : undefined,
     };
   }
 
@@ -611,12 +1170,75 @@ export class PostgresStorage implements Storage {
       status: row.status,
       exit_code: row.exit_code,
       error: row.error,
+      skip_reason: row.skip_reason,
       output: row.output,
       output_truncated: row.output_truncated,
       thinking_output: row.thinking_output,
       tool_calls: row.tool_calls ? (typeof row.tool_calls === 'string' ? JSON.parse(row.tool_calls) : row.tool_calls) : undefined,
       sdk_usage: row.sdk_usage ? (typeof row.sdk_usage === 'string' ? JSON.parse(row.sdk_usage) : row.sdk_usage) : undefined,
       cost_usd: row.cost_usd,
+      worker_id: row.worker_id ?? undefined,
+      heartbeat_at: row.heartbeat_at ? (row.heartbeat_at instanceof Date ? row.heartbeat_at.toISOString() : row.heartbeat_at) : undefined,
+    };
+  }
+
+  /**
+   * Deserialize a pending retry row from database
+   */
+  private deserializePendingRetry(row: any): PendingRetry {
+    return {
+      id: row.id,
+      task_id: row.task_id,
+      execution_id: row.execution_id,
+      attempt: row.attempt,
+      due_at: row.due_at instanceof Date ? row.due_at.toISOString() : row.due_at,
+      trigger_context: row.trigger_context ? (typeof row.trigger_context === 'string' ? JSON.parse(row.trigger_context) : row.trigger_context) : {},
+      created_at: row.created_at instanceof Date ? row.created_at.toISOString() : row.created_at,
+    };
+  }
+
+  /**
+   * Deserialize a dependency state row from database
+   */
+  private deserializeDependencyState(row: any): DependencyState {
+    return {
+      key: row.key,
+      task_id: row.task_id,
+      completed: typeof row.completed === 'string' ? JSON.parse(row.completed) : row.completed,
+      ...(row.last_triggered && {
+        last_triggered: row.last_triggered instanceof Date ? row.last_triggered.toISOString() : row.last_triggered,
+      }),
+    };
+  }
+
+  /**
+   * Deserialize a workflow row from database
+   */
+  private deserializeWorkflow(row: any): Workflow {
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description ?? undefined,
+      steps: typeof row.steps === 'string' ? JSON.parse(row.steps) : row.steps,
+      edges: typeof row.edges === 'string' ? JSON.parse(row.edges) : row.edges,
+      created_at: row.created_at instanceof Date ? row.created_at.toISOString() : row.created_at,
+      updated_at: row.updated_at instanceof Date ? row.updated_at.toISOString() : row.updated_at,
+    };
+  }
+
+  /**
+   * Deserialize a workflow run row from database
+   */
+  private deserializeWorkflowRun(row: any): WorkflowRun {
+    return {
+      id: row.id,
+      workflow_id: row.workflow_id,
+      status: row.status,
+      trigger_type: row.trigger_type,
+      steps: typeof row.steps === 'string' ? JSON.parse(row.steps) : row.steps,
+      started_at: row.started_at instanceof Date ? row.started_at.toISOString() : row.started_at,
+      completed_at: row.completed_at instanceof Date ? row.completed_at.toISOString() : row.completed_at ?? undefined,
+      error: row.error ?? undefined,
     };
   }
 }
@@ -9,8 +9,8 @@
 
 import Database from 'better-sqlite3';
 import { v4 as uuidv4 } from 'uuid';
-import { Task, Execution } from '../models/types.js';
-import { Storage, TaskFilter, ExecutionFilter, TaskStats } from './storage.js';
+import { Task, Execution, PendingRetry, DependencyState, Workflow, WorkflowRun, SchedulerPause } from '../models/types.js';
+import { Storage, TaskFilter, ExecutionFilter, TaskStats, WorkflowRunFilter } from './storage.js';
 
 /**
  * SQLite Storage Implementation
@@ -64,7 +64,10 @@ export class SQLiteStorage implements Storage {
         -- Statistics
         run_count INTEGER NOT NULL DEFAULT 0,
         success_count INTEGER NOT NULL DEFAULT 0,
-        failure_count INTEGER NOT NULL DEFAULT 0
+        failure_count INTEGER NOT NULL DEFAULT 0,
+
+        -- Snooze (all triggers skipped until this time)
+        snoozed_until TEXT
       );
     `);
 
@@ -87,6 +90,7 @@ export class SQLiteStorage implements Storage {
         status TEXT NOT NULL,
         exit_code INTEGER,
         error TEXT,
+        skip_reason TEXT,
 
         -- Output
         output TEXT,
@@ -98,10 +102,92 @@ export class SQLiteStorage implements Storage {
         sdk_usage TEXT,
         cost_usd REAL,
 
+        -- Worker
+        worker_id TEXT,
+        heartbeat_at TEXT,
+
+        FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE
+      );
+    `);
+
+    // Create pending retries table
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS pending_retries (
+        id TEXT PRIMARY KEY,
+        task_id TEXT NOT NULL,
+        execution_id TEXT NOT NULL,
+        attempt INTEGER NOT NULL,
+        due_at TEXT NOT NULL,
+        trigger_context TEXT,
+        created_at TEXT NOT NULL,
+
+        FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE
+      );
+    `);
+
+    // Create dependency state table (progress of dependency triggers)
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS dependency_state (
+        key TEXT PRIMARY KEY,
+        task_id TEXT NOT NULL,
+        completed TEXT NOT NULL,
+        last_triggered TEXT,
+
         FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE
       );
     `);
 
+    // Create workflow tables (steps, edges and step progress stored as JSON)
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS workflows (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        description TEXT,
+        steps TEXT NOT NULL,
+        edges TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS workflow_runs (
+        id TEXT PRIMARY KEY,
+        workflow_id TEXT NOT NULL,
+        status TEXT NOT NULL,
+        trigger_type TEXT NOT NULL,
+        steps TEXT NOT NULL,
+        started_at TEXT NOT NULL,
+        completed_at TEXT,
+        error TEXT,
+
+        FOREIGN KEY (workflow_id) REFERENCES workflows(id) ON DELETE CASCADE
+      );
+    `);
+
+    // Create leases table (scheduled fires claimed by one instance)
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS leases (
+        key TEXT PRIMARY KEY,
+        owner TEXT NOT NULL,
+        expires_at TEXT NOT NULL
+      );
+    `);
+
+    // Create scheduler pause table (at most one row)
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS scheduler_pause (
+        id TEXT PRIMARY KEY,
+        paused_at TEXT NOT NULL,
+        reason TEXT,
+        until TEXT
+      );
+    `);
+
+    // Add columns introduced after the initial schema
+    this.addColumnIfMissing('executions', 'skip_reason', 'TEXT');
+    this.addColumnIfMissing('tasks', 'snoozed_until', 'TEXT');
+    this.addColumnIfMissing('executions', 'worker_id', 'TEXT');
+    this.addColumnIfMissing('executions', 'heartbeat_at', 'TEXT');
+
     // Create indexes for performance
     this.db.exec(`
       CREATE INDEX IF NOT EXISTS idx_tasks_enabled ON tasks(enabled);
@@ -110,11 +196,25 @@ export class SQLiteStorage implements Storage {
       CREATE INDEX IF NOT EXISTS idx_executions_task_id ON executions(task_id);
       CREATE INDEX IF NOT EXISTS idx_executions_started_at ON executions(started_at);
       CREATE INDEX IF NOT EXISTS idx_executions_status ON executions(status);
+      CREATE INDEX IF NOT EXISTS idx_pending_retries_due_at ON pending_retries(due_at);
+      CREATE INDEX IF NOT EXISTS idx_leases_expires_at ON leases(expires_at);
+      CREATE INDEX IF NOT EXISTS idx_workflow_runs_workflow_id ON workflow_runs(workflow_id);
+      CREATE INDEX IF NOT EXISTS idx_workflow_runs_status ON workflow_runs(status);
     `);
 
     // % 100 COMPLETE - Database initialization
   }
 
+  /**
+   * Add a column to an existing table (for databases created by older versions)
+   */
+  private addColumnIfMissing(table: string, column: string, definition: string): void {
+    const columns = this.db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+    if (!columns.some(c => c.name === column)) {
+      this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    }
+  }
+
   /**
    * Task Operations
    */
@@ -137,12 +237,12 @@ export class SQLiteStorage implements Storage {
         id, name, description, enabled, type, task_config, trigger,
         options, conditions, on_success, on_failure,
         created_at, updated_at, last_run, next_run,
-        run_count, success_count, failure_count
+        run_count, success_count, failure_count, snoozed_until
       ) VALUES (
         ?, ?, ?, ?, ?, ?, ?,
         ?, ?, ?, ?,
         ?, ?, ?, ?,
-        ?, ?, ?
+        ?, ?, ?, ?
       )
     `);
 
@@ -164,7 +264,8 @@ export class SQLiteStorage implements Storage {
       fullTask.next_run ?? null,
       fullTask.run_count,
       fullTask.success_count,
-      fullTask.failure_count
+      fullTask.failure_count,
+      fullTask.snoozed_until ?? null
     );
 
     // % 100 COMPLETE - createTask
@@ -205,7 +306,8 @@ export class SQLiteStorage implements Storage {
         name = ?, description = ?, enabled = ?, type = ?,
         task_config = ?, trigger = ?, options = ?, conditions = ?,
         on_success = ?, on_failure = ?, updated_at = ?, last_run = ?,
-        next_run = ?, run_count = ?, success_count = ?, failure_count = ?
+        next_run = ?, run_count = ?, success_count = ?, failure_count = ?,
+        snoozed_until = ?
       WHERE id = ?
     `);
 
@@ -226,6 +328,7 @@ export class SQLiteStorage implements Storage {
       updated.run_count,
       updated.success_count,
       updated.failure_count,
+      updated.snoozed_until ?? null,
       id
     );
 
@@ -262,13 +365,16 @@ export class SQLiteStorage implements Storage {
       params.push(filter.type);
     }
 
+    // A task's trigger is an object or a list of objects; match any of them
+    const triggers = 'json_each(CASE WHEN json_type(trigger) = \'array\' THEN trigger ELSE json_array(json(trigger)) END)';
+
     if (filter?.trigger_type) {
-      query += ' AND json_extract(trigger, \'$.type\') = ?';
+      query += ` AND EXISTS (SELECT 1 FROM ${triggers} WHERE json_extract(value, '$.type') = ?)`;
       params.push(filter.trigger_type);
     }
 
     if (filter?.trigger_event) {
-      query += ' AND json_extract(trigger, \'$.event\') = ?';
+      query += ` AND EXISTS (SELECT 1 FROM ${triggers} WHERE json_extract(value, '$.event') = ?)`;
       params.push(filter.trigger_event);
     }
 
@@ -299,12 +405,12 @@ export class SQLiteStorage implements Storage {
         id, task_id, started_at, completed_at, duration_ms,
         trigger_type, trigger_context, status, exit_code, error,
         output, output_truncated, thinking_output, tool_calls,
-        sdk_usage, cost_usd
+        sdk_usage, cost_usd, skip_reason, worker_id, heartbeat_at
       ) VALUES (
         ?, ?, ?, ?, ?,
         ?, ?, ?, ?, ?,
         ?, ?, ?, ?,
-        ?, ?
+        ?, ?, ?, ?, ?
       )
     `);
 
@@ -324,7 +430,10 @@ export class SQLiteStorage implements Storage {
       fullExecution.thinking_output ?? null,
       fullExecution.tool_calls ? JSON.stringify(fullExecution.tool_calls) : null,
       fullExecution.sdk_usage ? JSON.stringify(fullExecution.sdk_usage) : null,
-      fullExecution.cost_usd ?? null
+      fullExecution.cost_usd ?? null,
+      fullExecution.skip_reason ?? null,
+      fullExecution.worker_id ?? null,
+      fullExecution.heartbeat_at ?? null
     );
 
     // % 100 COMPLETE - createExecution
@@ -361,13 +470,15 @@ export class SQLiteStorage implements Storage {
 
     const stmt = this.db.prepare(`
       UPDATE executions SET
-        completed_at = ?, duration_ms = ?, status = ?, exit_code = ?,
+        started_at = ?, completed_at = ?, duration_ms = ?, status = ?, exit_code = ?,
         error = ?, output = ?, output_truncated = ?, thinking_output = ?,
-        tool_calls = ?, sdk_usage = ?, cost_usd = ?
+        tool_calls = ?, sdk_usage = ?, cost_usd = ?, skip_reason = ?,
+        worker_id = ?, heartbeat_at = ?
       WHERE id = ?
     `);
 
     stmt.run(
+      updated.started_at,
       updated.completed_at ?? null,
       updated.duration_ms ?? null,
       updated.status,
@@ -379,6 +490,9 @@ export class SQLiteStorage implements Storage {
       updated.tool_calls ? JSON.stringify(updated.tool_calls) : null,
       updated.sdk_usage ? JSON.stringify(updated.sdk_usage) : null,
       updated.cost_usd ?? null,
+      updated.skip_reason ?? null,
+      updated.worker_id ?? null,
+      updated.heartbeat_at ?? null,
       id
     );
 
@@ -431,6 +545,58 @@ export class SQLiteStorage implements Storage {
     return rows.map(row => this.deserializeExecution(row));
   }
 
+  async claimExecution(workerId: string): Promise<Execution | null> {
+    // % 0 COMPLETE - claimExecution
+
+    const now = new Date().toISOString();
+
+    // Select and mark in one write transaction so concurrent claims see the update.
+    // Tasks with an overlap policy are passed over while max_concurrent runs are
+    // in flight (policy defaults as in getOverlapSettings)
+    const claim = this.db.transaction(() => {
+      const row = this.db.prepare(`
+        SELECT e.id FROM executions e
+        LEFT JOIN tasks t ON t.id = e.task_id
+        WHERE e.status = 'pending' AND (
+          COALESCE(
+            json_extract(t.options, '$.overlap_policy'),
+            CASE WHEN json_extract(t.options, '$.max_concurrent') IS NULL THEN 'allow' ELSE 'queue' END
+          ) = 'allow'
+          OR (
+            SELECT COUNT(*) FROM executions r WHERE r.task_id = e.task_id AND r.status = 'running'
+          ) < MAX(1, COALESCE(json_extract(t.options, '$.max_concurrent'), 1))
+        )
+        ORDER BY e.started_at, e.rowid LIMIT 1
+      `).get() as { id: string } | undefined;
+      if (!row) {
+        return null;
+      }
+
+      this.db.prepare(`
+        UPDATE executions SET status = 'running', started_at = ?, worker_id = ?, heartbeat_at = ?
+        WHERE id = ?
+      `).run(now, workerId, now, row.id);
+      return row.id;
+    });
+
+    const id = claim.immediate();
+
+    // % 100 COMPLETE - claimExecution
+    return id ? this.getExecution(id) : null;
+  }
+
+  async heartbeatExecution(id: string, workerId: string): Promise<boolean> {
+    // % 0 COMPLETE - heartbeatExecution
+
+    const result = this.db.prepare(`
+      UPDATE executions SET heartbeat_at = ?
+      WHERE id = ? AND worker_id = ? AND status = 'running'
+    `).run(new Date().toISOString(), id, workerId);
+
+    // % 100 COMPLETE - heartbeatExecution
+    return result.changes > 0;
+  }
+
   /**
    * Statistics Operations
    */
@@ -461,6 +627,367 @@ export class SQLiteStorage implements Storage {
     };
   }
 
+  /**
+   * Retry Operations
+   */
+
+  async createPendingRetry(retry: Omit<PendingRetry, 'id' | 'created_at'>): Promise<PendingRetry> {
+    // % 0 COMPLETE - createPendingRetry
+
+    const fullRetry: PendingRetry = {
+      ...retry,
+      id: uuidv4(),
+      created_at: new Date().toISOString(),
+    };
+
+    const stmt = this.db.prepare(`
+      INSERT INTO pending_retries (
+        id, task_id, execution_id, attempt, due_at, trigger_context, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    stmt.run(
+      fullRetry.id,
+      fullRetry.task_id,
+      fullRetry.execution_id,
+      fullRetry.attempt,
+      fullRetry.due_at,
+      JSON.stringify(fullRetry.trigger_context),
+      fullRetry.created_at
+    );
+
+    // % 100 COMPLETE - createPendingRetry
+    return fullRetry;
+  }
+
+  async loadPendingRetries(taskId?: string): Promise<PendingRetry[]> {
+    // % 0 COMPLETE - loadPendingRetries
+
+    let query = 'SELECT * FROM pending_retries';
+    const params: any[] = [];
+
+    if (taskId) {
+      query += ' WHERE task_id = ?';
+      params.push(taskId);
+    }
+
+    query += ' ORDER BY due_at ASC';
+
+    const rows = this.db.prepare(query).all(...params) as any[];
+
+    // % 100 COMPLETE - loadPendingRetries
+    return rows.map(row => this.deserializePendingRetry(row));
+  }
+
+  async deletePendingRetry(id: string): Promise<boolean> {
+    // % 0 COMPLETE - deletePendingRetry
+
+    const result = this.db.prepare('DELETE FROM pending_retries WHERE id = ?').run(id);
+
+    // % 100 COMPLETE - deletePendingRetry
+    return result.changes > 0;
+  }
+
+  /**
+   * Dependency State Operations
+   */
+
+  async loadDependencyStates(): Promise<DependencyState[]> {
+    // % 0 COMPLETE - loadDependencyStates
+
+    const rows = this.db.prepare('SELECT * FROM dependency_state').all() as any[];
+
+    // % 100 COMPLETE - loadDependencyStates
+    return rows.map(row => this.deserializeDependencyState(row));
+  }
+
+  async saveDependencyState(state: DependencyState): Promise<void> {
+    // % 0 COMPLETE - saveDependencyState
+
+    const stmt = this.db.prepare(`
+      INSERT INTO dependency_state (key, task_id, completed, last_triggered)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(key) DO UPDATE SET
+        task_id = excluded.task_id,
+        completed = excluded.completed,
+        last_triggered = excluded.last_triggered
+    `);
+
+    stmt.run(
+      state.key,
+      state.task_id,
+      JSON.stringify(state.completed),
+      state.last_triggered || null
+    );
+
+    // % 100 COMPLETE - saveDependencyState
+  }
+
+  async changeDependencyState(
+    key: string,
+    taskId: string,
+    change: (state: DependencyState) => boolean
+  ): Promise<DependencyState | null> {
+    // % 0 COMPLETE - changeDependencyState
+
+    // An immediate transaction takes the write lock before reading, so other
+    // processes cannot change the state in between
+    const apply = this.db.transaction((): DependencyState | null => {
+      const row = this.db.prepare('SELECT * FROM dependency_state WHERE key = ?').get(key);
+      const state = row ? this.deserializeDependencyState(row) : { key, task_id: taskId, completed: {} };
+      if (!change(state)) {
+        return null;
+      }
+
+      this.db.prepare(`
+        INSERT INTO dependency_state (key, task_id, completed, last_triggered)
+        VALUES (?, ?, ?, ?)
+        ON CONFLICT(key) DO UPDATE SET
+          task_id = excluded.task_id,
+          completed = excluded.completed,
+          last_triggered = excluded.last_triggered
+      `).run(key, taskId, JSON.stringify(state.completed), state.last_triggered || null);
+      return { ...state, key, task_id: taskId };
+    });
+
+    // % 100 COMPLETE - changeDependencyState
+    return apply.immediate();
+  }
+
+  /**
+   * Workflow Operations
+   */
+
+  async createWorkflow(workflow: Omit<Workflow, 'id' | 'created_at' | 'updated_at'>): Promise<Workflow> {
+    // % 0 COMPLETE - createWorkflow
+
+    const now = new Date().toISOString();
+    const fullWorkflow: Workflow = {
+      ...workflow,
+      id: uuidv4(),
+      created_at: now,
+      updated_at: now,
+    };
+
+    this.db.prepare(`
+      INSERT INTO workflows (id, name, description, steps, edges, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      fullWorkflow.id,
+      fullWorkflow.name,
+      fullWorkflow.description ?? null,
+      JSON.stringify(fullWorkflow.steps),
+      JSON.stringify(fullWorkflow.edges),
+      fullWorkflow.created_at,
+      fullWorkflow.updated_at
+    );
+
+    // % 100 COMPLETE - createWorkflow
+    return fullWorkflow;
+  }
+
+  async getWorkflow(id: string): Promise<Workflow | null> {
+    // % 0 COMPLETE - getWorkflow
+
+    const row = this.db.prepare('SELECT * FROM workflows WHERE id = ?').get(id) as any;
+
+    // % 100 COMPLETE - getWorkflow
+    return row ? this.deserializeWorkflow(row) : null;
+  }
+
+  async loadWorkflows(): Promise<Workflow[]> {
+    // % 0 COMPLETE - loadWorkflows
+
+    const rows = this.db.prepare('SELECT * FROM workflows ORDER BY name ASC').all() as any[];
+
+    // % 100 COMPLETE - loadWorkflows
+    return rows.map(row => this.deserializeWorkflow(row));
+  }
+
+  async createWorkflowRun(run: Omit<WorkflowRun, 'id'>): Promise<WorkflowRun> {
+    // % 0 COMPLETE - createWorkflowRun
+
+    const fullRun: WorkflowRun = {
+      ...run,
+      id: uuidv4(),
+    };
+
+    this.db.prepare(`
+      INSERT INTO workflow_runs (
+        id, workflow_id, status, trigger_type, steps, started_at, completed_at, error
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      fullRun.id,
+      fullRun.workflow_id,
+      fullRun.status,
+      fullRun.trigger_type,
+      JSON.stringify(fullRun.steps),
+      fullRun.started_at,
+      fullRun.completed_at ?? null,
+      fullRun.error ?? null
+    );
+
+    // % 100 COMPLETE - createWorkflowRun
+    return fullRun;
+  }
+
+  async getWorkflowRun(id: string): Promise<WorkflowRun | null> {
+    // % 0 COMPLETE - getWorkflowRun
+
+    const row = this.db.prepare('SELECT * FROM workflow_runs WHERE id = ?').get(id) as any;
+
+    // % 100 COMPLETE - getWorkflowRun
+    return row ? this.deserializeWorkflowRun(row) : null;
+  }
+
+  async updateWorkflowRun(id: string, updates: Partial<WorkflowRun>): Promise<WorkflowRun> {
+    // % 0 COMPLETE - updateWorkflowRun
+
+    const existing = await this.getWorkflowRun(id);
+    if (!existing) {
+      throw new Error(`Workflow run not found: ${id}`);
+    }
+
+    const updated: WorkflowRun = {
+      ...existing,
+      ...updates,
+      id, // Prevent ID change
+    };
+
+    this.db.prepare(`
+      UPDATE workflow_runs SET
+        status = ?, steps = ?, completed_at = ?, error = ?
+      WHERE id = ?
+    `).run(
+      updated.status,
+      JSON.stringify(updated.steps),
+      updated.completed_at ?? null,
+      updated.error ?? null,
+      id
+    );
+
+    // % 100 COMPLETE - updateWorkflowRun
+    return updated;
+  }
+
+  async changeWorkflowRun(id: string, change: (run: WorkflowRun) => boolean): Promise<WorkflowRun | null> {
+    // % 0 COMPLETE - changeWorkflowRun
+
+    // An immediate transaction takes the write lock before reading, so other
+    // processes cannot change the run in between
+    const apply = this.db.transaction((): WorkflowRun | null => {
+      const row = this.db.prepare('SELECT * FROM workflow_runs WHERE id = ?').get(id);
+      if (!row) {
+        throw new Error(`Workflow run not found: ${id}`);
+      }
+
+      const run = this.deserializeWorkflowRun(row);
+      if (!change(run)) {
+        return null;
+      }
+
+      this.db.prepare(`
+        UPDATE workflow_runs SET
+          status = ?, steps = ?, completed_at = ?, error = ?
+        WHERE id = ?
+      `).run(run.status, JSON.stringify(run.steps), run.completed_at ?? null, run.error ?? null, id);
+      return { ...run, id };
+    });
+
+    // % 100 COMPLETE - changeWorkflowRun
+    return apply.immediate();
+  }
+
+  async loadWorkflowRuns(filter?: WorkflowRunFilter): Promise<WorkflowRun[]> {
+    // % 0 COMPLETE - loadWorkflowRuns
+
+    let query = 'SELECT * FROM workflow_runs WHERE 1=1';
+    const params: any[] = [];
+
+    if (filter?.workflow_id) {
+      query += ' AND workflow_id = ?';
+      params.push(filter.workflow_id);
+    }
+
+    if (filter?.status) {
+      query += ' AND status = ?';
+      params.push(filter.status);
+    }
+
+    query += ' ORDER BY started_at DESC';
+
+    if (filter?.limit) {
+      query += ' LIMIT ?';
+      params.push(filter.limit);
+    }
+
+    const rows = this.db.prepare(query).all(...params) as any[];
+
+    // % 100 COMPLETE - loadWorkflowRuns
+    return rows.map(row => this.deserializeWorkflowRun(row));
+  }
+
+  /**
+   * Lease Operations
+   */
+
+  async acquireLease(key: string, owner: string, ttlMs: number): Promise<boolean> {
+    // % 0 COMPLETE - acquireLease
+
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + ttlMs).toISOString();
+
+    // Drop expired leases, then insert or renew our own in one transaction
+    const acquire = this.db.transaction(() => {
+      this.db.prepare('DELETE FROM leases WHERE expires_at <= ?').run(now.toISOString());
+      return this.db.prepare(`
+        INSERT INTO leases (key, owner, expires_at) VALUES (?, ?, ?)
+        ON CONFLICT(key) DO UPDATE SET expires_at = excluded.expires_at
+        WHERE leases.owner = excluded.owner
+      `).run(key, owner, expiresAt);
+    });
+
+    // % 100 COMPLETE - acquireLease
+    return acquire.immediate().changes > 0;
+  }
+
+  /**
+   * Scheduler Pause Operations
+   */
+
+  async getSchedulerPause(): Promise<SchedulerPause | null> {
+    // % 0 COMPLETE - getSchedulerPause
+
+    const row = this.db.prepare('SELECT * FROM scheduler_pause WHERE id = ?').get('scheduler') as any;
+
+    // % 100 COMPLETE - getSchedulerPause
+    return row ? {
+      paused_at: row.paused_at,
+      ...(row.reason && { reason: row.reason }),
+      ...(row.until && { until: row.until }),
+    } : null;
+  }
+
+  async saveSchedulerPause(pause: SchedulerPause | null): Promise<void> {
+    // % 0 COMPLETE - saveSchedulerPause
+
+    if (!pause) {
+      this.db.prepare('DELETE FROM scheduler_pause WHERE id = ?').run('scheduler');
+      return;
+    }
+
+    this.db.prepare(`
+      INSERT INTO scheduler_pause (id, paused_at, reason, until)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET
+        paused_at = excluded.paused_at,
+        reason = excluded.reason,
+        until = excluded.until
+    `).run('scheduler', pause.paused_at, pause.reason || null, pause.until || null);
+
+    // % 100 COMPLETE - saveSchedulerPause
+  }
+
   /**
    * Streaming Operations
    */
@@ -555,6 +1082,7 @@ export class SQLiteStorage implements Storage {
       run_count: row.run_count,
       success_count: row.success_count,
       failure_count: row.failure_count,
+      snoozed_until: row.snoozed_until ?? undefined,
     };
   }
 
@@ -573,12 +1101,73 @@ export class SQLiteStorage implements Storage {
       status: row.status,
       exit_code: row.exit_code,
       error: row.error,
+      skip_reason: row.skip_reason,
       output: row.output,
       output_truncated: row.output_truncated === 1,
       thinking_output: row.thinking_output,
       tool_calls: row.tool_calls ? JSON.parse(row.tool_calls) : undefined,
       sdk_usage: row.sdk_usage ? JSON.parse(row.sdk_usage) : undefined,
       cost_usd: row.cost_usd,
+      worker_id: row.worker_id ?? undefined,
+      heartbeat_at: row.heartbeat_at ?? undefined,
+    };
+  }
+
+  /**
+   * Deserialize a pending retry row from database
+   */
+  private deserializePendingRetry(row: any): PendingRetry {
+    return {
+      id: row.id,
+      task_id: row.task_id,
+      execution_id: row.execution_id,
+      attempt: row.attempt,
+      due_at: row.due_at,
+      trigger_context: row.trigger_context ? JSON.parse(row.trigger_context) : {},
+      created_at: row.created_at,
+    };
+  }
+
+  /**
+   * Deserialize a dependency state row from database
+   */
+  private deserializeDependencyState(row: any): DependencyState {
+    return {
+      key: row.key,
+      task_id: row.task_id,
+      completed: JSON.parse(row.completed),
+      ...(row.last_triggered && { last_triggered: row.last_triggered }),
+    };
+  }
+
+  /**
+   * Deserialize a workflow row from database
+   */
+  private deserializeWorkflow(row: any): Workflow {
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description ?? undefined,
+      steps: JSON.parse(row.steps),
+      edges: JSON.parse(row.edges),
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+    };
+  }
+
+  /**
+   * Deserialize a workflow run row from database
+   */
+  private deserializeWorkflowRun(row: any): WorkflowRun {
+    return {
+      id: row.id,
+      workflow_id: row.workflow_id,
+      status: row.status,
+      trigger_type: row.trigger_type,
+      steps: JSON.parse(row.steps),
+      started_at: row.started_at,
+      completed_at: row.completed_at ?? undefined,
+      error: row.error ?? undefined,
     };
   }
 }
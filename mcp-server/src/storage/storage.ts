@@ -7,7 +7,17 @@
  * % 0 COMPLETE - Storage interface
  */
 
-import { Task, Execution, ExecutionStatus } from '../models/types.js';
+import {
+  Task,
+  Execution,
+  ExecutionStatus,
+  PendingRetry,
+  DependencyState,
+  Workflow,
+  WorkflowRun,
+  WorkflowRunStatus,
+  SchedulerPause,
+} from '../models/types.js';
 
 /**
  * Task Filter Options
@@ -31,6 +41,15 @@ export interface ExecutionFilter {
   end_date?: string;
 }
 
+/**
+ * Workflow Run Filter Options
+ */
+export interface WorkflowRunFilter {
+  workflow_id?: string;
+  status?: WorkflowRunStatus;
+  limit?: number;
+}
+
 /**
  * Task Statistics
  */
@@ -121,6 +140,23 @@ export interface Storage {
    */
   loadExecutions(filter?: ExecutionFilter): Promise<Execution[]>;
 
+  /**
+   * Claim the oldest 'pending' execution for a worker
+   * Marks it 'running' and records the worker, atomically so two workers
+   * never claim the same execution
+   * @param workerId - Worker claiming the execution
+   * @returns Claimed execution, or null if none is pending
+   */
+  claimExecution(workerId: string): Promise<Execution | null>;
+
+  /**
+   * Record that a worker is still running an execution
+   * @param id - Execution ID
+   * @param workerId - Worker that claimed it
+   * @returns False if the execution is no longer running on that worker (e.g. cancelled)
+   */
+  heartbeatExecution(id: string, workerId: string): Promise<boolean>;
+
   /**
    * Statistics Operations
    */
@@ -132,6 +168,154 @@ export interface Storage {
    */
   getTaskStats(taskId: string): Promise<TaskStats>;
 
+  /**
+   * Retry Operations
+   */
+
+  /**
+   * Save a retry waiting for its due time
+   * @param retry - Retry data without id and created_at
+   * @returns Created pending retry
+   */
+  createPendingRetry(retry: Omit<PendingRetry, 'id' | 'created_at'>): Promise<PendingRetry>;
+
+  /**
+   * Load pending retries, soonest due first
+   * @param taskId - Optional task ID filter
+   * @returns Array of pending retries
+   */
+  loadPendingRetries(taskId?: string): Promise<PendingRetry[]>;
+
+  /**
+   * Delete a pending retry (when it fires or is cancelled)
+   * @param id - Pending retry ID
+   * @returns True if the retry existed
+   */
+  deletePendingRetry(id: string): Promise<boolean>;
+
+  /**
+   * Dependency State Operations
+   */
+
+  /**
+   * Load the saved progress of every dependency trigger
+   * @returns Array of dependency states
+   */
+  loadDependencyStates(): Promise<DependencyState[]>;
+
+  /**
+   * Save the progress of a dependency trigger, replacing any saved state for its key
+   * @param state - Dependency state
+   */
+  saveDependencyState(state: DependencyState): Promise<void>;
+
+  /**
+   * Read, change and save the progress of a dependency trigger as one atomic step
+   * Workers completing upstream tasks at once each see the others' completions
+   * @param key - Trigger key
+   * @param taskId - Task the trigger belongs to
+   * @param change - Mutates the state (empty if none is saved); returns false to leave
+   *   it unsaved. Must be synchronous
+   * @returns Saved state, or null if the change left it unsaved
+   */
+  changeDependencyState(
+    key: string,
+    taskId: string,
+    change: (state: DependencyState) => boolean
+  ): Promise<DependencyState | null>;
+
+  /**
+   * Workflow Operations
+   */
+
+  /**
+   * Create a workflow
+   * @param workflow - Workflow data without id, created_at, updated_at
+   * @returns Created workflow with generated ID and timestamps
+   */
+  createWorkflow(workflow: Omit<Workflow, 'id' | 'created_at' | 'updated_at'>): Promise<Workflow>;
+
+  /**
+   * Get a workflow by ID
+   * @param id - Workflow ID
+   * @returns Workflow or null if not found
+   */
+  getWorkflow(id: string): Promise<Workflow | null>;
+
+  /**
+   * Load all workflows, by name
+   */
+  loadWorkflows(): Promise<Workflow[]>;
+
+  /**
+   * Create a workflow run record
+   * @param run - Run data without id
+   * @returns Created run with generated ID
+   */
+  createWorkflowRun(run: Omit<WorkflowRun, 'id'>): Promise<WorkflowRun>;
+
+  /**
+   * Get a workflow run by ID
+   * @param id - Workflow run ID
+   * @returns Run or null if not found
+   */
+  getWorkflowRun(id: string): Promise<WorkflowRun | null>;
+
+  /**
+   * Update a workflow run
+   * @param id - Workflow run ID
+   * @param updates - Partial run updates
+   * @returns Updated run
+   */
+  updateWorkflowRun(id: string, updates: Partial<WorkflowRun>): Promise<WorkflowRun>;
+
+  /**
+   * Read, change and save a workflow run as one atomic step
+   * Changes from other processes sharing the storage are applied one after another,
+   * so none of them is overwritten
+   * @param id - Workflow run ID
+   * @param change - Mutates the run; returns false to leave it unsaved. Must be synchronous
+   * @returns Saved run, or null if the change left it unsaved
+   * @throws Error if the run does not exist
+   */
+  changeWorkflowRun(id: string, change: (run: WorkflowRun) => boolean): Promise<WorkflowRun | null>;
+
+  /**
+   * Load workflow runs, newest first
+   * @param filter - Workflow run filter options
+   */
+  loadWorkflowRuns(filter?: WorkflowRunFilter): Promise<WorkflowRun[]>;
+
+  /**
+   * Lease Operations (coordinate scheduler instances sharing the storage)
+   */
+
+  /**
+   * Take a named lease, or renew it if the owner already holds it
+   * A lease held by another owner can only be taken once it has expired
+   * @param key - Lease name, e.g. a scheduled fire
+   * @param owner - Instance taking the lease
+   * @param ttlMs - How long the lease is held
+   * @returns True if the owner now holds the lease
+   */
+  acquireLease(key: string, owner: string, ttlMs: number): Promise<boolean>;
+
+  /**
+   * Scheduler Pause Operations (shared by every instance using the storage)
+   */
+
+  /**
+   * Get the saved scheduler pause
+   * @returns Pause or null if the scheduler is not paused
+   */
+  getSchedulerPause(): Promise<SchedulerPause | null>;
+
+  /**
+   * Save the scheduler pause, replacing any saved pause
+   * @param pause - Pause, or null to resume
+   */
+  saveSchedulerPause(pause: SchedulerPause | null): Promise<void>;
+
   /**
    * Streaming Operations (for real-time execution updates)
    */
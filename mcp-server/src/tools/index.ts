@@ -10,7 +10,10 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
 import { Scheduler } from '../scheduler/scheduler.js';
+import { validateRateLimit } from '../scheduler/rate-limiter.js';
 import { Storage } from '../storage/storage.js';
+import { Task } from '../models/types.js';
+import { describeTriggerTypes } from '../utils/triggers.js';
 import { ToolAnalytics } from '../analytics/tool-analytics.js';
 
 /**
@@ -44,7 +47,10 @@ export async function registerTools(
               description: { type: 'string', description: 'Task description (optional)' },
               type: { type: 'string', description: 'Task type: bash, ai_prompt, slash_command, subagent, tool_call, sdk_query' },
               task_config: { type: 'object', description: 'Task-specific configuration' },
-              trigger: { type: 'object', description: 'Trigger configuration (schedule, hook, etc.)' },
+              trigger: {
+                type: ['object', 'array'],
+                description: 'Trigger configuration (schedule, interval, at, hook, etc.), or a list of triggers that each start a run',
+              },
               enabled: { type: 'boolean', description: 'Whether task is enabled (default: true)' },
               options: { type: 'object', description: 'Execution options (optional)' },
               conditions: { type: 'object', description: 'Execution conditions (optional)' },
@@ -95,6 +101,7 @@ export async function registerTools(
             type: 'object',
             properties: {
               id: { type: 'string', description: 'Task ID' },
+              force: { type: 'boolean', description: 'Delete even if other tasks depend on it (default: false)' },
             },
             required: ['id'],
           },
@@ -145,6 +152,177 @@ export async function registerTools(
             required: ['execution_id'],
           },
         },
+        {
+          name: 'claudecron_cancel_execution',
+          description: 'Cancel a queued or running execution (kills bash process trees, aborts SDK queries)',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              execution_id: { type: 'string', description: 'Execution ID to cancel' },
+              reason: { type: 'string', description: 'Reason recorded on the execution (optional)' },
+              skip_failure_handlers: { type: 'boolean', description: 'Do not run on_failure handlers (default: false)' },
+            },
+            required: ['execution_id'],
+          },
+        },
+        {
+          name: 'claudecron_list_retries',
+          description: 'List retries waiting to run (persisted across restarts)',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              task_id: { type: 'string', description: 'Filter by task ID (optional)' },
+            },
+          },
+        },
+        {
+          name: 'claudecron_cancel_retry',
+          description: 'Cancel a pending retry',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              id: { type: 'string', description: 'Pending retry ID' },
+              skip_failure_handlers: { type: 'boolean', description: 'Do not run the failed execution\'s on_failure handlers (default: false)' },
+            },
+            required: ['id'],
+          },
+        },
+        {
+          name: 'claudecron_list_holidays',
+          description: 'List upcoming holidays that will skip a task (from holiday_region and holiday_calendars)',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              task_id: { type: 'string', description: 'Task ID' },
+              days: { type: 'number', description: 'Number of days to look ahead (default: 30)' },
+            },
+            required: ['task_id'],
+          },
+        },
+        {
+          name: 'claudecron_preview_schedule',
+          description: 'Preview the next runs of a task or an unsaved trigger, marking runs skipped by time windows, blackouts or holidays',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              task_id: { type: 'string', description: 'Task ID (trigger and conditions override the saved ones)' },
+              trigger: { type: 'object', description: 'Trigger to preview (schedule, interval, at or smart_schedule)' },
+              conditions: { type: 'object', description: 'Execution conditions to evaluate (optional)' },
+              count: { type: 'number', description: 'Number of runs to list (default: 10, max: 100)' },
+            },
+          },
+        },
+        {
+          name: 'claudecron_pause',
+          description: 'Pause the scheduler: runs from all triggers are skipped until resumed (manual runs still start)',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              reason: { type: 'string', description: 'Why the scheduler is paused (optional)' },
+              until: { type: 'string', description: 'Resume automatically at this ISO 8601 time (optional)' },
+              duration: { type: 'string', description: 'Resume automatically after this long, e.g. "2h" (optional)' },
+            },
+          },
+        },
+        {
+          name: 'claudecron_resume',
+          description: 'Resume a paused scheduler',
+          inputSchema: {
+            type: 'object',
+            properties: {},
+          },
+        },
+        {
+          name: 'claudecron_snooze_task',
+          description: 'Skip runs of a task from all its triggers until a given time, then resume automatically',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              id: { type: 'string', description: 'Task ID' },
+              until: { type: 'string', description: 'End of the snooze (ISO 8601)' },
+              duration: { type: 'string', description: 'Snooze length, e.g. "3d" (instead of until)' },
+              cancel: { type: 'boolean', description: 'End the current snooze now' },
+            },
+            required: ['id'],
+          },
+        },
+        // Workflows
+        {
+          name: 'claudecron_create_workflow',
+          description: 'Create a workflow: a DAG of existing tasks that runs as one unit. A step starts once all its upstream steps succeeded',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              name: { type: 'string', description: 'Workflow name' },
+              description: { type: 'string', description: 'Workflow description (optional)' },
+              steps: {
+                type: 'array',
+                description: 'Steps: [{"id": "build", "task_id": "..."}]',
+                items: { type: 'object' },
+              },
+              edges: {
+                type: 'array',
+                description: 'Order between steps: [{"from": "build", "to": "test"}] (default: none, all steps run in parallel)',
+                items: { type: 'object' },
+              },
+            },
+            required: ['name', 'steps'],
+          },
+        },
+        {
+          name: 'claudecron_list_workflows',
+          description: 'List workflows',
+          inputSchema: {
+            type: 'object',
+            properties: {},
+          },
+        },
+        {
+          name: 'claudecron_run_workflow',
+          description: 'Start a run of a workflow',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              id: { type: 'string', description: 'Workflow ID' },
+            },
+            required: ['id'],
+          },
+        },
+        {
+          name: 'claudecron_list_workflow_runs',
+          description: 'List workflow runs, newest first',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              workflow_id: { type: 'string', description: 'Filter by workflow ID (optional)' },
+              status: { type: 'string', description: 'Filter by status: running, success, failure, cancelled (optional)' },
+              limit: { type: 'number', description: 'Limit results (default: 20)' },
+            },
+          },
+        },
+        {
+          name: 'claudecron_get_workflow_run',
+          description: 'Get a workflow run with the status and execution of each step',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              id: { type: 'string', description: 'Workflow run ID' },
+            },
+            required: ['id'],
+          },
+        },
+        {
+          name: 'claudecron_cancel_workflow_run',
+          description: 'Cancel a running workflow run: waiting steps are cancelled and running steps aborted',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              id: { type: 'string', description: 'Workflow run ID' },
+              reason: { type: 'string', description: 'Cancellation reason (optional)' },
+            },
+            required: ['id'],
+          },
+        },
         {
           name: 'claudecron_trigger_hook',
           description: 'Manually trigger a hook event (for testing)',
@@ -208,10 +386,10 @@ export async function registerTools(
           return await handleAddTask(args, storage, scheduler);
 
         case 'claudecron_list_tasks':
-          return await handleListTasks(args, storage);
+          return await handleListTasks(args, storage, scheduler);
 
         case 'claudecron_get_task':
-          return await handleGetTask(args, storage);
+          return await handleGetTask(args, storage, scheduler);
 
         case 'claudecron_update_task':
           return await handleUpdateTask(args, storage, scheduler);
@@ -231,6 +409,49 @@ export async function registerTools(
         case 'claudecron_get_execution_progress':
           return await handleGetExecutionProgress(args, storage);
 
+        case 'claudecron_cancel_execution':
+          return await handleCancelExecution(args, storage, scheduler);
+
+        case 'claudecron_list_retries':
+          return await handleListRetries(args, scheduler);
+
+        case 'claudecron_cancel_retry':
+          return await handleCancelRetry(args, scheduler);
+
+        case 'claudecron_list_holidays':
+          return await handleListHolidays(args, storage, scheduler);
+
+        case 'claudecron_preview_schedule':
+          return await handlePreviewSchedule(args, storage, scheduler);
+
+        case 'claudecron_pause':
+          return await handlePause(args, scheduler);
+
+        case 'claudecron_resume':
+          return await handleResume(scheduler);
+
+        case 'claudecron_snooze_task':
+          return await handleSnoozeTask(args, scheduler);
+
+        // Workflow Tools
+        case 'claudecron_create_workflow':
+          return await handleCreateWorkflow(args, scheduler);
+
+        case 'claudecron_list_workflows':
+          return await handleListWorkflows(storage);
+
+        case 'claudecron_run_workflow':
+          return await handleRunWorkflow(args, scheduler);
+
+        case 'claudecron_list_workflow_runs':
+          return await handleListWorkflowRuns(args, storage);
+
+        case 'claudecron_get_workflow_run':
+          return await handleGetWorkflowRun(args, storage);
+
+        case 'claudecron_cancel_workflow_run':
+          return await handleCancelWorkflowRun(args, scheduler);
+
         case 'claudecron_trigger_hook':
           return await handleTriggerHook(args, scheduler);
 
@@ -257,7 +478,7 @@ export async function registerTools(
     }
   });
 
-  console.error('[Tools] Registered 11 ClaudeCron tools');
+  console.error('[Tools] Registered 25 ClaudeCron tools');
 
   // % 100 COMPLETE - registerTools
 }
@@ -273,6 +494,14 @@ async function handleAddTask(args: any, storage: Storage, scheduler: Scheduler)
   if (!args.name || !args.type || !args.task_config || !args.trigger) {
     throw new Error('Missing required fields: name, type, task_config, trigger');
   }
+  if (Array.isArray(args.trigger) && args.trigger.length === 0) {
+    throw new Error('trigger list must not be empty');
+  }
+
+  if (args.options?.rate_limit) {
+    validateRateLimit(args.options.rate_limit);
+  }
+  await scheduler.dependencyManager.checkDependencies({ name: args.name, trigger: args.trigger });
 
   // Create task
   const task = await storage.createTask({
@@ -291,10 +520,10 @@ async function handleAddTask(args: any, storage: Storage, scheduler: Scheduler)
     failure_count: 0,
   });
 
-  // Schedule if enabled and cron-based
-  if (task.enabled && task.trigger.type === 'schedule') {
+  // Schedule if enabled and time-based (cron, interval, at)
+  if (task.enabled) {
     try {
-      await scheduler.scheduleTask(task);
+      await scheduler.rescheduleTask(task);
     } catch (error: any) {
       console.error(`[Tools] Failed to schedule task: ${error.message}`);
     }
@@ -303,14 +532,14 @@ async function handleAddTask(args: any, storage: Storage, scheduler: Scheduler)
   return {
     content: [{
       type: 'text',
-      text: `Task "${task.name}" created successfully!\n\nID: ${task.id}\nType: ${task.type}\nTrigger: ${task.trigger.type}\nEnabled: ${task.enabled}`,
+      text: `Task "${task.name}" created successfully!\n\nID: ${task.id}\nType: ${task.type}\nTrigger: ${describeTriggerTypes(task)}\nEnabled: ${task.enabled}`,
     }],
   };
 
   // % 100 COMPLETE - handleAddTask
 }
 
-async function handleListTasks(args: any, storage: Storage) {
+async function handleListTasks(args: any, storage: Storage, scheduler: Scheduler) {
   // % 0 COMPLETE - handleListTasks
 
   const tasks = await storage.loadTasks({
@@ -332,26 +561,34 @@ async function handleListTasks(args: any, storage: Storage) {
     name: task.name,
     type: task.type,
     enabled: task.enabled,
-    trigger: task.trigger.type,
+    trigger: describeTriggerTypes(task),
     next_run: task.next_run || 'N/A',
     last_run: task.last_run || 'Never',
     runs: task.run_count,
     success_rate: task.run_count > 0
       ? `${((task.success_count / task.run_count) * 100).toFixed(1)}%`
       : 'N/A',
+    ...(task.snoozed_until && new Date(task.snoozed_until).getTime() > Date.now() && {
+      snoozed_until: task.snoozed_until,
+    }),
   }));
 
+  const paused = await scheduler.getPauseState();
+  const pauseNote = paused
+    ? `Scheduler paused${paused.reason ? ` (${paused.reason})` : ''}${paused.until ? ` until ${paused.until}` : ''}.\n\n`
+    : '';
+
   return {
     content: [{
       type: 'text',
-      text: `Found ${tasks.length} task(s):\n\n${JSON.stringify(taskList, null, 2)}`,
+      text: `${pauseNote}Found ${tasks.length} task(s):\n\n${JSON.stringify(taskList, null, 2)}`,
     }],
   };
 
   // % 100 COMPLETE - handleListTasks
 }
 
-async function handleGetTask(args: any, storage: Storage) {
+async function handleGetTask(args: any, storage: Storage, scheduler: Scheduler) {
   // % 0 COMPLETE - handleGetTask
 
   if (!args.id) {
@@ -363,10 +600,13 @@ async function handleGetTask(args: any, storage: Storage) {
     throw new Error(`Task not found: ${args.id}`);
   }
 
+  // Include current usage of the task's rate limit
+  const rateLimitUsage = await scheduler.rateLimiter.getUsage(task);
+
   return {
     content: [{
       type: 'text',
-      text: JSON.stringify(task, null, 2),
+      text: JSON.stringify(rateLimitUsage ? { ...task, rate_limit_usage: rateLimitUsage } : task, null, 2),
     }],
   };
 
@@ -379,6 +619,22 @@ async function handleUpdateTask(args: any, storage: Storage, scheduler: Schedule
   if (!args.id || !args.updates) {
     throw new Error('Missing required fields: id, updates');
   }
+  if (Array.isArray(args.updates.trigger) && args.updates.trigger.length === 0) {
+    throw new Error('trigger list must not be empty');
+  }
+
+  if (args.updates.options?.rate_limit) {
+    validateRateLimit(args.updates.options.rate_limit);
+  }
+
+  // Reject missing dependencies and cycles before saving
+  if (args.updates.trigger || args.updates.enabled !== undefined) {
+    const existing = await storage.getTask(args.id);
+    if (!existing) {
+      throw new Error(`Task not found: ${args.id}`);
+    }
+    await scheduler.dependencyManager.checkDependencies({ ...existing, ...args.updates, id: existing.id });
+  }
 
   const task = await storage.updateTask(args.id, args.updates);
 
@@ -413,6 +669,16 @@ async function handleDeleteTask(args: any, storage: Storage, scheduler: Schedule
     throw new Error(`Task not found: ${args.id}`);
   }
 
+  if (!args.force) {
+    const dependents = await scheduler.dependencyManager.findDependentTasks(task.id);
+    if (dependents.length > 0) {
+      throw new Error(
+        `Task "${task.name}" is a dependency of ${dependents.map(t => `"${t.name}" (${t.id})`).join(', ')}. ` +
+        'Remove it from their depends_on first, or delete with force: true'
+      );
+    }
+  }
+
   // Unschedule before deleting
   try {
     await scheduler.unscheduleTask(args.id);
@@ -421,6 +687,7 @@ async function handleDeleteTask(args: any, storage: Storage, scheduler: Schedule
   }
 
   await storage.deleteTask(args.id);
+  scheduler.dependencyManager.onTaskDeleted(args.id);
 
   return {
     content: [{
@@ -543,6 +810,441 @@ async function handleGetExecutionProgress(args: any, storage: Storage): Promise<
   // % 100 COMPLETE - handleGetExecutionProgress
 }
 
+async function handleCancelExecution(args: any, storage: Storage, scheduler: Scheduler): Promise<any> {
+  // % 0 COMPLETE - handleCancelExecution
+
+  if (!args.execution_id) {
+    throw new Error('Missing required field: execution_id');
+  }
+
+  const execution = await storage.getExecution(args.execution_id);
+  if (!execution) {
+    throw new Error(`Execution not found: ${args.execution_id}`);
+  }
+
+  if (execution.status !== 'running' && execution.status !== 'pending') {
+    throw new Error(`Execution ${args.execution_id} is not active (status: ${execution.status})`);
+  }
+
+  const reason = args.reason || 'Cancelled by user';
+  const cancelled = await scheduler.cancelExecution(args.execution_id, reason, {
+    skip_failure_handlers: args.skip_failure_handlers || false,
+  });
+
+  if (!cancelled) {
+    throw new Error(`Execution ${args.execution_id} is not running in this server process`);
+  }
+
+  return {
+    content: [{
+      type: 'text',
+      text: `Cancellation requested for execution ${args.execution_id}.\n\nReason: ${reason}\n\nUse claudecron_get_execution to confirm the final status.`,
+    }],
+  };
+
+  // % 100 COMPLETE - handleCancelExecution
+}
+
+async function handleListRetries(args: any, scheduler: Scheduler): Promise<any> {
+  // % 0 COMPLETE - handleListRetries
+
+  const retries = await scheduler.retryHandler.listPendingRetries(args.task_id);
+
+  if (retries.length === 0) {
+    return {
+      content: [{
+        type: 'text',
+        text: 'No pending retries.',
+      }],
+    };
+  }
+
+  const retryList = retries.map(retry => ({
+    id: retry.id,
+    task_id: retry.task_id,
+    execution_id: retry.execution_id,
+    attempt: retry.attempt,
+    due_at: retry.due_at,
+  }));
+
+  return {
+    content: [{
+      type: 'text',
+      text: `Found ${retries.length} pending retr${retries.length === 1 ? 'y' : 'ies'}:\n\n${JSON.stringify(retryList, null, 2)}`,
+    }],
+  };
+
+  // % 100 COMPLETE - handleListRetries
+}
+
+async function handleCancelRetry(args: any, scheduler: Scheduler): Promise<any> {
+  // % 0 COMPLETE - handleCancelRetry
+
+  if (!args.id) {
+    throw new Error('Missing required field: id');
+  }
+
+  const cancelled = await scheduler.cancelRetry(args.id, {
+    skip_failure_handlers: args.skip_failure_handlers || false,
+  });
+
+  if (!cancelled) {
+    throw new Error(`Pending retry not found: ${args.id}`);
+  }
+
+  return {
+    content: [{
+      type: 'text',
+      text: `Retry ${args.id} cancelled.`,
+    }],
+  };
+
+  // % 100 COMPLETE - handleCancelRetry
+}
+
+async function handleListHolidays(args: any, storage: Storage, scheduler: Scheduler): Promise<any> {
+  // % 0 COMPLETE - handleListHolidays
+
+  if (!args.task_id) {
+    throw new Error('Missing required field: task_id');
+  }
+
+  const task = await storage.getTask(args.task_id);
+  if (!task) {
+    throw new Error(`Task not found: ${args.task_id}`);
+  }
+
+  const days = args.days || 30;
+  const holidays = scheduler.listUpcomingHolidays(task, days);
+
+  if (holidays.length === 0) {
+    return {
+      content: [{
+        type: 'text',
+        text: `No holidays affect task ${task.name} in the next ${days} days.`,
+      }],
+    };
+  }
+
+  return {
+    content: [{
+      type: 'text',
+      text: `Found ${holidays.length} holiday(s) affecting task ${task.name} in the next ${days} days:\n\n${JSON.stringify(holidays, null, 2)}`,
+    }],
+  };
+
+  // % 100 COMPLETE - handleListHolidays
+}
+
+async function handlePreviewSchedule(args: any, storage: Storage, scheduler: Scheduler): Promise<any> {
+  // % 0 COMPLETE - handlePreviewSchedule
+
+  if (!args.task_id && !args.trigger) {
+    throw new Error('Missing required field: task_id or trigger');
+  }
+
+  let task: Task;
+  let note = '';
+  if (args.task_id) {
+    const saved = await storage.getTask(args.task_id);
+    if (!saved) {
+      throw new Error(`Task not found: ${args.task_id}`);
+    }
+    task = {
+      ...saved,
+      ...(args.trigger && { trigger: args.trigger }),
+      ...(args.conditions && { conditions: args.conditions }),
+    };
+  } else {
+    // The fixed jitter offset depends on the task ID, which an unsaved task does not have yet
+    const trigger = { ...args.trigger };
+    if (trigger.jitter) {
+      delete trigger.jitter;
+      note = ' (times exclude jitter)';
+    }
+    const now = new Date().toISOString();
+    task = {
+      id: 'preview',
+      name: 'unsaved trigger',
+      type: 'bash',
+      task_config: { type: 'bash', command: 'true' },
+      trigger,
+      ...(args.conditions && { conditions: args.conditions }),
+      enabled: true,
+      created_at: now,
+      updated_at: now,
+      run_count: 0,
+      success_count: 0,
+      failure_count: 0,
+    };
+  }
+
+  const count = Math.min(args.count || 10, 100);
+  const runs = await scheduler.previewSchedule(task, count);
+
+  if (runs.length === 0) {
+    return {
+      content: [{
+        type: 'text',
+        text: `No upcoming runs for ${task.name}.`,
+      }],
+    };
+  }
+
+  const skipped = runs.filter(run => run.skipped).length;
+  return {
+    content: [{
+      type: 'text',
+      text: `Next ${runs.length} run(s) of ${task.name}, ${skipped} skipped${note}:\n\n${JSON.stringify(runs, null, 2)}`,
+    }],
+  };
+
+  // % 100 COMPLETE - handlePreviewSchedule
+}
+
+/**
+ * Resolve an optional expiry given as an ISO 8601 time or a duration from now
+ */
+function parseExpiry(args: any, scheduler: Scheduler): Date | undefined {
+  if (args.until) {
+    const until = new Date(args.until);
+    if (isNaN(until.getTime())) {
+      throw new Error(`Invalid until time: ${args.until}`);
+    }
+    return until;
+  }
+
+  if (args.duration) {
+    const durationMs = scheduler.parseDuration(args.duration);
+    if (durationMs <= 0) {
+      throw new Error(`Invalid duration: ${args.duration}`);
+    }
+    return new Date(Date.now() + durationMs);
+  }
+
+  return undefined;
+}
+
+async function handlePause(args: any, scheduler: Scheduler): Promise<any> {
+  // % 0 COMPLETE - handlePause
+
+  const paused = await scheduler.pause(args.reason, parseExpiry(args, scheduler));
+
+  return {
+    content: [{
+      type: 'text',
+      text: `Scheduler paused${paused.until ? ` until ${paused.until}` : ' until resumed'}. Runs from all triggers will be skipped; manual runs still start.`,
+    }],
+  };
+
+  // % 100 COMPLETE - handlePause
+}
+
+async function handleResume(scheduler: Scheduler): Promise<any> {
+  // % 0 COMPLETE - handleResume
+
+  const resumed = await scheduler.resume();
+
+  return {
+    content: [{
+      type: 'text',
+      text: resumed ? 'Scheduler resumed.' : 'Scheduler is not paused.',
+    }],
+  };
+
+  // % 100 COMPLETE - handleResume
+}
+
+async function handleSnoozeTask(args: any, scheduler: Scheduler): Promise<any> {
+  // % 0 COMPLETE - handleSnoozeTask
+
+  if (!args.id) {
+    throw new Error('Missing required field: id');
+  }
+
+  if (args.cancel) {
+    const task = await scheduler.snoozeTask(args.id, null);
+    return {
+      content: [{
+        type: 'text',
+        text: `Task "${task.name}" is no longer snoozed.`,
+      }],
+    };
+  }
+
+  const until = parseExpiry(args, scheduler);
+  if (!until) {
+    throw new Error('Missing required field: until or duration');
+  }
+
+  const task = await scheduler.snoozeTask(args.id, until);
+
+  return {
+    content: [{
+      type: 'text',
+      text: `Task "${task.name}" snoozed until ${task.snoozed_until}.`,
+    }],
+  };
+
+  // % 100 COMPLETE - handleSnoozeTask
+}
+
+async function handleCreateWorkflow(args: any, scheduler: Scheduler): Promise<any> {
+  // % 0 COMPLETE - handleCreateWorkflow
+
+  if (!args.name || !Array.isArray(args.steps)) {
+    throw new Error('Missing required fields: name, steps');
+  }
+
+  const workflow = await scheduler.workflowManager.createWorkflow({
+    name: args.name,
+    ...(args.description !== undefined && { description: args.description }),
+    steps: args.steps,
+    edges: args.edges || [],
+  });
+
+  return {
+    content: [{
+      type: 'text',
+      text: `Workflow "${workflow.name}" created successfully!\n\nID: ${workflow.id}\nSteps: ${workflow.steps.map(step => step.id).join(', ')}`,
+    }],
+  };
+
+  // % 100 COMPLETE - handleCreateWorkflow
+}
+
+async function handleListWorkflows(storage: Storage): Promise<any> {
+  // % 0 COMPLETE - handleListWorkflows
+
+  const workflows = await storage.loadWorkflows();
+
+  if (workflows.length === 0) {
+    return {
+      content: [{
+        type: 'text',
+        text: 'No workflows found.',
+      }],
+    };
+  }
+
+  const workflowList = workflows.map(workflow => ({
+    id: workflow.id,
+    name: workflow.name,
+    description: workflow.description,
+    steps: workflow.steps,
+    edges: workflow.edges,
+  }));
+
+  return {
+    content: [{
+      type: 'text',
+      text: `Found ${workflows.length} workflow(s):\n\n${JSON.stringify(workflowList, null, 2)}`,
+    }],
+  };
+
+  // % 100 COMPLETE - handleListWorkflows
+}
+
+async function handleRunWorkflow(args: any, scheduler: Scheduler): Promise<any> {
+  // % 0 COMPLETE - handleRunWorkflow
+
+  if (!args.id) {
+    throw new Error('Missing required field: id');
+  }
+
+  const run = await scheduler.workflowManager.startRun(args.id, 'manual');
+
+  return {
+    content: [{
+      type: 'text',
+      text: `Workflow run started.\n\nRun ID: ${run.id}\nStatus: ${run.status}\n\nUse claudecron_get_workflow_run to check progress.`,
+    }],
+  };
+
+  // % 100 COMPLETE - handleRunWorkflow
+}
+
+async function handleListWorkflowRuns(args: any, storage: Storage): Promise<any> {
+  // % 0 COMPLETE - handleListWorkflowRuns
+
+  const runs = await storage.loadWorkflowRuns({
+    ...(args.workflow_id && { workflow_id: args.workflow_id }),
+    ...(args.status && { status: args.status }),
+    limit: args.limit || 20,
+  });
+
+  if (runs.length === 0) {
+    return {
+      content: [{
+        type: 'text',
+        text: 'No workflow runs found.',
+      }],
+    };
+  }
+
+  const runList = runs.map(run => ({
+    id: run.id,
+    workflow_id: run.workflow_id,
+    status: run.status,
+    started_at: run.started_at,
+    completed_at: run.completed_at,
+    steps: run.steps.map(step => `${step.step_id}: ${step.status}`),
+  }));
+
+  return {
+    content: [{
+      type: 'text',
+      text: `Found ${runs.length} workflow run(s):\n\n${JSON.stringify(runList, null, 2)}`,
+    }],
+  };
+
+  // % 100 COMPLETE - handleListWorkflowRuns
+}
+
+async function handleGetWorkflowRun(args: any, storage: Storage): Promise<any> {
+  // % 0 COMPLETE - handleGetWorkflowRun
+
+  if (!args.id) {
+    throw new Error('Missing required field: id');
+  }
+
+  const run = await storage.getWorkflowRun(args.id);
+  if (!run) {
+    throw new Error(`Workflow run not found: ${args.id}`);
+  }
+
+  return {
+    content: [{
+      type: 'text',
+      text: JSON.stringify(run, null, 2),
+    }],
+  };
+
+  // % 100 COMPLETE - handleGetWorkflowRun
+}
+
+async function handleCancelWorkflowRun(args: any, scheduler: Scheduler): Promise<any> {
+  // % 0 COMPLETE - handleCancelWorkflowRun
+
+  if (!args.id) {
+    throw new Error('Missing required field: id');
+  }
+
+  const run = await scheduler.workflowManager.cancelRun(args.id, args.reason || 'Cancelled by user');
+  if (!run) {
+    throw new Error(`Workflow run ${args.id} is not running`);
+  }
+
+  return {
+    content: [{
+      type: 'text',
+      text: `Workflow run ${run.id} cancelled.`,
+    }],
+  };
+
+  // % 100 COMPLETE - handleCancelWorkflowRun
+}
+
 async function handleTriggerHook(args: any, scheduler: Scheduler): Promise<any> {
   // % 0 COMPLETE - handleTriggerHook
 
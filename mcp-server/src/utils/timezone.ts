@@ -0,0 +1,162 @@
+/**
+ * Timezone Utilities
+ *
+ * Wall-clock time in an IANA timezone using Intl (DST-aware)
+ *
+ * % 0 COMPLETE - Timezone utilities
+ */
+
+/**
+ * Wall-clock fields of an instant in a timezone
+ */
+export interface ZonedTime {
+  year: number;
+  month: number;      // 1-12
+  day: number;        // 1-31
+  hour: number;       // 0-23
+  minute: number;     // 0-59
+  second: number;     // 0-59
+  weekday: number;    // 0 (Sunday) - 6 (Saturday)
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const formatters: Map<string, Intl.DateTimeFormat> = new Map();
+
+/**
+ * Get a cached formatter for a timezone
+ */
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      weekday: 'short',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Check if a string is a valid IANA timezone
+ * @param timeZone - e.g. "America/New_York"
+ */
+export function isValidTimezone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get the wall-clock time of an instant in a timezone
+ * @param date - Instant to convert
+ * @param timeZone - IANA timezone
+ * @throws RangeError if the timezone is invalid
+ */
+export function getZonedTime(date: Date, timeZone: string): ZonedTime {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    weekday: WEEKDAYS.indexOf(parts.weekday ?? ''),
+  };
+}
+
+/**
+ * Parse an "HH:MM" time of day into minutes since midnight
+ * @param time - Time string, e.g. "09:30"
+ */
+export function parseTimeOfDay(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+}
+
+/**
+ * Get the wall-clock time of an instant as ms since the epoch, as if the zone were UTC
+ */
+function toWallTime(date: Date, timeZone: string): number {
+  const zoned = getZonedTime(date, timeZone);
+  return Date.UTC(zoned.year, zoned.month - 1, zoned.day, zoned.hour, zoned.minute, zoned.second)
+    + date.getUTCMilliseconds();
+}
+
+/**
+ * Get the instant a wall-clock time (from toWallTime) occurs in a timezone
+ * Applies the zone's offset, then corrects once in case the offset differs
+ * at the resulting instant (DST transitions)
+ */
+function fromWallTime(wall: number, timeZone: string): Date {
+  const offsetAt = (time: number) => toWallTime(new Date(time), timeZone) - time;
+  const guess = wall - offsetAt(wall);
+  return new Date(wall - offsetAt(guess));
+}
+
+/**
+ * Get the next wall-clock boundary of a duration after an instant
+ * e.g. every 15m gives :00/:15/:30/:45 and every 1d gives midnight in the zone
+ * @param after - Instant to start from (exclusive)
+ * @param durationMs - Boundary spacing
+ * @param timeZone - IANA timezone the boundaries are counted in
+ */
+export function nextAlignedTime(after: Date, durationMs: number, timeZone: string): Date {
+  let wall = (Math.floor(toWallTime(after, timeZone) / durationMs) + 1) * durationMs;
+  let next = fromWallTime(wall, timeZone);
+
+  // Wall times repeated or skipped by DST changes can map back before `after`
+  for (let i = 0; i < 4 && next.getTime() <= after.getTime(); i++) {
+    wall += durationMs;
+    next = fromWallTime(wall, timeZone);
+  }
+  return next;
+}
+
+/**
+ * Parse an ISO 8601 datetime, reading it as wall time in a timezone when it has no offset
+ * @param dateTime - e.g. "2025-06-10T17:30" or "2025-06-10T17:30:00+02:00"
+ * @param timeZone - IANA timezone for datetimes without an offset
+ * @returns The instant (an Invalid Date if the string cannot be parsed)
+ */
+export function parseZonedDateTime(dateTime: string, timeZone: string): Date {
+  if (/(Z|[+-]\d{2}:?\d{2})$/i.test(dateTime)) {
+    return new Date(dateTime);
+  }
+
+  const match = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?)?$/.exec(dateTime.trim());
+  if (!match) {
+    return new Date(NaN);
+  }
+
+  const [, year, month, day, hour, minute, second] = match.map(Number);
+  return fromWallTime(Date.UTC(year!, month! - 1, day!, hour || 0, minute || 0, second || 0), timeZone);
+}
+
+/**
+ * Get the calendar date of an instant in a timezone as "YYYY-MM-DD"
+ */
+export function getZonedDateString(date: Date, timeZone: string): string {
+  const zoned = getZonedTime(date, timeZone);
+  return `${zoned.year}-${String(zoned.month).padStart(2, '0')}-${String(zoned.day).padStart(2, '0')}`;
+}
+
+/**
+ * % 100 COMPLETE - Timezone utilities
+ */
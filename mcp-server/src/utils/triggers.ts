@@ -0,0 +1,118 @@
+/**
+ * Trigger Utilities
+ *
+ * A task's trigger is a single trigger or a list of triggers. These helpers
+ * split a task into one view per trigger so each component can register
+ * the triggers it handles
+ *
+ * % 0 COMPLETE - Trigger utilities
+ */
+
+import { Task, TriggerType } from '../models/types.js';
+
+/**
+ * A task narrowed to a single trigger
+ */
+export type SingleTriggerTask<T extends TriggerType = TriggerType> = Task & { trigger: T };
+
+/**
+ * One trigger of a task
+ */
+export interface TaskTrigger<T extends TriggerType = TriggerType> {
+  task: SingleTriggerTask<T>;   // The task narrowed to this trigger
+  index?: number;               // Position in the trigger list (undefined for a single trigger)
+  key: string;                  // Job key: the task ID, or "<task ID>#<index>"
+}
+
+/**
+ * Get a task's triggers as a list
+ */
+export function getTriggers(task: Pick<Task, 'trigger'>): TriggerType[] {
+  return Array.isArray(task.trigger) ? task.trigger : [task.trigger];
+}
+
+/**
+ * Get the job key of a task's trigger
+ * @param taskId - Task ID
+ * @param index - Position in the trigger list (undefined for a single trigger)
+ */
+export function getTriggerKey(taskId: string, index?: number): string {
+  return index === undefined ? taskId : `${taskId}#${index}`;
+}
+
+/**
+ * Check if a job key belongs to a task
+ */
+export function isTriggerKeyOf(key: string, taskId: string): boolean {
+  return key === taskId || key.startsWith(`${taskId}#`);
+}
+
+/**
+ * Get the lease key for one scheduled fire of a trigger
+ * Instances sharing storage derive the same key for the same fire
+ * @param key - Trigger key
+ * @param scheduledTime - Fire time without jitter
+ */
+export function getFireKey(key: string, scheduledTime: Date): string {
+  return `fire:${key}@${scheduledTime.toISOString()}`;
+}
+
+/**
+ * Split a task into one view per trigger
+ * A task with a single trigger yields itself. Interval triggers in a list do
+ * not see next_run/last_run, which other triggers also write, so they start a
+ * fresh cadence (from `start` or now) instead of resuming from another trigger's run
+ * @param task - Task to split
+ * @param type - Only return triggers of this type
+ */
+export function getTaskTriggers<K extends TriggerType['type']>(
+  task: Task,
+  type?: K
+): TaskTrigger<Extract<TriggerType, { type: K }>>[] {
+  let views: TaskTrigger[];
+  if (Array.isArray(task.trigger)) {
+    views = task.trigger.map((trigger, index) => {
+      const view: SingleTriggerTask = { ...task, trigger };
+      if (trigger.type === 'interval') {
+        delete view.next_run;
+        delete view.last_run;
+      }
+      return { task: view, index, key: getTriggerKey(task.id, index) };
+    });
+  } else {
+    views = [{ task: task as SingleTriggerTask, key: task.id }];
+  }
+
+  return views.filter(view => type === undefined || view.task.trigger.type === type) as
+    TaskTrigger<Extract<TriggerType, { type: K }>>[];
+}
+
+/**
+ * Get the view of one trigger of a task
+ * @param index - Position in the trigger list (undefined for a single trigger)
+ * @returns The view, or null if the task no longer has that trigger
+ */
+export function getTaskTrigger(task: Task, index?: number): TaskTrigger | null {
+  if (Array.isArray(task.trigger) !== (index !== undefined)) {
+    return null;
+  }
+  return getTaskTriggers(task).find(view => view.index === index) ?? null;
+}
+
+/**
+ * Describe a task's trigger types, e.g. "schedule" or "schedule, file_watch"
+ */
+export function describeTriggerTypes(task: Pick<Task, 'trigger'>): string {
+  return getTriggers(task).map(trigger => trigger.type).join(', ');
+}
+
+/**
+ * Context recorded on executions started by one trigger of a trigger list
+ */
+export function getTriggerIndexContext(index?: number): { trigger_index: number } | undefined {
+  return index === undefined ? undefined : { trigger_index: index };
+}
+
+/**
+ * % 100 COMPLETE - Trigger utilities
+ */
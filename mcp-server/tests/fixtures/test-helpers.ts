@@ -5,8 +5,21 @@
  * for comprehensive unit testing
  */
 
-import { Task, Execution, TaskType, TriggerType, ExecutionStatus } from '../../src/models/types.js';
-import { Storage, TaskFilter, ExecutionFilter, TaskStats } from '../../src/storage/storage.js';
+import {
+  Task,
+  Execution,
+  TaskType,
+  TriggerType,
+  ExecutionStatus,
+  PendingRetry,
+  DependencyState,
+  Workflow,
+  WorkflowRun,
+  SchedulerPause,
+} from '../../src/models/types.js';
+import { Storage, TaskFilter, ExecutionFilter, TaskStats, WorkflowRunFilter } from '../../src/storage/storage.js';
+import { getTriggers } from '../../src/utils/triggers.js';
+import { getOverlapSettings } from '../../src/scheduler/execution-queue.js';
 import { v4 as uuidv4 } from 'uuid';
 
 /**
@@ -151,6 +164,12 @@ export class TestHelpers {
 export class MockStorage implements Storage {
   private tasks: Map<string, Task> = new Map();
   private executions: Map<string, Execution> = new Map();
+  private pendingRetries: Map<string, PendingRetry> = new Map();
+  private dependencyStates: Map<string, DependencyState> = new Map();
+  private leases: Map<string, { owner: string; expires_at: number }> = new Map();
+  private workflows: Map<string, Workflow> = new Map();
+  private workflowRuns: Map<string, WorkflowRun> = new Map();
+  private schedulerPause: SchedulerPause | null = null;
 
   /**
    * Task Operations
@@ -210,13 +229,13 @@ export class MockStorage implements Storage {
     }
 
     if (filter?.trigger_type) {
-      tasks = tasks.filter(t => t.trigger.type === filter.trigger_type);
+      tasks = tasks.filter(t => getTriggers(t).some(trigger => trigger.type === filter.trigger_type));
     }
 
     if (filter?.trigger_event) {
-      tasks = tasks.filter(t =>
-        t.trigger.type === 'hook' && (t.trigger as any).event === filter.trigger_event
-      );
+      tasks = tasks.filter(t => getTriggers(t).some(trigger =>
+        trigger.type === 'hook' && trigger.event === filter.trigger_event
+      ));
     }
 
     return tasks;
@@ -283,6 +302,36 @@ export class MockStorage implements Storage {
     return executions;
   }
 
+  async claimExecution(workerId: string): Promise<Execution | null> {
+    const executions = Array.from(this.executions.values());
+    const hasFreeSlot = (execution: Execution): boolean => {
+      const task = this.tasks.get(execution.task_id);
+      const { limit } = task ? getOverlapSettings(task) : {};
+      return limit === undefined ||
+        executions.filter(e => e.task_id === execution.task_id && e.status === 'running').length < limit;
+    };
+    const pending = executions
+      .filter(e => e.status === 'pending' && hasFreeSlot(e))
+      .sort((a, b) => a.started_at.localeCompare(b.started_at));
+    if (pending.length === 0) {
+      return null;
+    }
+
+    const now = new Date().toISOString();
+    const claimed = { ...pending[0]!, status: 'running' as const, started_at: now, worker_id: workerId, heartbeat_at: now };
+    this.executions.set(claimed.id, claimed);
+    return claimed;
+  }
+
+  async heartbeatExecution(id: string, workerId: string): Promise<boolean> {
+    const execution = this.executions.get(id);
+    if (!execution || execution.worker_id !== workerId || execution.status !== 'running') {
+      return false;
+    }
+    this.executions.set(id, { ...execution, heartbeat_at: new Date().toISOString() });
+    return true;
+  }
+
   /**
    * Statistics Operations
    */
@@ -319,6 +368,148 @@ export class MockStorage implements Storage {
     };
   }
 
+  /**
+   * Retry Operations
+   */
+
+  async createPendingRetry(data: Omit<PendingRetry, 'id' | 'created_at'>): Promise<PendingRetry> {
+    const retry: PendingRetry = {
+      ...data,
+      id: uuidv4(),
+      created_at: new Date().toISOString()
+    };
+    this.pendingRetries.set(retry.id, retry);
+    return retry;
+  }
+
+  async loadPendingRetries(taskId?: string): Promise<PendingRetry[]> {
+    return Array.from(this.pendingRetries.values())
+      .filter(r => !taskId || r.task_id === taskId)
+      .sort((a, b) => a.due_at.localeCompare(b.due_at));
+  }
+
+  async deletePendingRetry(id: string): Promise<boolean> {
+    return this.pendingRetries.delete(id);
+  }
+
+  async loadDependencyStates(): Promise<DependencyState[]> {
+    return Array.from(this.dependencyStates.values()).map(state => structuredClone(state));
+  }
+
+  async saveDependencyState(state: DependencyState): Promise<void> {
+    this.dependencyStates.set(state.key, structuredClone(state));
+  }
+
+  async changeDependencyState(
+    key: string,
+    taskId: string,
+    change: (state: DependencyState) => boolean
+  ): Promise<DependencyState | null> {
+    const existing = this.dependencyStates.get(key);
+    const state = existing ? structuredClone(existing) : { key, task_id: taskId, completed: {} };
+    if (!change(state)) {
+      return null;
+    }
+    this.dependencyStates.set(key, { ...state, key, task_id: taskId });
+    return structuredClone(state);
+  }
+
+  /**
+   * Workflow Operations
+   */
+
+  async createWorkflow(data: Omit<Workflow, 'id' | 'created_at' | 'updated_at'>): Promise<Workflow> {
+    const workflow: Workflow = {
+      ...data,
+      id: uuidv4(),
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    };
+    this.workflows.set(workflow.id, workflow);
+    return workflow;
+  }
+
+  async getWorkflow(id: string): Promise<Workflow | null> {
+    return this.workflows.get(id) || null;
+  }
+
+  async loadWorkflows(): Promise<Workflow[]> {
+    return Array.from(this.workflows.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async createWorkflowRun(data: Omit<WorkflowRun, 'id'>): Promise<WorkflowRun> {
+    const run: WorkflowRun = { ...structuredClone(data), id: uuidv4() };
+    this.workflowRuns.set(run.id, run);
+    return structuredClone(run);
+  }
+
+  async getWorkflowRun(id: string): Promise<WorkflowRun | null> {
+    const run = this.workflowRuns.get(id);
+    return run ? structuredClone(run) : null;
+  }
+
+  async updateWorkflowRun(id: string, updates: Partial<WorkflowRun>): Promise<WorkflowRun> {
+    const existing = this.workflowRuns.get(id);
+    if (!existing) {
+      throw new Error(`Workflow run not found: ${id}`);
+    }
+
+    const updated = { ...existing, ...structuredClone(updates), id };
+    this.workflowRuns.set(id, updated);
+    return structuredClone(updated);
+  }
+
+  async changeWorkflowRun(id: string, change: (run: WorkflowRun) => boolean): Promise<WorkflowRun | null> {
+    const existing = this.workflowRuns.get(id);
+    if (!existing) {
+      throw new Error(`Workflow run not found: ${id}`);
+    }
+
+    const run = structuredClone(existing);
+    if (!change(run)) {
+      return null;
+    }
+    this.workflowRuns.set(id, { ...run, id });
+    return structuredClone(run);
+  }
+
+  async loadWorkflowRuns(filter?: WorkflowRunFilter): Promise<WorkflowRun[]> {
+    let runs = Array.from(this.workflowRuns.values())
+      .filter(r => !filter?.workflow_id || r.workflow_id === filter.workflow_id)
+      .filter(r => !filter?.status || r.status === filter.status)
+      .sort((a, b) => b.started_at.localeCompare(a.started_at));
+
+    if (filter?.limit) {
+      runs = runs.slice(0, filter.limit);
+    }
+    return runs.map(run => structuredClone(run));
+  }
+
+  /**
+   * Lease Operations
+   */
+
+  async acquireLease(key: string, owner: string, ttlMs: number): Promise<boolean> {
+    const lease = this.leases.get(key);
+    if (lease && lease.owner !== owner && lease.expires_at > Date.now()) {
+      return false;
+    }
+    this.leases.set(key, { owner, expires_at: Date.now() + ttlMs });
+    return true;
+  }
+
+  /**
+   * Scheduler Pause Operations
+   */
+
+  async getSchedulerPause(): Promise<SchedulerPause | null> {
+    return this.schedulerPause ? structuredClone(this.schedulerPause) : null;
+  }
+
+  async saveSchedulerPause(pause: SchedulerPause | null): Promise<void> {
+    this.schedulerPause = pause ? structuredClone(pause) : null;
+  }
+
   /**
    * Lifecycle Operations
    */
@@ -334,6 +525,12 @@ export class MockStorage implements Storage {
   clear(): void {
     this.tasks.clear();
     this.executions.clear();
+    this.pendingRetries.clear();
+    this.dependencyStates.clear();
+    this.leases.clear();
+    this.workflows.clear();
+    this.workflowRuns.clear();
+    this.schedulerPause = null;
   }
 
   getTaskCount(): number {
@@ -279,4 +279,47 @@ describe('Scheduler Integration Tests', () => {
     expect(execution?.status).toBe('timeout');
     expect(execution?.error).toContain('timed out');
   }, 5000);
+
+  it('should run a scheduled fire on one instance in cluster mode', async () => {
+    const otherStorage = new SQLiteStorage(testDbPath);
+    const instances = [
+      new Scheduler(storage, { default_timezone: 'UTC', cluster_mode: true, instance_id: 'node-a' }),
+      new Scheduler(otherStorage, { default_timezone: 'UTC', cluster_mode: true, instance_id: 'node-b' }),
+    ];
+
+    try {
+      const task = await storage.createTask({
+        name: 'Cluster One-Shot',
+        enabled: true,
+        type: 'bash',
+        task_config: {
+          type: 'bash',
+          command: 'echo "once"',
+        } as BashTaskConfig,
+        trigger: {
+          type: 'at',
+          at: new Date(Date.now() + 1000).toISOString(),
+        },
+        run_count: 0,
+        success_count: 0,
+        failure_count: 0,
+      });
+
+      // Both instances arm the same fire
+      for (const instance of instances) {
+        await instance.start();
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, 2500));
+
+      const executions = await storage.loadExecutions({ task_id: task.id });
+      expect(executions).toHaveLength(1);
+      expect(executions[0].output).toContain('once');
+    } finally {
+      for (const instance of instances) {
+        await instance.stop();
+      }
+      await otherStorage.close();
+    }
+  }, 6000);
 });
@@ -6,6 +6,7 @@
  */
 
 import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
 import { BashExecutor } from '../../../src/executors/bash-executor.js';
 import { TestHelpers } from '../../fixtures/test-helpers.js';
 
@@ -185,6 +186,60 @@ describe('BashExecutor (Unit)', () => {
     }, 10000);
   });
 
+  describe('Cancellation', () => {
+    it('should kill the command and keep partial output when cancelled', async () => {
+      const task = TestHelpers.createMockTask({
+        type: 'bash',
+        task_config: {
+          type: 'bash',
+          command: 'echo "started"; sleep 10'
+        }
+      });
+      const controller = new AbortController();
+
+      setTimeout(() => controller.abort('Stop requested'), 300);
+      const result = await executor.execute(task, TestHelpers.createMockExecution(task.id), controller.signal);
+
+      expect(result.status).toBe('cancelled');
+      expect(result.error).toContain('Stop requested');
+      expect(result.output).toBe('started');
+      expect(result.duration_ms).toBeLessThan(5000);
+    }, 10000);
+
+    it('should kill child processes started by the command', async () => {
+      const marker = `/tmp/claudecron-cancel-${Date.now()}`;
+      const task = TestHelpers.createMockTask({
+        type: 'bash',
+        task_config: {
+          type: 'bash',
+          command: `(sleep 1 && touch ${marker}) & wait`
+        }
+      });
+      const controller = new AbortController();
+
+      setTimeout(() => controller.abort('Stop requested'), 200);
+      const result = await executor.execute(task, TestHelpers.createMockExecution(task.id), controller.signal);
+      await TestHelpers.sleep(1500);
+
+      expect(result.status).toBe('cancelled');
+      expect(fs.existsSync(marker)).toBe(false);
+    }, 10000);
+
+    it('should not start the command if already cancelled', async () => {
+      const task = TestHelpers.createMockTask({
+        type: 'bash',
+        task_config: { type: 'bash', command: 'echo "never"' }
+      });
+      const controller = new AbortController();
+      controller.abort('Stop requested');
+
+      const result = await executor.execute(task, TestHelpers.createMockExecution(task.id), controller.signal);
+
+      expect(result.status).toBe('cancelled');
+      expect(result.output).toBe('');
+    });
+  });
+
   describe('Working Directory', () => {
     it('should execute in specified working directory', async () => {
       const task = TestHelpers.createMockTask({
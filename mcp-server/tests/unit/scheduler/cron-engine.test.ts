@@ -0,0 +1,116 @@
+/**
+ * Cron Engine Unit Tests
+ *
+ * Tests aliases, L, W, # and business-day (B) day-of-month expressions
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseCron, isValidCron } from '../../../src/scheduler/cron-engine.js';
+
+function nextTimes(expression: string, after: string, count: number, isHoliday?: (date: Date) => boolean): string[] {
+  return parseCron(expression, { timezone: 'UTC', ...(isHoliday && { isHoliday }) })
+    .nextTimes(new Date(after), count)
+    .map(time => time.toISOString());
+}
+
+describe('Cron Engine', () => {
+  describe('Standard syntax', () => {
+    it('should compute fire times in the timezone', () => {
+      const schedule = parseCron('0 9 * * 1-5', { timezone: 'America/New_York' });
+
+      // Friday 2025-06-13 10:00 in New York: next run is Monday 09:00 EDT
+      expect(schedule.next(new Date('2025-06-13T14:00:00Z'))?.toISOString()).toBe('2025-06-16T13:00:00.000Z');
+    });
+
+    it('should support seconds', () => {
+      expect(nextTimes('*/30 * * * * *', '2025-06-13T12:00:00Z', 2)).toEqual([
+        '2025-06-13T12:00:30.000Z',
+        '2025-06-13T12:01:00.000Z',
+      ]);
+    });
+
+    it('should expand aliases', () => {
+      expect(nextTimes('@daily', '2025-06-13T12:00:00Z', 1)).toEqual(['2025-06-14T00:00:00.000Z']);
+      expect(nextTimes('@midnight', '2025-06-13T12:00:00Z', 1)).toEqual(['2025-06-14T00:00:00.000Z']);
+      expect(nextTimes('@hourly', '2025-06-13T12:00:00Z', 1)).toEqual(['2025-06-13T13:00:00.000Z']);
+      expect(nextTimes('@weekly', '2025-06-13T12:00:00Z', 1)).toEqual(['2025-06-15T00:00:00.000Z']);
+      expect(nextTimes('@monthly', '2025-06-13T12:00:00Z', 1)).toEqual(['2025-07-01T00:00:00.000Z']);
+      expect(nextTimes('@yearly', '2025-06-13T12:00:00Z', 1)).toEqual(['2026-01-01T00:00:00.000Z']);
+    });
+
+    it('should support L and # days', () => {
+      expect(nextTimes('0 0 L * *', '2025-02-01T00:00:00Z', 2)).toEqual([
+        '2025-02-28T00:00:00.000Z',
+        '2025-03-31T00:00:00.000Z',
+      ]);
+      // Last Friday, second Tuesday
+      expect(nextTimes('0 0 * * 5L', '2025-06-01T00:00:00Z', 1)).toEqual(['2025-06-27T00:00:00.000Z']);
+      expect(nextTimes('0 0 * * 2#2', '2025-06-01T00:00:00Z', 1)).toEqual(['2025-06-10T00:00:00.000Z']);
+    });
+
+    it('should stop at the end of a range', () => {
+      const times = parseCron('0 * * * *', { timezone: 'UTC' })
+        .nextTimes(new Date('2025-06-13T12:00:00Z'), 10, new Date('2025-06-13T14:00:00Z'));
+
+      expect(times.map(time => time.toISOString())).toEqual([
+        '2025-06-13T13:00:00.000Z',
+        '2025-06-13T14:00:00.000Z',
+      ]);
+    });
+  });
+
+  describe('Nearest weekday (W)', () => {
+    it('should move a Saturday back and a Sunday forward', () => {
+      // 2025-06-14 is a Saturday, 2025-09-14 a Sunday
+      expect(nextTimes('0 9 14W * *', '2025-06-01T00:00:00Z', 1)).toEqual(['2025-06-13T09:00:00.000Z']);
+      expect(nextTimes('0 9 14W * *', '2025-09-01T00:00:00Z', 1)).toEqual(['2025-09-15T09:00:00.000Z']);
+    });
+
+    it('should not leave the month', () => {
+      // 2025-11-01 is a Saturday, 2025-08-31 a Sunday
+      expect(nextTimes('0 9 1W * *', '2025-10-31T00:00:00Z', 1)).toEqual(['2025-11-03T09:00:00.000Z']);
+      expect(nextTimes('0 9 LW * *', '2025-08-01T00:00:00Z', 1)).toEqual(['2025-08-29T09:00:00.000Z']);
+    });
+
+    it('should skip months without the day', () => {
+      expect(nextTimes('0 9 31W * *', '2025-06-01T00:00:00Z', 2)).toEqual([
+        '2025-07-31T09:00:00.000Z',
+        '2025-08-29T09:00:00.000Z',
+      ]);
+    });
+  });
+
+  describe('Business days (B)', () => {
+    it('should find the nth and last business day', () => {
+      // June 2025 starts on a Sunday and ends on a Monday
+      expect(nextTimes('0 9 1B * *', '2025-06-01T00:00:00Z', 1)).toEqual(['2025-06-02T09:00:00.000Z']);
+      expect(nextTimes('0 9 3B * *', '2025-06-01T00:00:00Z', 1)).toEqual(['2025-06-04T09:00:00.000Z']);
+      expect(nextTimes('0 17 LB * *', '2025-05-01T00:00:00Z', 2)).toEqual([
+        '2025-05-30T17:00:00.000Z',
+        '2025-06-30T17:00:00.000Z',
+      ]);
+    });
+
+    it('should skip holidays', () => {
+      const isHoliday = (date: Date) => date.toISOString().startsWith('2025-06-30');
+
+      expect(nextTimes('0 17 LB * *', '2025-06-01T00:00:00Z', 1, isHoliday)).toEqual(['2025-06-27T17:00:00.000Z']);
+    });
+  });
+
+  describe('Validation', () => {
+    it('should reject invalid expressions', () => {
+      expect(() => parseCron('invalid cron', { timezone: 'UTC' })).toThrow('Invalid cron expression');
+      expect(() => parseCron('@fortnightly', { timezone: 'UTC' })).toThrow('unknown alias');
+      expect(() => parseCron('0 25 * * *', { timezone: 'UTC' })).toThrow('Invalid cron expression');
+      expect(() => parseCron('0 9 15W * 1', { timezone: 'UTC' })).toThrow('cannot be combined with a day of week');
+      expect(() => parseCron('0 9 32W * *', { timezone: 'UTC' })).toThrow('out of range');
+    });
+
+    it('should report validity', () => {
+      expect(isValidCron('0 9 LB * *')).toBe(true);
+      expect(isValidCron('@daily')).toBe(true);
+      expect(isValidCron('0 9 * *')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * DependencyManager Unit Tests
+ *
+ * Tests which upstream outcomes and outputs trigger dependent tasks, and
+ * how dependency progress is saved and expires
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { DependencyManager } from '../../../src/scheduler/dependency-manager.js';
+import { MockStorage, TestHelpers } from '../../fixtures/test-helpers.js';
+import { DependencyTrigger, Execution, Task } from '../../../src/models/types.js';
+
+describe('DependencyManager', () => {
+  let storage: MockStorage;
+  let dependencyManager: DependencyManager;
+  let mockScheduler: any;
+  let upstream: Task;
+
+  beforeEach(async () => {
+    storage = new MockStorage();
+    dependencyManager = new DependencyManager(storage);
+    mockScheduler = {
+      executeTask: vi.fn().mockResolvedValue('exec-id'),
+    };
+    dependencyManager.setScheduler(mockScheduler);
+    upstream = await storage.createTask(TestHelpers.createMockTask({ name: 'Deploy' }));
+  });
+
+  async function addDependent(trigger: Partial<DependencyTrigger>): Promise<Task> {
+    const dependent = await storage.createTask(TestHelpers.createMockTask({
+      name: 'Dependent',
+      trigger: { type: 'dependency', depends_on: [upstream.id], ...trigger },
+    }));
+    await dependencyManager.buildDependencyGraph(await storage.loadTasks());
+    return dependent;
+  }
+
+  function finished(overrides: Partial<Execution>): Execution {
+    return TestHelpers.createMockExecution(upstream.id, { status: 'success', ...overrides });
+  }
+
+  describe('on', () => {
+    it('should trigger on success by default', async () => {
+      await addDependent({});
+
+      await dependencyManager.onTaskCompleted(upstream.id, finished({ status: 'failure' }));
+      expect(mockScheduler.executeTask).not.toHaveBeenCalled();
+
+      await dependencyManager.onTaskCompleted(upstream.id, finished({ status: 'success' }));
+      expect(mockScheduler.executeTask).toHaveBeenCalledTimes(1);
+    });
+
+    it('should trigger on failures and timeouts with on: failure', async () => {
+      const dependent = await addDependent({ on: 'failure' });
+
+      await dependencyManager.onTaskCompleted(upstream.id, finished({ status: 'success' }));
+      await dependencyManager.onTaskCompleted(upstream.id, finished({ id: 'failed', status: 'failure' }));
+      await dependencyManager.onTaskCompleted(upstream.id, finished({ status: 'timeout' }));
+
+      expect(mockScheduler.executeTask).toHaveBeenCalledTimes(2);
+      expect(mockScheduler.executeTask).toHaveBeenCalledWith(dependent.id, 'dependency', {
+        triggered_by: upstream.id,
+        execution_id: 'failed',
+      });
+    });
+
+    it('should trigger on every run that started with on: any', async () => {
+      await addDependent({ on: 'any' });
+
+      for (const status of ['success', 'failure', 'cancelled', 'skipped'] as const) {
+        await dependencyManager.onTaskCompleted(upstream.id, finished({ status }));
+      }
+
+      expect(mockScheduler.executeTask).toHaveBeenCalledTimes(3);
+    });
+
+    it('should trigger only on skipped runs with on: skipped', async () => {
+      await addDependent({ on: 'skipped' });
+
+      await dependencyManager.onTaskCompleted(upstream.id, finished({ status: 'success' }));
+      await dependencyManager.onTaskCompleted(upstream.id, finished({ status: 'skipped' }));
+
+      expect(mockScheduler.executeTask).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('when', () => {
+    it('should check the upstream output', async () => {
+      await addDependent({ when: { output_contains: 'CRITICAL', output_matches: 'found \\d+ issues' } });
+
+      await dependencyManager.onTaskCompleted(upstream.id, finished({ output: 'found 3 issues' }));
+      await dependencyManager.onTaskCompleted(upstream.id, finished({ output: 'CRITICAL' }));
+      expect(mockScheduler.executeTask).not.toHaveBeenCalled();
+
+      await dependencyManager.onTaskCompleted(upstream.id, finished({ output: 'CRITICAL: found 3 issues' }));
+      expect(mockScheduler.executeTask).toHaveBeenCalledTimes(1);
+    });
+
+    it('should check the upstream exit code', async () => {
+      await addDependent({ on: 'failure', when: { exit_code: [2, 3] } });
+
+      await dependencyManager.onTaskCompleted(upstream.id, finished({ status: 'failure', exit_code: 1 }));
+      await dependencyManager.onTaskCompleted(upstream.id, finished({ status: 'failure' }));
+      expect(mockScheduler.executeTask).not.toHaveBeenCalled();
+
+      await dependencyManager.onTaskCompleted(upstream.id, finished({ status: 'failure', exit_code: 3 }));
+      expect(mockScheduler.executeTask).toHaveBeenCalledTimes(1);
+    });
+
+    it('should check the upstream duration', async () => {
+      await addDependent({ when: { min_duration: '1m', max_duration: '1h' } });
+
+      await dependencyManager.onTaskCompleted(upstream.id, finished({ duration_ms: 30 * 1000 }));
+      await dependencyManager.onTaskCompleted(upstream.id, finished({ duration_ms: 2 * 60 * 60 * 1000 }));
+      expect(mockScheduler.executeTask).not.toHaveBeenCalled();
+
+      await dependencyManager.onTaskCompleted(upstream.id, finished({ duration_ms: 5 * 60 * 1000 }));
+      expect(mockScheduler.executeTask).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('State', () => {
+    let other: Task;
+
+    beforeEach(async () => {
+      other = await storage.createTask(TestHelpers.createMockTask({ name: 'Migrate' }));
+    });
+
+    async function addJoin(trigger: Partial<DependencyTrigger>): Promise<Task> {
+      return addDependent({ depends_on: [upstream.id, other.id], require_all: true, ...trigger });
+    }
+
+    it('should keep partial completions across a restart', async () => {
+      const dependent = await addJoin({});
+      await dependencyManager.onTaskCompleted(upstream.id, finished({}));
+
+      // A new manager over the same storage, as after a restart
+      const restarted = new DependencyManager(storage);
+      restarted.setScheduler(mockScheduler);
+      await restarted.buildDependencyGraph(await storage.loadTasks());
+
+      await restarted.onTaskCompleted(other.id, TestHelpers.createMockExecution(other.id, { status: 'success' }));
+
+      expect(mockScheduler.executeTask).toHaveBeenCalledTimes(1);
+      expect(mockScheduler.executeTask).toHaveBeenCalledWith(dependent.id, 'dependency', expect.objectContaining({
+        triggered_by: other.id,
+      }));
+
+      // Triggering starts the count over
+      const [state] = await storage.loadDependencyStates();
+      expect(state?.completed).toEqual({});
+      expect(state?.last_triggered).toBeDefined();
+    });
+
+    it('should join completions counted by different workers', async () => {
+      const dependent = await addJoin({});
+
+      // Each worker builds its graph before either upstream task finishes
+      const secondWorker = new DependencyManager(storage);
+      secondWorker.setScheduler(mockScheduler);
+      await secondWorker.buildDependencyGraph(await storage.loadTasks());
+
+      await dependencyManager.onTaskCompleted(upstream.id, finished({}));
+      await secondWorker.onTaskCompleted(other.id, TestHelpers.createMockExecution(other.id, { status: 'success' }));
+
+      expect(mockScheduler.executeTask).toHaveBeenCalledTimes(1);
+      expect(mockScheduler.executeTask).toHaveBeenCalledWith(dependent.id, 'dependency', expect.objectContaining({
+        triggered_by: other.id,
+      }));
+    });
+
+    it('should keep the completions when the dependent cannot be triggered', async () => {
+      await addJoin({});
+      mockScheduler.executeTask.mockRejectedValueOnce(new Error('Task is disabled'));
+
+      await dependencyManager.onTaskCompleted(upstream.id, finished({}));
+      await dependencyManager.onTaskCompleted(other.id, TestHelpers.createMockExecution(other.id, { status: 'success' }));
+
+      const [state] = await storage.loadDependencyStates();
+      expect(Object.keys(state!.completed).sort()).toEqual([upstream.id, other.id].sort());
+      expect(state?.last_triggered).toBeUndefined();
+    });
+
+    it('should only count completions inside the within window', async () => {
+      await addJoin({ within: '1h' });
+      const twoHoursAgo = new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString();
+
+      await dependencyManager.onTaskCompleted(upstream.id, finished({ completed_at: twoHoursAgo }));
+      await dependencyManager.onTaskCompleted(other.id, TestHelpers.createMockExecution(other.id, { status: 'success' }));
+      expect(mockScheduler.executeTask).not.toHaveBeenCalled();
+
+      const [state] = await storage.loadDependencyStates();
+      expect(Object.keys(state!.completed)).toEqual([other.id]);
+
+      await dependencyManager.onTaskCompleted(upstream.id, finished({ completed_at: new Date().toISOString() }));
+      expect(mockScheduler.executeTask).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,275 @@
+/**
+ * ExecutionQueue Unit Tests
+ *
+ * Tests global concurrency limits, pending executions and queue ordering
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ExecutionQueue } from '../../../src/scheduler/execution-queue.js';
+import { Scheduler } from '../../../src/scheduler/scheduler.js';
+import { MockStorage, TestHelpers } from '../../fixtures/test-helpers.js';
+import { Task, Execution } from '../../../src/models/types.js';
+
+/**
+ * Runner whose executions only finish when released by the test
+ */
+class ControlledRunner {
+  started: string[] = [];
+  private resolvers: Map<string, () => void> = new Map();
+
+  run = (_task: Task, execution: Execution): Promise<void> => {
+    this.started.push(execution.id);
+    return new Promise(resolve => this.resolvers.set(execution.id, resolve));
+  };
+
+  finish(executionId: string): void {
+    this.resolvers.get(executionId)?.();
+  }
+}
+
+describe('ExecutionQueue', () => {
+  let storage: MockStorage;
+  let runner: ControlledRunner;
+
+  beforeEach(() => {
+    storage = new MockStorage();
+    runner = new ControlledRunner();
+  });
+
+  async function submit(queue: ExecutionQueue, task: Task): Promise<Execution> {
+    const hasSlot = queue.tryReserve(task);
+    const execution = await storage.createExecution({
+      task_id: task.id,
+      trigger_type: 'manual',
+      status: hasSlot ? 'running' : 'pending',
+      started_at: new Date().toISOString(),
+    });
+    if (hasSlot) {
+      queue.start(task, execution);
+    } else {
+      queue.enqueue(task, execution);
+    }
+    return execution;
+  }
+
+  it('should start executions immediately while slots are free', async () => {
+    const queue = new ExecutionQueue(storage, 2);
+    queue.setRunner(runner.run);
+
+    const task = TestHelpers.createMockTask();
+    await submit(queue, task);
+    await submit(queue, task);
+
+    expect(runner.started).toHaveLength(2);
+    expect(queue.getRunningCount()).toBe(2);
+    expect(queue.getPendingCount()).toBe(0);
+  });
+
+  it('should queue executions over the limit as pending', async () => {
+    const queue = new ExecutionQueue(storage, 1);
+    queue.setRunner(runner.run);
+
+    const task = TestHelpers.createMockTask();
+    await submit(queue, task);
+    const queued = await submit(queue, task);
+
+    expect(runner.started).toHaveLength(1);
+    expect(queue.getPendingCount()).toBe(1);
+    expect((await storage.getExecution(queued.id))?.status).toBe('pending');
+  });
+
+  it('should start the next queued execution when a slot frees up', async () => {
+    const queue = new ExecutionQueue(storage, 1);
+    queue.setRunner(runner.run);
+
+    const task = TestHelpers.createMockTask();
+    const first = await submit(queue, task);
+    const second = await submit(queue, task);
+
+    runner.finish(first.id);
+    await TestHelpers.sleep(10);
+
+    expect(runner.started).toEqual([first.id, second.id]);
+    expect((await storage.getExecution(second.id))?.status).toBe('running');
+    expect(queue.getPendingCount()).toBe(0);
+  });
+
+  it('should run queued executions in FIFO order by default', async () => {
+    const queue = new ExecutionQueue(storage, 1);
+    queue.setRunner(runner.run);
+
+    const first = await submit(queue, TestHelpers.createMockTask());
+    const low = await submit(queue, TestHelpers.createMockTask({ options: { priority: 1 } }));
+    const high = await submit(queue, TestHelpers.createMockTask({ options: { priority: 5 } }));
+
+    expect(queue.getPendingExecutions().map(e => e.id)).toEqual([low.id, high.id]);
+
+    runner.finish(first.id);
+    await TestHelpers.sleep(10);
+    expect(runner.started[1]).toBe(low.id);
+  });
+
+  it('should run higher priority executions first in priority order', async () => {
+    const queue = new ExecutionQueue(storage, 1, 'priority');
+    queue.setRunner(runner.run);
+
+    const first = await submit(queue, TestHelpers.createMockTask());
+    const low = await submit(queue, TestHelpers.createMockTask({ options: { priority: 1 } }));
+    const high = await submit(queue, TestHelpers.createMockTask({ options: { priority: 5 } }));
+
+    expect(queue.getPendingExecutions().map(e => e.id)).toEqual([high.id, low.id]);
+
+    runner.finish(first.id);
+    await TestHelpers.sleep(10);
+    expect(runner.started[1]).toBe(high.id);
+  });
+
+  it('should not start an execution removed while it leaves the queue', async () => {
+    const queue = new ExecutionQueue(storage, 1);
+    queue.setRunner(runner.run);
+
+    const task = TestHelpers.createMockTask();
+    const first = await submit(queue, task);
+    const second = await submit(queue, task);
+
+    // The slot frees up and the second execution starts moving to 'running'
+    const update = storage.updateExecution.bind(storage);
+    vi.spyOn(storage, 'updateExecution').mockImplementation(async (id, updates) => {
+      await TestHelpers.sleep(20);
+      return update(id, updates);
+    });
+    runner.finish(first.id);
+    await TestHelpers.sleep(5);
+    expect(queue.getPendingCount()).toBe(0);
+
+    expect(await queue.removePending(second.id)).toBe(true);
+    await TestHelpers.sleep(10);
+
+    expect(runner.started).toEqual([first.id]);
+    expect(queue.getRunningCount()).toBe(0);
+  });
+
+  it('should cancel all pending executions', async () => {
+    const queue = new ExecutionQueue(storage, 1);
+    queue.setRunner(runner.run);
+
+    const task = TestHelpers.createMockTask();
+    await submit(queue, task);
+    const queued = await submit(queue, task);
+
+    await queue.cancelAllPending('Stopped');
+
+    const execution = await storage.getExecution(queued.id);
+    expect(execution?.status).toBe('cancelled');
+    expect(execution?.error).toBe('Stopped');
+    expect(queue.getPendingCount()).toBe(0);
+  });
+});
+
+describe('Scheduler execution queue', () => {
+  it('should enforce max_concurrent_tasks across tasks', async () => {
+    const storage = new MockStorage();
+    const scheduler = new Scheduler(storage, { max_concurrent_tasks: 1 });
+
+    const task = await storage.createTask({
+      name: 'Slow Task',
+      enabled: true,
+      type: 'bash',
+      task_config: { type: 'bash', command: 'sleep 0.2' },
+      trigger: { type: 'manual', description: 'Manual' },
+      run_count: 0,
+      success_count: 0,
+      failure_count: 0
+    });
+
+    const firstId = await scheduler.executeTask(task.id);
+    const secondId = await scheduler.executeTask(task.id);
+
+    expect((await storage.getExecution(firstId))?.status).toBe('running');
+    expect((await storage.getExecution(secondId))?.status).toBe('pending');
+    expect(scheduler.getStatus().queued_executions).toBe(1);
+
+    await TestHelpers.sleep(1000);
+
+    expect((await storage.getExecution(firstId))?.status).toBe('success');
+    expect((await storage.getExecution(secondId))?.status).toBe('success');
+    expect(scheduler.getStatus().queued_executions).toBe(0);
+  });
+});
+
+describe('Per-task overlap policies', () => {
+  let storage: MockStorage;
+  let scheduler: Scheduler;
+
+  beforeEach(() => {
+    storage = new MockStorage();
+    scheduler = new Scheduler(storage);
+  });
+
+  async function createSlowTask(options: Task['options']): Promise<Task> {
+    return storage.createTask({
+      name: 'Slow Task',
+      enabled: true,
+      type: 'bash',
+      task_config: { type: 'bash', command: 'sleep 0.2' },
+      trigger: { type: 'manual', description: 'Manual' },
+      options,
+      run_count: 0,
+      success_count: 0,
+      failure_count: 0
+    });
+  }
+
+  it('should allow overlapping runs when no limit is set', async () => {
+    const task = await createSlowTask({});
+
+    const firstId = await scheduler.executeTask(task.id);
+    const secondId = await scheduler.executeTask(task.id);
+
+    expect((await storage.getExecution(firstId))?.status).toBe('running');
+    expect((await storage.getExecution(secondId))?.status).toBe('running');
+
+    await TestHelpers.sleep(600);
+  });
+
+  it('should queue runs over max_concurrent by default', async () => {
+    const task = await createSlowTask({ max_concurrent: 1 });
+
+    const firstId = await scheduler.executeTask(task.id);
+    const secondId = await scheduler.executeTask(task.id);
+
+    expect((await storage.getExecution(firstId))?.status).toBe('running');
+    expect((await storage.getExecution(secondId))?.status).toBe('pending');
+
+    await TestHelpers.sleep(1000);
+
+    expect((await storage.getExecution(secondId))?.status).toBe('success');
+  });
+
+  it('should record a skipped execution with a reason for the skip policy', async () => {
+    const task = await createSlowTask({ max_concurrent: 1, overlap_policy: 'skip' });
+
+    await scheduler.executeTask(task.id, 'interval');
+    const skippedId = await scheduler.executeTask(task.id, 'interval');
+
+    const skipped = await storage.getExecution(skippedId);
+    expect(skipped?.status).toBe('skipped');
+    expect(skipped?.skip_reason).toMatch(/^overlap:/);
+
+    await TestHelpers.sleep(600);
+  });
+
+  it('should cancel queued and running executions for cancel_previous', async () => {
+    const task = await createSlowTask({ overlap_policy: 'cancel_previous' });
+
+    const firstId = await scheduler.executeTask(task.id);
+    const secondId = await scheduler.executeTask(task.id);
+
+    await TestHelpers.sleep(1000);
+
+    const first = await storage.getExecution(firstId);
+    expect(first?.status).toBe('cancelled');
+    expect(first?.error).toContain('cancel_previous');
+    expect((await storage.getExecution(secondId))?.status).toBe('success');
+  });
+});
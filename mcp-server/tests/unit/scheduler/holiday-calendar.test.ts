@@ -0,0 +1,127 @@
+/**
+ * HolidayCalendarManager Unit Tests
+ *
+ * Tests region holidays, .ics/.json calendar files and calendar reloading
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { HolidayCalendarManager, getHolidaySources } from '../../../src/scheduler/holiday-calendar.js';
+
+describe('HolidayCalendarManager', () => {
+  let manager: HolidayCalendarManager;
+  let tempDir: string;
+
+  beforeEach(() => {
+    manager = new HolidayCalendarManager();
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'claudecron-holidays-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function writeCalendar(name: string, content: string): string {
+    const file = path.join(tempDir, name);
+    fs.writeFileSync(file, content);
+    return file;
+  }
+
+  describe('getHolidaySources', () => {
+    it('should default to the US region only without calendars', () => {
+      expect(getHolidaySources({ skip_holidays: true })).toEqual({ region: 'US' });
+      expect(getHolidaySources({ holiday_calendars: ['a.ics'] })).toEqual({ calendars: ['a.ics'] });
+      expect(getHolidaySources({ holiday_region: 'UK', holiday_calendars: ['a.ics'] }))
+        .toEqual({ region: 'UK', calendars: ['a.ics'] });
+      expect(getHolidaySources({})).toBeNull();
+    });
+  });
+
+  describe('JSON calendars', () => {
+    it('should match dates, ranges and yearly entries', () => {
+      const file = writeCalendar('team.json', JSON.stringify({
+        holidays: [
+          '2025-03-14',
+          { date: '2025-12-24', end: '2026-01-02', name: 'Winter shutdown' },
+          { date: '2020-08-01', name: 'Founders day', yearly: true }
+        ]
+      }));
+      const sources = { calendars: [file] };
+
+      expect(manager.getHoliday(sources, 'UTC', new Date('2025-03-14T10:00:00Z'))?.name).toBe('Holiday');
+      expect(manager.getHoliday(sources, 'UTC', new Date('2026-01-01T10:00:00Z'))?.name).toBe('Winter shutdown');
+      expect(manager.getHoliday(sources, 'UTC', new Date('2025-08-01T10:00:00Z'))?.name).toBe('Founders day');
+      expect(manager.getHoliday(sources, 'UTC', new Date('2025-08-02T10:00:00Z'))).toBeNull();
+    });
+
+    it('should use the date in the given timezone', () => {
+      const file = writeCalendar('team.json', JSON.stringify(['2025-03-14']));
+
+      const now = new Date('2025-03-13T20:00:00Z');
+      expect(manager.getHoliday({ calendars: [file] }, 'UTC', now)).toBeNull();
+      expect(manager.getHoliday({ calendars: [file] }, 'Asia/Tokyo', now)?.date).toBe('2025-03-14');
+    });
+  });
+
+  describe('ICS calendars', () => {
+    it('should parse all-day events with exclusive DTEND and yearly rules', () => {
+      const file = writeCalendar('company.ics', [
+        'BEGIN:VCALENDAR',
+        'BEGIN:VEVENT',
+        'DTSTART;VALUE=DATE:20250704',
+        'DTEND;VALUE=DATE:20250706',
+        'SUMMARY:Summer\\, extended br',
+        ' eak',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'DTSTART;VALUE=DATE:20201111',
+        'RRULE:FREQ=YEARLY',
+        'SUMMARY:Anniversary',
+        'END:VEVENT',
+        'END:VCALENDAR'
+      ].join('\r\n'));
+      const sources = { calendars: [file] };
+
+      expect(manager.getHoliday(sources, 'UTC', new Date('2025-07-05T12:00:00Z'))?.name).toBe('Summer, extended break');
+      expect(manager.getHoliday(sources, 'UTC', new Date('2025-07-06T12:00:00Z'))).toBeNull();
+      expect(manager.getHoliday(sources, 'UTC', new Date('2027-11-11T12:00:00Z'))?.name).toBe('Anniversary');
+    });
+  });
+
+  it('should reload a calendar when the file changes', () => {
+    const file = writeCalendar('team.json', JSON.stringify(['2025-03-14']));
+    const now = new Date('2025-03-15T12:00:00Z');
+
+    expect(manager.getHoliday({ calendars: [file] }, 'UTC', now)).toBeNull();
+
+    fs.writeFileSync(file, JSON.stringify(['2025-03-15']));
+    const future = new Date(Date.now() + 5000);
+    fs.utimesSync(file, future, future);
+
+    expect(manager.getHoliday({ calendars: [file] }, 'UTC', now)?.date).toBe('2025-03-15');
+  });
+
+  it('should ignore missing calendar files', () => {
+    const sources = { calendars: [path.join(tempDir, 'missing.ics')] };
+
+    expect(manager.getHoliday(sources, 'UTC', new Date('2025-03-15T12:00:00Z'))).toBeNull();
+  });
+
+  it('should combine region holidays and calendars in listHolidays', () => {
+    const file = writeCalendar('team.json', JSON.stringify([{ date: '2025-07-03', name: 'Bridge day' }]));
+
+    const holidays = manager.listHolidays(
+      { region: 'US', calendars: [file] },
+      'UTC',
+      3,
+      new Date('2025-07-02T12:00:00Z')
+    );
+
+    expect(holidays).toEqual([
+      { date: '2025-07-03', name: 'Bridge day', source: file },
+      { date: '2025-07-04', name: 'Independence Day', source: 'US' }
+    ]);
+  });
+});
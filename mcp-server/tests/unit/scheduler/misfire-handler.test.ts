@@ -0,0 +1,187 @@
+/**
+ * MisfireHandler Unit Tests
+ *
+ * Tests detection of missed cron/interval fire times and misfire policies
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { MisfireHandler } from '../../../src/scheduler/misfire-handler.js';
+import { parseCron } from '../../../src/scheduler/cron-engine.js';
+import { TestHelpers } from '../../fixtures/test-helpers.js';
+import { Task } from '../../../src/models/types.js';
+
+describe('MisfireHandler', () => {
+  let misfireHandler: MisfireHandler;
+  let mockScheduler: any;
+  const now = new Date('2025-06-10T12:30:00Z');
+
+  beforeEach(() => {
+    misfireHandler = new MisfireHandler('UTC');
+    mockScheduler = {
+      executeTask: vi.fn().mockResolvedValue('exec-id'),
+      claimFire: vi.fn().mockResolvedValue(true),
+      parseDuration: (duration: string) => parseInt(duration, 10) * 60 * 60 * 1000, // hours
+      getCronSchedule: (task: Task, cron: string, timezone: string) => parseCron(cron, { timezone }),
+    };
+    misfireHandler.setScheduler(mockScheduler);
+  });
+
+  function hourlyTask(overrides?: Partial<Task>): Task {
+    return TestHelpers.createMockTask({
+      trigger: { type: 'schedule', cron: '0 * * * *' },
+      next_run: '2025-06-10T09:00:00Z',
+      ...overrides
+    });
+  }
+
+  describe('getMissedRuns', () => {
+    it('should find cron fire times from next_run up to now', () => {
+      const missed = misfireHandler.getMissedRuns(hourlyTask(), now, 10);
+
+      expect(missed.count).toBe(4);
+      expect(missed.times.map(t => t.toISOString())).toEqual([
+        '2025-06-10T09:00:00.000Z',
+        '2025-06-10T10:00:00.000Z',
+        '2025-06-10T11:00:00.000Z',
+        '2025-06-10T12:00:00.000Z'
+      ]);
+    });
+
+    it('should find the cron time behind a jittered next_run', () => {
+      const task = hourlyTask({
+        trigger: { type: 'schedule', cron: '0 * * * *', jitter: '1' }, // 1h with the mocked parseDuration
+        next_run: '2025-06-10T09:20:00Z'
+      });
+
+      const missed = misfireHandler.getMissedRuns(task, now, 10);
+
+      expect(missed.times[0]?.toISOString()).toBe('2025-06-10T09:00:00.000Z');
+      expect(missed.count).toBe(4);
+    });
+
+    it('should fall back to last_run when next_run is missing', () => {
+      const task = hourlyTask({ last_run: '2025-06-10T10:00:05Z' });
+      delete task.next_run;
+
+      const missed = misfireHandler.getMissedRuns(task, now, 10);
+
+      expect(missed.count).toBe(2);
+    });
+
+    it('should keep only the most recent missed times', () => {
+      const missed = misfireHandler.getMissedRuns(hourlyTask(), now, 2);
+
+      expect(missed.count).toBe(4);
+      expect(missed.times.map(t => t.toISOString())).toEqual([
+        '2025-06-10T11:00:00.000Z',
+        '2025-06-10T12:00:00.000Z'
+      ]);
+    });
+
+    it('should report nothing when next_run is in the future', () => {
+      const missed = misfireHandler.getMissedRuns(hourlyTask({ next_run: '2025-06-10T13:00:00Z' }), now);
+
+      expect(missed.count).toBe(0);
+    });
+
+    it('should report nothing for tasks that never ran', () => {
+      const task = hourlyTask();
+      delete task.next_run;
+
+      expect(misfireHandler.getMissedRuns(task, now).count).toBe(0);
+    });
+
+    it('should find missed interval fire times', () => {
+      const task = TestHelpers.createMockTask({
+        trigger: { type: 'interval', every: '2h' },
+        next_run: '2025-06-10T06:00:00Z'
+      });
+
+      const missed = misfireHandler.getMissedRuns(task, now, 10);
+
+      expect(missed.count).toBe(4); // 06:00, 08:00, 10:00, 12:00
+    });
+  });
+
+  describe('at triggers', () => {
+    it('should report a missed one-shot time until the task has run', () => {
+      const task = TestHelpers.createMockTask({
+        trigger: { type: 'at', at: '2025-06-10T10:00', timezone: 'Europe/Berlin' }
+      });
+
+      const missed = misfireHandler.getMissedRuns(task, now);
+      expect(missed.times.map(t => t.toISOString())).toEqual(['2025-06-10T08:00:00.000Z']);
+
+      task.last_run = '2025-06-10T08:00:01Z';
+      expect(misfireHandler.getMissedRuns(task, now).count).toBe(0);
+    });
+
+    it('should run a missed one-shot time by default', async () => {
+      const task = TestHelpers.createMockTask({ trigger: { type: 'at', at: '2025-06-10T10:00:00Z' } });
+
+      expect(await misfireHandler.handleMisfires(task, now)).toBe(1);
+      expect(mockScheduler.executeTask).toHaveBeenCalledWith(task.id, 'catchup', expect.objectContaining({
+        scheduled_time: '2025-06-10T10:00:00.000Z'
+      }));
+    });
+  });
+
+  describe('handleMisfires', () => {
+    it('should not run anything with the default skip policy', async () => {
+      const started = await misfireHandler.handleMisfires(hourlyTask(), now);
+
+      expect(started).toBe(0);
+      expect(mockScheduler.executeTask).not.toHaveBeenCalled();
+    });
+
+    it('should run once for the latest missed time with run_once', async () => {
+      const task = hourlyTask({ options: { misfire_policy: 'run_once' } });
+
+      const started = await misfireHandler.handleMisfires(task, now);
+
+      expect(started).toBe(1);
+      expect(mockScheduler.executeTask).toHaveBeenCalledWith(task.id, 'catchup', {
+        scheduled_time: '2025-06-10T12:00:00.000Z',
+        missed_runs: 4,
+        misfire_policy: 'run_once'
+      });
+    });
+
+    it('should run every missed time up to the cap with run_all', async () => {
+      const task = hourlyTask({ options: { misfire_policy: 'run_all', max_catchup_runs: 3 } });
+
+      const started = await misfireHandler.handleMisfires(task, now);
+
+      expect(started).toBe(3);
+      const scheduledTimes = mockScheduler.executeTask.mock.calls.map((call: any[]) => call[2].scheduled_time);
+      expect(scheduledTimes).toEqual([
+        '2025-06-10T10:00:00.000Z',
+        '2025-06-10T11:00:00.000Z',
+        '2025-06-10T12:00:00.000Z'
+      ]);
+    });
+
+    it('should skip catch-up runs claimed by another instance', async () => {
+      mockScheduler.claimFire.mockResolvedValue(false);
+      const task = hourlyTask({ options: { misfire_policy: 'run_once' } });
+
+      const started = await misfireHandler.handleMisfires(task, now);
+
+      expect(started).toBe(0);
+      expect(mockScheduler.claimFire).toHaveBeenCalledWith(`fire:${task.id}@2025-06-10T12:00:00.000Z`);
+      expect(mockScheduler.executeTask).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('nextIntervalSlot', () => {
+    it('should keep the previous cadence', () => {
+      const slot = misfireHandler.nextIntervalSlot(
+        new Date('2025-06-10T06:15:00Z'),
+        2 * 60 * 60 * 1000,
+        now
+      );
+
+      expect(slot.toISOString()).toBe('2025-06-10T14:15:00.000Z');
+    });
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * RateLimiter Unit Tests
+ *
+ * Tests max_runs windows, min_interval, usage reporting and validation
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RateLimiter, validateRateLimit } from '../../../src/scheduler/rate-limiter.js';
+import { MockStorage, TestHelpers } from '../../fixtures/test-helpers.js';
+import { RateLimit } from '../../../src/models/types.js';
+
+describe('RateLimiter', () => {
+  let storage: MockStorage;
+  let limiter: RateLimiter;
+  const now = new Date('2025-06-13T12:00:00Z');
+
+  beforeEach(() => {
+    storage = new MockStorage();
+    limiter = new RateLimiter(storage);
+  });
+
+  function createTask(rateLimit?: RateLimit) {
+    return TestHelpers.createMockTask({ id: 'limited', ...(rateLimit && { options: { rate_limit: rateLimit } }) });
+  }
+
+  function minutesAfter(minutes: number): Date {
+    return new Date(now.getTime() + minutes * 60 * 1000);
+  }
+
+  it('should allow everything without a rate limit', async () => {
+    expect(await limiter.acquire(createTask(), now)).toBeNull();
+    expect(await limiter.getUsage(createTask(), now)).toBeNull();
+  });
+
+  it('should cap runs in a sliding window', async () => {
+    const task = createTask({ max_runs: 2, per: '1h' });
+
+    expect(await limiter.acquire(task, now)).toBeNull();
+    expect(await limiter.acquire(task, minutesAfter(10))).toBeNull();
+    expect(await limiter.acquire(task, minutesAfter(20)))
+      .toBe('rate_limited: 2 run(s) in the last 1h (max_runs 2)');
+
+    // The first run leaves the window after an hour
+    expect(await limiter.acquire(task, minutesAfter(61))).toBeNull();
+  });
+
+  it('should enforce a minimum interval between runs', async () => {
+    const task = createTask({ min_interval: '2m' });
+
+    expect(await limiter.acquire(task, now)).toBeNull();
+    expect(await limiter.acquire(task, minutesAfter(1)))
+      .toBe('rate_limited: last run 60s ago (min_interval 2m)');
+    expect(await limiter.acquire(task, minutesAfter(2))).toBeNull();
+  });
+
+  it('should count runs already stored but not skipped ones', async () => {
+    await storage.createExecution({
+      task_id: 'limited', trigger_type: 'hook', status: 'success', started_at: minutesAfter(-30).toISOString()
+    });
+    await storage.createExecution({
+      task_id: 'limited', trigger_type: 'hook', status: 'skipped', started_at: minutesAfter(-20).toISOString()
+    });
+
+    expect(await limiter.acquire(createTask({ max_runs: 1 }), now))
+      .toBe('rate_limited: 1 run(s) in the last 1h (max_runs 1)');
+  });
+
+  it('should not admit concurrent runs over the limit', async () => {
+    const task = createTask({ max_runs: 3, per: '1h' });
+
+    const results = await Promise.all(Array.from({ length: 5 }, () => limiter.acquire(task, now)));
+
+    expect(results.filter(reason => reason === null)).toHaveLength(3);
+  });
+
+  it('should report usage and when the next run is allowed', async () => {
+    const task = createTask({ max_runs: 2, per: '1h', min_interval: '5m' });
+    await limiter.acquire(task, now);
+    await limiter.acquire(task, minutesAfter(10));
+
+    expect(await limiter.getUsage(task, minutesAfter(15))).toEqual({
+      runs_in_window: 2,
+      max_runs: 2,
+      window: '1h',
+      last_run_at: '2025-06-13T12:10:00.000Z',
+      next_allowed_at: '2025-06-13T13:00:00.000Z',
+    });
+  });
+
+  it('should reject durations and counts that do not parse', () => {
+    expect(() => validateRateLimit({ max_runs: 10, per: '1h', min_interval: '90s' })).not.toThrow();
+    expect(() => validateRateLimit({ max_runs: 10, per: '1 hour' })).toThrow('Invalid rate_limit.per: "1 hour"');
+    expect(() => validateRateLimit({ min_interval: '90min' })).toThrow('Invalid rate_limit.min_interval: "90min"');
+    expect(() => validateRateLimit({ max_runs: 10, per: '0h' })).toThrow('Invalid rate_limit.per');
+    expect(() => validateRateLimit({ max_runs: 2.5 })).toThrow('Invalid rate_limit.max_runs: 2.5');
+  });
+});
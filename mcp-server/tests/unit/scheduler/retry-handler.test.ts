@@ -22,6 +22,8 @@ describe('RetryHandler', () => {
     // Create mock scheduler
     mockScheduler = {
       executeTask: vi.fn(),
+      claimFire: vi.fn().mockResolvedValue(true),
+      finishRetriedExecution: vi.fn(),
     };
     retryHandler.setScheduler(mockScheduler);
   });
@@ -630,6 +632,135 @@ describe('RetryHandler', () => {
     });
   });
 
+  describe('durable retries', () => {
+    const task: Task = {
+      id: 'task-1',
+      name: 'Test Task',
+      enabled: true,
+      type: 'bash',
+      task_config: { type: 'bash', command: 'echo test' },
+      trigger: { type: 'manual', description: 'manual' },
+      options: {
+        retry: {
+          max_attempts: 3,
+          backoff: 'linear',
+          initial_delay: 5000,
+          max_delay: 60000,
+        },
+      },
+      run_count: 0,
+      success_count: 0,
+      failure_count: 0,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    };
+
+    const execution: Execution = {
+      id: 'exec-1',
+      task_id: 'task-1',
+      started_at: new Date().toISOString(),
+      status: 'failure',
+      trigger_type: 'manual',
+    };
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    it('should persist pending retries with due time and attempt', async () => {
+      await retryHandler.scheduleRetry(task, execution);
+
+      const retries = await storage.loadPendingRetries('task-1');
+      expect(retries).toHaveLength(1);
+      expect(retries[0]!.attempt).toBe(1);
+      expect(retries[0]!.execution_id).toBe('exec-1');
+      expect(new Date(retries[0]!.due_at).getTime()).toBe(Date.now() + 5000);
+    });
+
+    it('should remove the pending retry once it runs', async () => {
+      await retryHandler.scheduleRetry(task, execution);
+      await vi.advanceTimersByTimeAsync(5000);
+
+      expect(mockScheduler.executeTask).toHaveBeenCalledTimes(1);
+      expect(await storage.loadPendingRetries()).toHaveLength(0);
+    });
+
+    it('should finish the retried execution when the retry cannot start', async () => {
+      mockScheduler.executeTask.mockRejectedValue(new Error('Task is disabled: task-1'));
+      await retryHandler.scheduleRetry(task, execution);
+      await vi.advanceTimersByTimeAsync(5000);
+
+      expect(mockScheduler.finishRetriedExecution).toHaveBeenCalledWith(
+        expect.objectContaining({ execution_id: 'exec-1' })
+      );
+      expect(await storage.loadPendingRetries()).toHaveLength(0);
+    });
+
+    it('should re-arm retries saved by a previous process', async () => {
+      await retryHandler.scheduleRetry(task, execution);
+      retryHandler.stop(); // Simulate shutdown
+
+      const restarted = new RetryHandler(storage);
+      restarted.setScheduler(mockScheduler);
+      expect(await restarted.restorePendingRetries()).toBe(1);
+
+      await vi.advanceTimersByTimeAsync(5000);
+
+      expect(mockScheduler.executeTask).toHaveBeenCalledWith(
+        'task-1',
+        'retry',
+        expect.objectContaining({
+          retry_metadata: expect.objectContaining({ retry_count: 1 }),
+        })
+      );
+    });
+
+    it('should run overdue retries immediately after restart', async () => {
+      await storage.createPendingRetry({
+        task_id: 'task-1',
+        execution_id: 'exec-1',
+        attempt: 1,
+        due_at: new Date(Date.now() - 60000).toISOString(),
+        trigger_context: {},
+      });
+
+      await retryHandler.restorePendingRetries();
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(mockScheduler.executeTask).toHaveBeenCalledTimes(1);
+    });
+
+    it('should wait for retries due beyond the timer limit', async () => {
+      const day = 24 * 60 * 60 * 1000;
+      await storage.createPendingRetry({
+        task_id: 'task-1',
+        execution_id: 'exec-1',
+        attempt: 1,
+        due_at: new Date(Date.now() + 30 * day).toISOString(),
+        trigger_context: {},
+      });
+
+      await retryHandler.restorePendingRetries();
+      await vi.advanceTimersByTimeAsync(29 * day);
+      expect(mockScheduler.executeTask).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(day);
+      expect(mockScheduler.executeTask).toHaveBeenCalledTimes(1);
+    });
+
+    it('should cancel a pending retry', async () => {
+      await retryHandler.scheduleRetry(task, execution);
+      const [retry] = await retryHandler.listPendingRetries();
+
+      const cancelled = await retryHandler.cancelRetry(retry!.id);
+      await vi.advanceTimersByTimeAsync(5000);
+
+      expect(cancelled?.id).toBe(retry!.id);
+      expect(mockScheduler.executeTask).not.toHaveBeenCalled();
+      expect(await storage.loadPendingRetries()).toHaveLength(0);
+    });
+  });
+
   describe('getRetryStats', () => {
     it('should return zero stats when no retries exist', async () => {
       const stats = await retryHandler.getRetryStats('task-1');
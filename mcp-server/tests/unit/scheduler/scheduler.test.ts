@@ -8,21 +8,8 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { Scheduler } from '../../../src/scheduler/scheduler.js';
 import { MockStorage, TestHelpers } from '../../fixtures/test-helpers.js';
-import { Task } from '../../../src/models/types.js';
-
-// Mock node-cron to avoid real scheduling
-vi.mock('node-cron', () => ({
-  default: {
-    validate: (expr: string) => {
-      // Simple validation
-      const parts = expr.split(' ');
-      return parts.length >= 5 && parts.length <= 6;
-    },
-    schedule: vi.fn((expr, callback, options) => ({
-      stop: vi.fn()
-    }))
-  }
-}));
+import { SmartScheduleTrigger, Task } from '../../../src/models/types.js';
+import { CronExpressionParser } from 'cron-parser';
 
 describe('Scheduler', () => {
   let scheduler: Scheduler;
@@ -78,6 +65,79 @@ describe('Scheduler', () => {
     });
   });
 
+  describe('Crash Recovery', () => {
+    async function createOrphan(taskOverrides?: Partial<Task>, status: 'running' | 'pending' = 'running') {
+      const task = await storage.createTask(TestHelpers.createMockTask(taskOverrides));
+      const execution = await storage.createExecution({
+        task_id: task.id,
+        trigger_type: 'scheduled',
+        status,
+        started_at: new Date(Date.now() - 60000).toISOString()
+      });
+      return { task, execution };
+    }
+
+    it('should mark executions left running as interrupted on start', async () => {
+      const { task, execution } = await createOrphan();
+
+      await scheduler.start();
+
+      const recovered = await storage.getExecution(execution.id);
+      expect(recovered?.status).toBe('interrupted');
+      expect(recovered?.completed_at).toBeTruthy();
+      expect(recovered?.duration_ms).toBeGreaterThanOrEqual(60000);
+      expect(recovered?.error).toContain('Interrupted');
+
+      const updatedTask = await storage.getTask(task.id);
+      expect(updatedTask?.run_count).toBe(1);
+      expect(updatedTask?.failure_count).toBe(1);
+    });
+
+    it('should mark queued executions as interrupted without counting a run', async () => {
+      const { task, execution } = await createOrphan({}, 'pending');
+
+      await scheduler.start();
+
+      expect((await storage.getExecution(execution.id))?.status).toBe('interrupted');
+      expect((await storage.getTask(task.id))?.run_count).toBe(0);
+    });
+
+    it('should use failure status when configured', async () => {
+      scheduler = new Scheduler(storage, { orphaned_execution_status: 'failure' });
+      const { execution } = await createOrphan();
+
+      await scheduler.start();
+
+      expect((await storage.getExecution(execution.id))?.status).toBe('failure');
+    });
+
+    it('should feed interrupted executions into the retry policy', async () => {
+      const { task } = await createOrphan({
+        options: {
+          retry: { max_attempts: 3, backoff: 'linear', initial_delay: 60000, max_delay: 60000 }
+        }
+      });
+
+      await scheduler.start();
+
+      const retries = await storage.loadPendingRetries(task.id);
+      expect(retries).toHaveLength(1);
+      expect(scheduler.getStatus().last_recovery?.retried).toBe(1);
+    });
+
+    it('should report recovery through getStatus', async () => {
+      await createOrphan();
+      await createOrphan({}, 'pending');
+
+      await scheduler.start();
+
+      const report = scheduler.getStatus().last_recovery;
+      expect(report?.interrupted).toBe(1);
+      expect(report?.abandoned).toBe(1);
+      expect(report?.execution_ids).toHaveLength(2);
+    });
+  });
+
   describe('Task Scheduling', () => {
     beforeEach(async () => {
       await scheduler.start();
@@ -185,6 +245,84 @@ describe('Scheduler', () => {
       expect(scheduler.getAllScheduledTasks()).toHaveLength(0);
     });
 
+    describe('jitter', () => {
+      // sha256('jitter-task') gives a fixed offset of 556843ms within 10m and 843ms within 1s
+      function createJitterTask(trigger: Task['trigger']): Promise<Task> {
+        const task: Task = { ...TestHelpers.createScheduledTask(), id: 'jitter-task', trigger };
+        return storage.createTask(task);
+      }
+
+      function nextHour(): number {
+        return CronExpressionParser.parse('0 * * * *', { tz: 'UTC' }).next().toDate().getTime();
+      }
+
+      it('should include a fixed per-task offset in next_run', async () => {
+        const task = await createJitterTask({ type: 'schedule', cron: '0 * * * *', timezone: 'UTC', jitter: '10m' });
+
+        await scheduler.scheduleTask(task);
+
+        const expected = new Date(nextHour() + 556843).toISOString();
+        expect(scheduler.getAllScheduledTasks()[0]?.nextRun).toBe(expected);
+        expect((await storage.getTask(task.id))?.next_run).toBe(expected);
+      });
+
+      it('should pick a random offset within the jitter in random mode', async () => {
+        const task = await createJitterTask({
+          type: 'schedule', cron: '0 * * * *', timezone: 'UTC', jitter: '10m', jitter_mode: 'random'
+        });
+
+        await scheduler.scheduleTask(task);
+
+        const offset = new Date(scheduler.getAllScheduledTasks()[0]!.nextRun).getTime() - nextHour();
+        expect(offset).toBeGreaterThanOrEqual(0);
+        expect(offset).toBeLessThan(10 * 60 * 1000);
+      });
+
+      it('should delay the execution by the jitter when the cron fires', async () => {
+        vi.useFakeTimers({ now: new Date('2025-06-13T12:59:59.000Z'), toFake: ['setTimeout', 'clearTimeout', 'Date'] });
+        try {
+          const task = await createJitterTask({ type: 'schedule', cron: '0 * * * *', timezone: 'UTC', jitter: '1s' });
+          await scheduler.scheduleTask(task);
+
+          // The cron fires at 13:00:00, the run waits out the 843ms offset
+          await vi.advanceTimersByTimeAsync(1000);
+          expect(await storage.loadExecutions({ task_id: task.id })).toHaveLength(0);
+
+          await vi.advanceTimersByTimeAsync(900);
+          expect(await storage.loadExecutions({ task_id: task.id })).toHaveLength(1);
+        } finally {
+          vi.useRealTimers();
+        }
+      });
+
+      it('should cancel every run waiting out a jitter longer than the period', async () => {
+        vi.useFakeTimers({ now: new Date('2025-06-13T12:59:59.000Z'), toFake: ['setTimeout', 'clearTimeout', 'Date'] });
+        try {
+          const task = await createJitterTask({ type: 'schedule', cron: '* * * * *', timezone: 'UTC', jitter: '10m' });
+          await scheduler.scheduleTask(task);
+
+          // Fires at 13:00 and 13:01 both wait out the 556843ms offset
+          await vi.advanceTimersByTimeAsync(2 * 60 * 1000);
+          await scheduler.unscheduleTask(task.id);
+
+          await vi.advanceTimersByTimeAsync(10 * 60 * 1000);
+          expect(await storage.loadExecutions({ task_id: task.id })).toHaveLength(0);
+        } finally {
+          vi.useRealTimers();
+        }
+      });
+
+      it('should offset the first interval run', async () => {
+        const task = await createJitterTask({ type: 'interval', every: '1h', jitter: '10m' });
+
+        await scheduler.rescheduleTask(task);
+
+        const nextRun = new Date((await storage.getTask(task.id))!.next_run!).getTime();
+        expect(nextRun - Date.now()).toBeGreaterThan(556843 - 1000);
+        expect(nextRun - Date.now()).toBeLessThanOrEqual(556843);
+      });
+    });
+
     it('should update next_run in database when scheduling', async () => {
       const task = await storage.createTask({
         name: 'Test',
@@ -204,6 +342,416 @@ describe('Scheduler', () => {
     });
   });
 
+  describe('Interval Tasks', () => {
+    async function createIntervalTask(trigger: Partial<Task['trigger']>, overrides?: Partial<Task>): Promise<Task> {
+      return storage.createTask({
+        name: 'Interval',
+        enabled: true,
+        type: 'bash',
+        task_config: { type: 'bash', command: 'true' },
+        trigger: { type: 'interval', every: '1h', ...trigger } as Task['trigger'],
+        run_count: 0,
+        success_count: 0,
+        failure_count: 0,
+        ...overrides
+      });
+    }
+
+    it('should stop firing after max_runs', async () => {
+      const task = await createIntervalTask({ every: '1s', max_runs: 2 });
+
+      await scheduler.rescheduleTask(task);
+      await TestHelpers.sleep(2600);
+
+      const executions = await storage.loadExecutions({ task_id: task.id });
+      expect(executions).toHaveLength(2);
+      expect(executions.every(e => e.trigger_context?.scheduled_time)).toBe(true);
+    }, 10000);
+
+    it('should not schedule runs after the end date', async () => {
+      const task = await createIntervalTask({ end: new Date(Date.now() - 1000).toISOString() });
+
+      await scheduler.rescheduleTask(task);
+      await TestHelpers.sleep(100);
+
+      expect(await storage.loadExecutions({ task_id: task.id })).toHaveLength(0);
+      expect((await storage.getTask(task.id))?.next_run).toBeUndefined();
+    });
+
+    it('should align fire times to wall-clock boundaries', async () => {
+      const task = await createIntervalTask({ every: '15m', align: true, timezone: 'Asia/Kolkata' });
+
+      await scheduler.rescheduleTask(task);
+
+      // Kolkata is UTC+5:30, so its quarter hours are also UTC quarter hours
+      const nextRun = new Date((await storage.getTask(task.id))!.next_run!);
+      expect(nextRun.getTime()).toBeGreaterThan(Date.now());
+      expect(nextRun.getTime() - Date.now()).toBeLessThanOrEqual(15 * 60 * 1000);
+      expect(nextRun.getUTCMinutes() % 15).toBe(0);
+      expect(nextRun.getUTCSeconds()).toBe(0);
+    });
+
+    it('should continue from the last run stored in the database', async () => {
+      const lastRun = new Date(Date.now() - 20 * 60 * 1000);
+      const task = await createIntervalTask({ every: '1h' }, { last_run: lastRun.toISOString() });
+
+      await scheduler.rescheduleTask(task);
+
+      expect((await storage.getTask(task.id))?.next_run).toBe(new Date(lastRun.getTime() + 3600000).toISOString());
+    });
+  });
+
+  describe('One-shot (at) Tasks', () => {
+    async function createAtTask(at: string, options?: Task['options']): Promise<Task> {
+      return storage.createTask({
+        name: 'One Shot',
+        enabled: true,
+        type: 'bash',
+        task_config: { type: 'bash', command: 'true' },
+        trigger: { type: 'at', at },
+        ...(options && { options }),
+        run_count: 0,
+        success_count: 0,
+        failure_count: 0
+      });
+    }
+
+    it('should fire once at the given time and then disable the task', async () => {
+      const fireTime = new Date(Date.now() + 200).toISOString();
+      const task = await createAtTask(fireTime);
+
+      await scheduler.rescheduleTask(task);
+      expect((await storage.getTask(task.id))?.next_run).toBe(fireTime);
+
+      await TestHelpers.sleep(800);
+
+      const executions = await storage.loadExecutions({ task_id: task.id });
+      expect(executions).toHaveLength(1);
+      expect(executions[0]?.trigger_type).toBe('scheduled');
+      expect(executions[0]?.trigger_context?.scheduled_time).toBe(fireTime);
+
+      expect((await storage.getTask(task.id))?.enabled).toBe(false);
+    });
+
+    it('should delete the task after it runs with after_run delete', async () => {
+      const task = await createAtTask(new Date(Date.now() + 200).toISOString(), { after_run: 'delete' });
+
+      await scheduler.rescheduleTask(task);
+      await TestHelpers.sleep(800);
+
+      expect(await storage.getTask(task.id)).toBeNull();
+    });
+
+    it('should catch up a fire time missed while the server was down', async () => {
+      const task = await createAtTask(new Date(Date.now() - 60000).toISOString());
+
+      await scheduler.start();
+      await TestHelpers.sleep(500);
+
+      const executions = await storage.loadExecutions({ task_id: task.id });
+      expect(executions).toHaveLength(1);
+      expect(executions[0]?.trigger_type).toBe('catchup');
+      expect((await storage.getTask(task.id))?.enabled).toBe(false);
+    });
+
+    it('should not run a missed fire time with misfire_policy skip', async () => {
+      const task = await createAtTask(new Date(Date.now() - 60000).toISOString(), { misfire_policy: 'skip' });
+
+      await scheduler.start();
+
+      expect(await storage.loadExecutions({ task_id: task.id })).toHaveLength(0);
+      expect((await storage.getTask(task.id))?.enabled).toBe(false);
+    });
+
+    it('should not consume the task on manual runs', async () => {
+      const task = await createAtTask(new Date(Date.now() + 3600000).toISOString());
+
+      await scheduler.executeTask(task.id, 'manual');
+      await TestHelpers.sleep(300);
+
+      expect((await storage.getTask(task.id))?.enabled).toBe(true);
+    });
+
+    it('should keep the task due while paused and run it once resumed', async () => {
+      const fireTime = new Date(Date.now() + 200).toISOString();
+      const task = await createAtTask(fireTime);
+
+      await scheduler.pause('maintenance');
+      await scheduler.rescheduleTask(task);
+      await TestHelpers.sleep(500);
+
+      expect((await storage.loadExecutions({ task_id: task.id }))[0]?.status).toBe('skipped');
+      expect((await storage.getTask(task.id))?.enabled).toBe(true);
+
+      await scheduler.resume();
+      await TestHelpers.sleep(500);
+
+      const executions = await storage.loadExecutions({ task_id: task.id, status: 'success' });
+      expect(executions).toHaveLength(1);
+      expect(executions[0]?.trigger_type).toBe('catchup');
+      expect(executions[0]?.trigger_context?.scheduled_time).toBe(fireTime);
+      expect((await storage.getTask(task.id))?.enabled).toBe(false);
+    });
+  });
+
+  describe('Smart Schedule Tasks', () => {
+    it('should repair a fallback cron that breaks its constraints', async () => {
+      const task = await storage.createTask({
+        name: 'Smart Task',
+        enabled: true,
+        type: 'bash',
+        task_config: { type: 'bash', command: 'true' },
+        trigger: {
+          type: 'smart_schedule',
+          description: 'Once a day during business hours',
+          constraints: { business_hours_only: true, max_daily_runs: 1 },
+          ai_optimize: false,
+          fallback_cron: '0 20 * * *'
+        },
+        run_count: 0,
+        success_count: 0,
+        failure_count: 0
+      });
+
+      await scheduler.start();
+
+      const trigger = (await storage.getTask(task.id))?.trigger as SmartScheduleTrigger;
+      expect(trigger.computed_cron).toBe('0 9 * * 1,2,3,4,5');
+      expect(scheduler.getAllScheduledTasks().map(s => s.task.id)).toContain(task.id);
+    });
+
+    it('should fire in the constraints timezone, not the default one', async () => {
+      const task = await storage.createTask(TestHelpers.createMockTask({
+        name: 'Smart Task',
+        trigger: {
+          type: 'smart_schedule',
+          description: 'Once a day during business hours in New York',
+          constraints: { business_hours_only: true, max_daily_runs: 1, timezone: 'America/New_York' },
+          ai_optimize: false,
+          fallback_cron: '0 20 * * *'
+        }
+      }));
+
+      await scheduler.start();
+
+      const scheduled = scheduler.getAllScheduledTasks().find(s => s.task.id === task.id);
+      expect(scheduled?.task.trigger).toMatchObject({ type: 'schedule', timezone: 'America/New_York' });
+
+      const hour = new Intl.DateTimeFormat('en-US', { timeZone: 'America/New_York', hour: 'numeric', hourCycle: 'h23' })
+        .format(new Date(scheduled!.nextRun));
+      expect(hour).toBe('09');
+    });
+  });
+
+  describe('Schedule Preview', () => {
+    // 2025-06-13 is a Friday
+    const now = new Date('2025-06-13T00:00:00Z');
+
+    function createPreviewTask(trigger: any, conditions?: any): Task {
+      return TestHelpers.createMockTask({ id: 'preview-task', trigger, ...(conditions && { conditions }) });
+    }
+
+    it('should mark runs skipped by time windows and blackouts', async () => {
+      const task = createPreviewTask(
+        { type: 'schedule', cron: '0 10 * * *', timezone: 'UTC' },
+        {
+          time_window: { start: '09:00', end: '17:00', days: ['mon', 'tue', 'wed', 'thu', 'fri'] },
+          blackouts: [{ name: 'Freeze', start: '2025-06-17', end: '2025-06-17' }]
+        }
+      );
+
+      const runs = await scheduler.previewSchedule(task, 5, now);
+
+      expect(runs.map(run => run.time)).toEqual([
+        '2025-06-13T10:00:00.000Z',
+        '2025-06-14T10:00:00.000Z',
+        '2025-06-15T10:00:00.000Z',
+        '2025-06-16T10:00:00.000Z',
+        '2025-06-17T10:00:00.000Z'
+      ]);
+      expect(runs.map(run => run.skipped)).toEqual([false, true, true, false, true]);
+      expect(runs[1]?.skip_reason).toMatch(/^time_window: outside/);
+      expect(runs[4]?.skip_reason).toBe('blackout: Freeze (2025-06-17 to 2025-06-17)');
+    });
+
+    it('should stop interval previews at end and max_runs', async () => {
+      const task = createPreviewTask({
+        type: 'interval',
+        every: '1h',
+        start: '2025-06-13T06:00:00Z',
+        end: '2025-06-13T20:00:00Z',
+        max_runs: 3
+      });
+
+      const runs = await scheduler.previewSchedule(task, 10, now);
+
+      expect(runs.map(run => run.time)).toEqual([
+        '2025-06-13T06:00:00.000Z',
+        '2025-06-13T07:00:00.000Z',
+        '2025-06-13T08:00:00.000Z'
+      ]);
+    });
+
+    it('should count only runs the interval trigger started toward max_runs', async () => {
+      const task = await storage.createTask(TestHelpers.createMockTask({
+        trigger: [
+          { type: 'interval', every: '1h', start: '2025-06-13T06:00:00Z', max_runs: 3 },
+          { type: 'interval', every: '1h', start: '2025-06-13T06:30:00Z', max_runs: 1 }
+        ],
+        run_count: 5
+      }));
+
+      const runs: Array<[string, string, any]> = [
+        ['interval', 'success', { trigger_index: 0 }],
+        ['catchup', 'running', { trigger_index: 0 }],
+        ['interval', 'skipped', { trigger_index: 0 }],
+        ['manual', 'success', {}],
+        ['retry', 'pending', { trigger_index: 0 }],
+      ];
+      for (const [trigger_type, status, trigger_context] of runs) {
+        await storage.createExecution({ task_id: task.id, trigger_type, trigger_context, status });
+      }
+
+      const preview = await scheduler.previewSchedule(task, 10, now);
+
+      expect(preview.map(run => [run.time, run.trigger_index])).toEqual([
+        ['2025-06-13T06:00:00.000Z', 0],
+        ['2025-06-13T06:30:00.000Z', 1]
+      ]);
+    });
+
+    it('should reject invalid cron expressions', async () => {
+      const task = createPreviewTask({ type: 'schedule', cron: '0 25 * * *' });
+
+      await expect(scheduler.previewSchedule(task, 5, now)).rejects.toThrow();
+    });
+  });
+
+  describe('Trigger Lists', () => {
+    it('should record which trigger started each run', async () => {
+      const first = new Date(Date.now() + 200).toISOString();
+      const second = new Date(Date.now() + 400).toISOString();
+      const task = await storage.createTask({
+        name: 'Multi Trigger',
+        enabled: true,
+        type: 'bash',
+        task_config: { type: 'bash', command: 'true' },
+        trigger: [
+          { type: 'at', at: second },
+          { type: 'at', at: first },
+          { type: 'hook', event: 'SessionStart' }
+        ],
+        run_count: 0,
+        success_count: 0,
+        failure_count: 0
+      });
+
+      await scheduler.rescheduleTask(task);
+      expect((await storage.getTask(task.id))?.next_run).toBe(first);
+
+      await TestHelpers.sleep(1000);
+
+      const executions = await storage.loadExecutions({ task_id: task.id });
+      expect(executions.map(e => e.trigger_context?.trigger_index).sort()).toEqual([0, 1]);
+
+      // One stats record for the task, which an at trigger in a list does not disable
+      const updated = await storage.getTask(task.id);
+      expect(updated?.run_count).toBe(2);
+      expect(updated?.enabled).toBe(true);
+    });
+
+    it('should unschedule every trigger of a task', async () => {
+      const task = await storage.createTask({
+        name: 'Multi Cron',
+        enabled: true,
+        type: 'bash',
+        task_config: { type: 'bash', command: 'true' },
+        trigger: [
+          { type: 'schedule', cron: '0 9 * * *' },
+          { type: 'schedule', cron: '0 17 * * *' }
+        ],
+        run_count: 0,
+        success_count: 0,
+        failure_count: 0
+      });
+
+      await scheduler.rescheduleTask(task);
+      expect(scheduler.getAllScheduledTasks()).toHaveLength(2);
+
+      await scheduler.unscheduleTask(task.id);
+      expect(scheduler.getAllScheduledTasks()).toHaveLength(0);
+    });
+
+    it('should merge previews of all time-based triggers', async () => {
+      const task = TestHelpers.createMockTask({
+        id: 'preview-task',
+        trigger: [
+          { type: 'schedule', cron: '0 9 * * *', timezone: 'UTC' },
+          { type: 'file_watch', path: '/tmp' },
+          { type: 'schedule', cron: '0 17 * * *', timezone: 'UTC' }
+        ]
+      });
+
+      const runs = await scheduler.previewSchedule(task, 3, new Date('2025-06-13T00:00:00Z'));
+
+      expect(runs.map(run => [run.time, run.trigger_index])).toEqual([
+        ['2025-06-13T09:00:00.000Z', 0],
+        ['2025-06-13T17:00:00.000Z', 2],
+        ['2025-06-14T09:00:00.000Z', 0]
+      ]);
+    });
+  });
+
+  describe('Storage Sync', () => {
+    function cronTask(cronExpression: string): Omit<Task, 'id' | 'created_at' | 'updated_at'> {
+      return {
+        name: 'Synced Task',
+        enabled: true,
+        type: 'bash',
+        task_config: { type: 'bash', command: 'true' },
+        trigger: { type: 'schedule', cron: cronExpression },
+        run_count: 0,
+        success_count: 0,
+        failure_count: 0
+      };
+    }
+
+    it('should leave tasks this scheduler armed alone', async () => {
+      const task = await storage.createTask(cronTask('0 9 * * *'));
+      await scheduler.start();
+      await scheduler.rescheduleTask(task);
+
+      expect(await scheduler.checkDueTasks()).toBe(0);
+      expect(scheduler.getAllScheduledTasks()).toHaveLength(1);
+    });
+
+    it('should arm tasks added by another process', async () => {
+      await scheduler.start();
+      const task = await storage.createTask(cronTask('0 9 * * *'));
+
+      expect(await scheduler.checkDueTasks()).toBe(1);
+      expect(scheduler.getAllScheduledTasks().map(s => s.task.id)).toEqual([task.id]);
+    });
+
+    it('should re-arm edited tasks and drop disabled or deleted ones', async () => {
+      const edited = await storage.createTask(cronTask('0 9 * * *'));
+      const disabled = await storage.createTask(cronTask('0 10 * * *'));
+      const deleted = await storage.createTask(cronTask('0 11 * * *'));
+      await scheduler.start();
+
+      await storage.updateTask(edited.id, { trigger: { type: 'schedule', cron: '30 9 * * *' } });
+      await storage.updateTask(disabled.id, { enabled: false });
+      await storage.deleteTask(deleted.id);
+
+      expect(await scheduler.checkDueTasks()).toBe(3);
+
+      const scheduled = scheduler.getAllScheduledTasks();
+      expect(scheduled.map(s => s.task.id)).toEqual([edited.id]);
+      expect(scheduled[0]!.task.trigger).toMatchObject({ type: 'schedule', cron: '30 9 * * *' });
+      expect(await scheduler.checkDueTasks()).toBe(0);
+    });
+  });
+
   describe('Task Execution', () => {
     it('should execute a manual task', async () => {
       const task = await storage.createTask({
@@ -250,6 +798,69 @@ describe('Scheduler', () => {
       ).rejects.toThrow('Task is disabled');
     });
 
+    it('should skip runs over the rate limit whatever triggered them', async () => {
+      const task = await storage.createTask({
+        name: 'Rate Limited',
+        enabled: true,
+        type: 'bash',
+        task_config: { type: 'bash', command: 'true' },
+        trigger: { type: 'hook', event: 'PostToolUse' },
+        options: { rate_limit: { max_runs: 2, per: '1h' } },
+        run_count: 0,
+        success_count: 0,
+        failure_count: 0
+      });
+
+      await scheduler.executeTask(task.id, 'hook');
+      await scheduler.executeTask(task.id, 'manual');
+      const executionId = await scheduler.executeTask(task.id, 'hook');
+
+      const execution = await storage.getExecution(executionId);
+      expect(execution?.status).toBe('skipped');
+      expect(execution?.skip_reason).toBe('rate_limited: 2 run(s) in the last 1h (max_runs 2)');
+    });
+
+    it('should skip runs while paused or snoozed but not manual runs', async () => {
+      const task = await storage.createTask(TestHelpers.createMockTask());
+
+      await scheduler.pause('maintenance');
+      const pausedRun = await storage.getExecution(await scheduler.executeTask(task.id, 'hook'));
+      expect(pausedRun?.status).toBe('skipped');
+      expect(pausedRun?.skip_reason).toBe('paused: maintenance');
+      expect((await storage.getExecution(await scheduler.executeTask(task.id, 'manual')))?.status).toBe('running');
+      await scheduler.resume();
+
+      const until = new Date(Date.now() + 3600000);
+      await scheduler.snoozeTask(task.id, until);
+      const snoozedRun = await storage.getExecution(await scheduler.executeTask(task.id, 'scheduled'));
+      expect(snoozedRun?.skip_reason).toBe(`snoozed: until ${until.toISOString()}`);
+    });
+
+    it('should resume automatically when the pause expires', async () => {
+      const task = await storage.createTask(TestHelpers.createMockTask());
+
+      await scheduler.pause(undefined, new Date(Date.now() + 100));
+      expect(scheduler.getStatus().paused?.until).toBeTruthy();
+      await TestHelpers.sleep(150);
+
+      expect(scheduler.getStatus().paused).toBeUndefined();
+      const execution = await storage.getExecution(await scheduler.executeTask(task.id, 'hook'));
+      expect(execution?.status).not.toBe('skipped');
+    });
+
+    it('should keep the pause across restarts and for other instances', async () => {
+      const task = await storage.createTask(TestHelpers.createMockTask());
+      await scheduler.pause('maintenance');
+
+      const other = new Scheduler(storage, { default_timezone: 'UTC' });
+      const execution = await storage.getExecution(await other.executeTask(task.id, 'hook'));
+      expect(execution?.skip_reason).toBe('paused: maintenance');
+
+      expect(await other.resume()).toBe(true);
+      expect(await scheduler.getPauseState()).toBeNull();
+      await other.stop();
+    });
+
     it('should create running execution record immediately', async () => {
       const task = await storage.createTask({
         name: 'Test',
@@ -589,5 +1200,93 @@ describe('Scheduler', () => {
       const scheduled = scheduler.getAllScheduledTasks();
       expect(scheduled).toHaveLength(1);
     });
+
+    describe('conditions', () => {
+      afterEach(() => {
+        vi.useRealTimers();
+      });
+
+      async function statusAt(now: string, conditions: Task['conditions']): Promise<string | undefined> {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(new Date(now));
+
+        const task = await storage.createTask({
+          name: 'Zoned Conditions',
+          enabled: true,
+          type: 'bash',
+          task_config: { type: 'bash', command: 'true' },
+          trigger: { type: 'manual', description: 'Manual' },
+          conditions,
+          run_count: 0,
+          success_count: 0,
+          failure_count: 0
+        });
+
+        const executionId = await scheduler.executeTask(task.id);
+        return (await storage.getExecution(executionId))?.status;
+      }
+
+      it('should evaluate time windows in the window timezone', async () => {
+        const window = { start: '09:00', end: '17:00', timezone: 'America/New_York' };
+
+        expect(await statusAt('2025-07-01T14:00:00Z', { time_window: window })).toBe('running'); // 10:00 EDT
+        expect(await statusAt('2025-07-01T22:00:00Z', { time_window: window })).toBe('skipped'); // 18:00 EDT
+        expect(await statusAt('2025-01-15T14:30:00Z', { time_window: window })).toBe('running'); // 09:30 EST
+        expect(await statusAt('2025-01-15T13:30:00Z', { time_window: window })).toBe('skipped'); // 08:30 EST
+      });
+
+      it('should fall back to conditions.timezone for time windows', async () => {
+        const conditions = { timezone: 'Asia/Tokyo', time_window: { start: '09:00', end: '10:00' } };
+
+        expect(await statusAt('2025-07-01T00:30:00Z', conditions)).toBe('running'); // 09:30 JST
+        expect(await statusAt('2025-07-01T09:30:00Z', conditions)).toBe('skipped'); // 18:30 JST
+      });
+
+      it('should handle both sides of windows crossing midnight across a DST change', async () => {
+        const window = { start: '22:00', end: '06:00', timezone: 'Europe/Berlin' };
+
+        expect(await statusAt('2025-03-29T21:30:00Z', { time_window: window })).toBe('running'); // 22:30 CET
+        expect(await statusAt('2025-03-30T03:30:00Z', { time_window: window })).toBe('running'); // 05:30 CEST
+        expect(await statusAt('2025-03-30T04:30:00Z', { time_window: window })).toBe('skipped'); // 06:30 CEST
+      });
+
+      it('should check holidays against the date in the task timezone', async () => {
+        // 2025-07-03T16:00Z is already July 4th in Tokyo but not in UTC
+        const now = '2025-07-03T16:00:00Z';
+
+        expect(await statusAt(now, { skip_holidays: true, holiday_region: 'US' })).toBe('running');
+        expect(await statusAt(now, { skip_holidays: true, holiday_region: 'US', timezone: 'Asia/Tokyo' })).toBe('skipped');
+      });
+
+      it('should record the blackout that skipped a run', async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(new Date('2025-06-13T12:00:00Z'));
+
+        const task = await storage.createTask({
+          name: 'Frozen Task',
+          enabled: true,
+          type: 'bash',
+          task_config: { type: 'bash', command: 'true' },
+          trigger: { type: 'manual', description: 'Manual' },
+          conditions: {
+            blackouts: [{ name: 'Release freeze', start: '2025-06-10', end: '2025-06-20' }]
+          },
+          run_count: 0,
+          success_count: 0,
+          failure_count: 0
+        });
+
+        const execution = await storage.getExecution(await scheduler.executeTask(task.id));
+
+        expect(execution?.status).toBe('skipped');
+        expect(execution?.skip_reason).toBe('blackout: Release freeze (2025-06-10 to 2025-06-20)');
+      });
+
+      it('should skip tasks with an invalid timezone', async () => {
+        const window = { start: '00:00', end: '23:59', timezone: 'Not/AZone' };
+
+        expect(await statusAt('2025-07-01T12:00:00Z', { time_window: window })).toBe('skipped');
+      });
+    });
   });
 });
@@ -0,0 +1,142 @@
+/**
+ * Smart Schedule Constraints Unit Tests
+ *
+ * Tests constraint simulation, cron repair and local schedule generation
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  checkSmartSchedule,
+  repairSmartSchedule,
+  buildSmartSchedule,
+  enforceSmartSchedule,
+  getCronFireTimes
+} from '../../../src/scheduler/smart-schedule-constraints.js';
+
+describe('Smart Schedule Constraints', () => {
+  // 2025-06-09 is a Monday
+  const from = new Date('2025-06-09T00:00:00Z');
+  const options = { timezone: 'UTC', from };
+
+  describe('checkSmartSchedule', () => {
+    it('should accept a cron that satisfies every constraint', () => {
+      const constraints = { business_hours_only: true, max_daily_runs: 1, max_weekly_runs: 5 };
+
+      expect(checkSmartSchedule('0 10 * * 1-5', constraints, options)).toEqual([]);
+    });
+
+    it('should report runs outside business hours and over the daily limit', () => {
+      const violations = checkSmartSchedule(
+        '0 8,12,20 * * *',
+        { business_hours_only: true, max_daily_runs: 2 },
+        options
+      );
+
+      expect(violations.map(v => v.constraint)).toContain('business_hours_only');
+      expect(violations.map(v => v.constraint)).toContain('max_daily_runs');
+      expect(violations[0]!.message).toBe('2025-06-09T08:00:00.000Z is outside business hours (Mon-Fri 09:00-17:00 UTC)');
+    });
+
+    it('should count weekly runs from Monday in the timezone', () => {
+      const violations = checkSmartSchedule('0 3 * * *', { max_weekly_runs: 6 }, options);
+
+      expect(violations[0]).toEqual({
+        constraint: 'max_weekly_runs',
+        message: 'more than 6 run(s) in the week of 2025-06-09',
+      });
+    });
+
+    it('should evaluate the cron and preferred windows in the constraint timezone', () => {
+      const constraints = { preferred_time_windows: ['morning'] };
+      const losAngeles = { ...options, timezone: 'America/Los_Angeles' };
+
+      expect(checkSmartSchedule('0 7 * * *', constraints, losAngeles)).toEqual([]);
+      expect(checkSmartSchedule('0 13 * * *', constraints, losAngeles)[0]).toEqual({
+        constraint: 'preferred_time_windows',
+        message: '2025-06-09T20:00:00.000Z is outside morning',
+      });
+    });
+
+    it('should reject runs close to tasks it must avoid', () => {
+      const busy = [{
+        task_id: 'backup',
+        name: 'Nightly backup',
+        times: getCronFireTimes('0 2 * * *', 'UTC', from, new Date('2025-07-14T00:00:00Z'))
+      }];
+      const constraints = { avoid_conflicts_with: ['backup'] };
+
+      expect(checkSmartSchedule('10 2 * * *', constraints, { ...options, busy })[0]).toEqual({
+        constraint: 'avoid_conflicts_with',
+        message: '2025-06-09T02:10:00.000Z is within 15m of Nightly backup (backup) at 2025-06-09T02:00:00.000Z',
+      });
+      expect(checkSmartSchedule('15 2 * * *', constraints, { ...options, busy })).toEqual([]);
+    });
+
+    it('should reject unknown preferred windows', () => {
+      expect(() => checkSmartSchedule('0 9 * * *', { preferred_time_windows: ['brunch'] }, options))
+        .toThrow('Unknown preferred time window: brunch');
+    });
+  });
+
+  describe('repairSmartSchedule', () => {
+    it('should keep the minute and move hours into the allowed range', () => {
+      const repaired = repairSmartSchedule('30 */2 * * *', { avoid_peak_hours: true, max_daily_runs: 3 }, options);
+
+      expect(repaired).toBe('30 0,4,18 * * *');
+      expect(checkSmartSchedule(repaired!, { avoid_peak_hours: true, max_daily_runs: 3 }, options)).toEqual([]);
+    });
+
+    it('should restrict weekdays to meet the weekly limit', () => {
+      const repaired = repairSmartSchedule('0 10 * * *', { max_weekly_runs: 2 }, options);
+
+      expect(repaired).toBe('0 10 * * 0,3');
+    });
+
+    it('should repair aliases and business-day expressions', () => {
+      const constraints = { business_hours_only: true };
+
+      expect(repairSmartSchedule('@daily', constraints, options)).toBe('0 9 * * 1,2,3,4,5');
+
+      const repaired = repairSmartSchedule('0 20 LB * *', constraints, options);
+      expect(repaired).toBe('0 9 LB * *');
+      expect(checkSmartSchedule(repaired!, constraints, options)).toEqual([]);
+    });
+  });
+
+  describe('buildSmartSchedule', () => {
+    it('should build a weekday business hours schedule', () => {
+      expect(buildSmartSchedule({ business_hours_only: true }, options)).toBe('0 9 * * 1,2,3,4,5');
+    });
+
+    it('should move away from conflicting tasks', () => {
+      const busy = [{
+        task_id: 'report',
+        name: 'Report',
+        times: getCronFireTimes('0 * * * *', 'UTC', from, new Date('2025-07-14T00:00:00Z'))
+      }];
+      const constraints = { preferred_time_windows: ['evening'], avoid_conflicts_with: ['report'] };
+
+      const cron = buildSmartSchedule(constraints, { ...options, busy });
+
+      expect(cron).toBe('15 17 * * *');
+    });
+  });
+
+  describe('enforceSmartSchedule', () => {
+    it('should report where the cron came from', () => {
+      const constraints = { business_hours_only: true };
+
+      expect(enforceSmartSchedule('0 10 * * 1-5', constraints, options).source).toBe('candidate');
+      expect(enforceSmartSchedule('0 20 * * 1-5', constraints, options)).toMatchObject({
+        cron: '0 9 * * 1,2,3,4,5',
+        source: 'repaired'
+      });
+      expect(enforceSmartSchedule(undefined, constraints, options).source).toBe('generated');
+    });
+
+    it('should throw when the constraints cannot be met', () => {
+      expect(() => enforceSmartSchedule(undefined, { business_hours_only: true, avoid_peak_hours: true }, options))
+        .toThrow('No schedule satisfies the constraints');
+    });
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Time Conditions Unit Tests
+ *
+ * Tests time windows with weekday filters and blackout periods
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  isWithinTimeWindow,
+  isInBlackout,
+  checkTimeConditions
+} from '../../../src/scheduler/time-conditions.js';
+import { TaskConditions, TimeWindow } from '../../../src/models/types.js';
+
+describe('Time Conditions', () => {
+  // 2025-06-13 is a Friday
+  const fridayNoon = new Date('2025-06-13T12:00:00Z');
+  const saturdayNoon = new Date('2025-06-14T12:00:00Z');
+
+  describe('isWithinTimeWindow', () => {
+    const weekdays: TimeWindow = { start: '09:00', end: '17:00', days: ['mon', 'tue', 'wed', 'thu', 'fri'] };
+
+    it('should only open on the listed days', () => {
+      expect(isWithinTimeWindow(weekdays, 'UTC', fridayNoon)).toBe(true);
+      expect(isWithinTimeWindow(weekdays, 'UTC', saturdayNoon)).toBe(false);
+    });
+
+    it('should use the weekday in the window timezone', () => {
+      // Friday 23:30 UTC is already Saturday in Tokyo
+      const window: TimeWindow = { start: '00:00', end: '23:59', days: ['fri'] };
+      const now = new Date('2025-06-13T23:30:00Z');
+
+      expect(isWithinTimeWindow(window, 'UTC', now)).toBe(true);
+      expect(isWithinTimeWindow(window, 'Asia/Tokyo', now)).toBe(false);
+    });
+
+    it('should attribute overnight windows to the day they open on', () => {
+      const window: TimeWindow = { start: '22:00', end: '06:00', days: ['fri'] };
+
+      expect(isWithinTimeWindow(window, 'UTC', new Date('2025-06-13T23:00:00Z'))).toBe(true);  // Fri 23:00
+      expect(isWithinTimeWindow(window, 'UTC', new Date('2025-06-14T03:00:00Z'))).toBe(true);  // Sat 03:00
+      expect(isWithinTimeWindow(window, 'UTC', new Date('2025-06-13T03:00:00Z'))).toBe(false); // Fri 03:00
+      expect(isWithinTimeWindow(window, 'UTC', new Date('2025-06-14T23:00:00Z'))).toBe(false); // Sat 23:00
+    });
+  });
+
+  describe('isInBlackout', () => {
+    it('should cover whole days for date-only bounds', () => {
+      const freeze = { name: 'Freeze', start: '2025-06-13', end: '2025-06-14' };
+
+      expect(isInBlackout(freeze, 'UTC', new Date('2025-06-13T00:00:00Z'))).toBe(true);
+      expect(isInBlackout(freeze, 'UTC', new Date('2025-06-14T23:59:00Z'))).toBe(true);
+      expect(isInBlackout(freeze, 'UTC', new Date('2025-06-15T00:00:00Z'))).toBe(false);
+      expect(isInBlackout(freeze, 'America/Los_Angeles', new Date('2025-06-15T03:00:00Z'))).toBe(true);
+    });
+
+    it('should compare instants for timestamp bounds', () => {
+      const maintenance = { name: 'Maintenance', start: '2025-06-13T10:00:00Z', end: '2025-06-13T14:00:00Z' };
+
+      expect(isInBlackout(maintenance, 'UTC', fridayNoon)).toBe(true);
+      expect(isInBlackout(maintenance, 'UTC', saturdayNoon)).toBe(false);
+    });
+  });
+
+  describe('checkTimeConditions', () => {
+    it('should allow runs inside any of several windows', () => {
+      const conditions: TaskConditions = {
+        time_windows: [
+          { start: '08:00', end: '10:00' },
+          { start: '11:00', end: '13:00', days: ['fri'] }
+        ]
+      };
+
+      expect(checkTimeConditions(conditions, 'UTC', fridayNoon)).toBeNull();
+    });
+
+    it('should list the windows when outside all of them', () => {
+      const conditions: TaskConditions = {
+        time_windows: [
+          { name: 'Morning', start: '08:00', end: '10:00' },
+          { start: '11:00', end: '13:00', days: ['mon'] }
+        ]
+      };
+
+      expect(checkTimeConditions(conditions, 'UTC', fridayNoon)).toBe(
+        'time_window: outside Morning; mon 11:00-13:00 UTC'
+      );
+    });
+
+    it('should name the blackout that blocks a run even inside a window', () => {
+      const conditions = {
+        time_window: { start: '00:00', end: '23:59' },
+        blackouts: [{ name: 'Release freeze', start: '2025-06-10', end: '2025-06-20' }]
+      };
+
+      expect(checkTimeConditions(conditions, 'UTC', fridayNoon)).toBe(
+        'blackout: Release freeze (2025-06-10 to 2025-06-20)'
+      );
+    });
+
+    it('should reject invalid timezones', () => {
+      const conditions = { time_windows: [{ start: '00:00', end: '23:59', timezone: 'Not/AZone' }] };
+
+      expect(checkTimeConditions(conditions, 'UTC', fridayNoon)).toBe('timezone: invalid timezone "Not/AZone"');
+    });
+  });
+});
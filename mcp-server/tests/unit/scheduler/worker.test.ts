@@ -0,0 +1,167 @@
+/**
+ * Worker Unit Tests
+ *
+ * Tests workers mode: the scheduler queues executions, workers claim,
+ * run and heartbeat them
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Scheduler } from '../../../src/scheduler/scheduler.js';
+import { Worker } from '../../../src/scheduler/worker.js';
+import { MockStorage, TestHelpers } from '../../fixtures/test-helpers.js';
+import { Task } from '../../../src/models/types.js';
+
+describe('Worker', () => {
+  let storage: MockStorage;
+  let scheduler: Scheduler;
+  let worker: Worker;
+
+  beforeEach(() => {
+    storage = new MockStorage();
+    scheduler = new Scheduler(storage, { default_timezone: 'UTC', execution_mode: 'workers' });
+    worker = new Worker(storage, { worker_id: 'worker-1', poll_interval: '1h', heartbeat_interval: '1s' });
+  });
+
+  afterEach(async () => {
+    await worker.stop();
+    await scheduler.stop();
+  });
+
+  async function createTask(command: string, overrides?: Partial<Task>): Promise<Task> {
+    return storage.createTask({
+      ...TestHelpers.createMockTask(overrides),
+      task_config: { type: 'bash', command },
+    });
+  }
+
+  it('should queue executions in workers mode instead of running them', async () => {
+    const task = await createTask('echo queued');
+
+    const executionId = await scheduler.executeTask(task.id, 'manual');
+    await TestHelpers.sleep(200);
+
+    const execution = await storage.getExecution(executionId);
+    expect(execution?.status).toBe('pending');
+    expect(scheduler.getStatus().running_executions).toBe(0);
+  });
+
+  it('should claim and run queued executions', async () => {
+    const task = await createTask('echo from worker');
+    const executionId = await scheduler.executeTask(task.id, 'manual');
+
+    await worker.start();
+    await TestHelpers.sleep(500);
+
+    const execution = await storage.getExecution(executionId);
+    expect(execution?.status).toBe('success');
+    expect(execution?.output).toContain('from worker');
+    expect(execution?.worker_id).toBe('worker-1');
+    expect((await storage.getTask(task.id))?.success_count).toBe(1);
+  });
+
+  it('should claim no more than its concurrency', async () => {
+    const limited = new Worker(storage, { worker_id: 'worker-2', concurrency: 2, poll_interval: '1h' });
+    const task = await createTask('sleep 0.5');
+    for (let i = 0; i < 3; i++) {
+      await scheduler.executeTask(task.id, 'manual');
+    }
+
+    await limited.start();
+
+    expect(limited.getRunningCount()).toBe(2);
+    expect(await storage.loadExecutions({ status: 'pending' })).toHaveLength(1);
+
+    await limited.stop();
+  });
+
+  it('should not run executions cancelled while queued', async () => {
+    const task = await createTask('echo never');
+    const executionId = await scheduler.executeTask(task.id, 'manual');
+
+    expect(await scheduler.cancelExecution(executionId, 'Cancelled by user')).toBe(true);
+    await worker.start();
+
+    expect(worker.getRunningCount()).toBe(0);
+    expect((await storage.getExecution(executionId))?.status).toBe('cancelled');
+  });
+
+  it('should abort a running execution cancelled by the scheduler', async () => {
+    const task = await createTask('sleep 5');
+    const executionId = await scheduler.executeTask(task.id, 'manual');
+
+    await worker.start();
+    await TestHelpers.sleep(100);
+    await scheduler.cancelExecution(executionId, 'Cancelled by user');
+
+    // Noticed on the next heartbeat
+    await TestHelpers.sleep(1500);
+
+    expect(worker.getRunningCount()).toBe(0);
+    const execution = await storage.getExecution(executionId);
+    expect(execution?.status).toBe('cancelled');
+    expect(execution?.error).toContain('Cancelled by user');
+  });
+
+  it('should leave retries of failed runs for the scheduler to arm', async () => {
+    const task = await createTask('exit 1', {
+      options: { retry: { max_attempts: 1, backoff: 'linear', initial_delay: 100, max_delay: 100 } },
+    });
+    await scheduler.executeTask(task.id, 'manual');
+
+    await worker.start();
+    await TestHelpers.sleep(500);
+    await worker.stop();
+
+    expect(await storage.loadPendingRetries(task.id)).toHaveLength(1);
+    expect(await storage.loadExecutions({ task_id: task.id, status: 'pending' })).toHaveLength(0);
+
+    await scheduler.checkDueTasks();
+    await TestHelpers.sleep(300);
+
+    expect(await storage.loadPendingRetries(task.id)).toHaveLength(0);
+    const retries = await storage.loadExecutions({ task_id: task.id, status: 'pending' });
+    expect(retries.map(execution => execution.trigger_type)).toEqual(['retry']);
+  });
+
+  it('should interrupt runs whose worker stopped sending heartbeats', async () => {
+    const task = await createTask('echo lost');
+    const stale = await storage.createExecution({
+      task_id: task.id,
+      trigger_type: 'manual',
+      status: 'running',
+      started_at: '2025-06-13T12:00:00.000Z',
+      worker_id: 'worker-gone',
+      heartbeat_at: '2025-06-13T12:00:00.000Z',
+    });
+    const alive = await storage.createExecution({
+      task_id: task.id,
+      trigger_type: 'manual',
+      status: 'running',
+      started_at: '2025-06-13T12:00:00.000Z',
+      worker_id: 'worker-1',
+      heartbeat_at: '2025-06-13T12:01:30.000Z',
+    });
+
+    const recovered = await scheduler.recoverStaleWorkerExecutions(new Date('2025-06-13T12:02:00.000Z'));
+
+    expect(recovered).toBe(1);
+    expect((await storage.getExecution(stale.id))?.status).toBe('interrupted');
+    expect((await storage.getExecution(alive.id))?.status).toBe('running');
+  });
+
+  it('should abandon a run the sweep interrupted without recording it again', async () => {
+    const task = await createTask('sleep 5');
+    const executionId = await scheduler.executeTask(task.id, 'manual');
+
+    await worker.start();
+    await TestHelpers.sleep(100);
+    expect(await scheduler.recoverStaleWorkerExecutions(new Date(Date.now() + 3600000))).toBe(1);
+
+    // Noticed on the next heartbeat
+    await TestHelpers.sleep(1500);
+
+    expect(worker.getRunningCount()).toBe(0);
+    expect((await storage.getExecution(executionId))?.status).toBe('interrupted');
+    expect(await storage.getTask(task.id)).toMatchObject({ run_count: 1, failure_count: 1 });
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * WorkflowManager Unit Tests
+ *
+ * Tests workflow validation, fan-out/fan-in ordering, blocking after
+ * failures and cancellation of workflow runs
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Scheduler } from '../../../src/scheduler/scheduler.js';
+import { validateWorkflow } from '../../../src/scheduler/workflow-manager.js';
+import { MockStorage, TestHelpers } from '../../fixtures/test-helpers.js';
+import { Task, Workflow, WorkflowRun } from '../../../src/models/types.js';
+
+describe('WorkflowManager', () => {
+  let storage: MockStorage;
+  let scheduler: Scheduler;
+
+  beforeEach(() => {
+    storage = new MockStorage();
+    scheduler = new Scheduler(storage, { default_timezone: 'UTC' });
+  });
+
+  afterEach(async () => {
+    await scheduler.stop();
+  });
+
+  async function createTask(name: string, command: string, overrides?: Partial<Task>): Promise<Task> {
+    return storage.createTask({
+      ...TestHelpers.createMockTask({ name, ...overrides }),
+      task_config: { type: 'bash', command },
+    });
+  }
+
+  /**
+   * build -> (test, lint) -> deploy
+   */
+  async function createPipeline(commands: Record<string, string>): Promise<Workflow> {
+    const steps = [];
+    for (const id of ['build', 'test', 'lint', 'deploy']) {
+      const task = await createTask(id, commands[id] ?? `echo ${id}`);
+      steps.push({ id, task_id: task.id });
+    }
+
+    return scheduler.workflowManager.createWorkflow({
+      name: 'Pipeline',
+      steps,
+      edges: [
+        { from: 'build', to: 'test' },
+        { from: 'build', to: 'lint' },
+        { from: 'test', to: 'deploy' },
+        { from: 'lint', to: 'deploy' },
+      ],
+    });
+  }
+
+  async function waitForRun(runId: string): Promise<WorkflowRun> {
+    for (let i = 0; i < 50; i++) {
+      const run = await storage.getWorkflowRun(runId);
+      if (run && run.status !== 'running') {
+        return run;
+      }
+      await TestHelpers.sleep(100);
+    }
+    throw new Error(`Workflow run ${runId} did not finish`);
+  }
+
+  function stepStatuses(run: WorkflowRun): Record<string, string> {
+    return Object.fromEntries(run.steps.map(step => [step.step_id, step.status]));
+  }
+
+  describe('validateWorkflow', () => {
+    const steps = [{ id: 'a', task_id: 't1' }, { id: 'b', task_id: 't2' }];
+
+    it('should reject unknown steps and cycles', () => {
+      expect(() => validateWorkflow({ steps, edges: [{ from: 'a', to: 'c' }] }))
+        .toThrow('Workflow edge references unknown step: c');
+      expect(() => validateWorkflow({ steps: [...steps, steps[0]!], edges: [] }))
+        .toThrow('Duplicate workflow step: a');
+      expect(() => validateWorkflow({ steps, edges: [{ from: 'a', to: 'b' }, { from: 'b', to: 'a' }] }))
+        .toThrow('Workflow has a cycle');
+      expect(() => validateWorkflow({ steps, edges: [{ from: 'a', to: 'b' }] })).not.toThrow();
+    });
+
+    it('should reject steps whose task does not exist', async () => {
+      await expect(scheduler.workflowManager.createWorkflow({
+        name: 'Broken',
+        steps: [{ id: 'a', task_id: 'missing' }],
+        edges: [],
+      })).rejects.toThrow('Task not found for step a: missing');
+    });
+  });
+
+  describe('Runs', () => {
+    it('should fan out and join before running the last step', async () => {
+      const workflow = await createPipeline({});
+
+      const run = await scheduler.workflowManager.startRun(workflow.id);
+      expect(stepStatuses(run)).toEqual({ build: 'running', test: 'pending', lint: 'pending', deploy: 'pending' });
+
+      const finished = await waitForRun(run.id);
+
+      expect(finished.status).toBe('success');
+      expect(stepStatuses(finished)).toEqual({ build: 'success', test: 'success', lint: 'success', deploy: 'success' });
+
+      const steps = Object.fromEntries(finished.steps.map(step => [step.step_id, step]));
+      for (const upstream of ['test', 'lint']) {
+        expect(steps.deploy!.started_at! >= steps[upstream]!.completed_at!).toBe(true);
+      }
+
+      const deploy = await storage.getExecution(steps.deploy!.execution_id!);
+      expect(deploy?.trigger_type).toBe('workflow');
+      expect(deploy?.trigger_context.workflow).toEqual({ run_id: run.id, step_id: 'deploy' });
+    });
+
+    it('should block the steps downstream of a failure', async () => {
+      const workflow = await createPipeline({ lint: 'exit 1' });
+
+      const run = await scheduler.workflowManager.startRun(workflow.id);
+      const finished = await waitForRun(run.id);
+
+      expect(finished.status).toBe('failure');
+      expect(stepStatuses(finished)).toEqual({ build: 'success', test: 'success', lint: 'failure', deploy: 'blocked' });
+      expect(finished.error).toContain('lint');
+      expect(await storage.loadExecutions({ task_id: workflow.steps[3]!.task_id })).toHaveLength(0);
+    });
+
+    it('should cancel waiting and running steps', async () => {
+      const workflow = await createPipeline({ build: 'sleep 5' });
+      const run = await scheduler.workflowManager.startRun(workflow.id);
+      await TestHelpers.sleep(100);
+
+      const cancelled = await scheduler.workflowManager.cancelRun(run.id, 'Stopped by test');
+      expect(cancelled?.status).toBe('cancelled');
+
+      const finished = await waitForRun(run.id);
+      await TestHelpers.sleep(200);
+      const final = (await storage.getWorkflowRun(finished.id))!;
+
+      expect(stepStatuses(final)).toEqual({ build: 'cancelled', test: 'cancelled', lint: 'cancelled', deploy: 'cancelled' });
+      expect(final.error).toBe('Stopped by test');
+      expect(await scheduler.workflowManager.cancelRun(run.id)).toBeNull();
+    });
+
+    it('should finish the run when a queued step execution is cancelled', async () => {
+      scheduler = new Scheduler(storage, { default_timezone: 'UTC', max_concurrent_tasks: 1 });
+      const blocker = await createTask('blocker', 'sleep 5');
+      const blocking = await scheduler.executeTask(blocker.id, 'manual');
+
+      const step = await createTask('step', 'echo step');
+      const workflow = await scheduler.workflowManager.createWorkflow({
+        name: 'Single',
+        steps: [{ id: 'step', task_id: step.id }],
+        edges: [],
+      });
+      const run = await scheduler.workflowManager.startRun(workflow.id);
+      const executionId = (await storage.getWorkflowRun(run.id))!.steps[0]!.execution_id!;
+      expect((await storage.getExecution(executionId))?.status).toBe('pending');
+
+      expect(await scheduler.cancelExecution(executionId, 'Stopped by test')).toBe(true);
+      const finished = await waitForRun(run.id);
+
+      expect(stepStatuses(finished)).toEqual({ step: 'cancelled' });
+      expect((await storage.getTask(step.id))?.run_count).toBe(1);
+      await scheduler.cancelExecution(blocking, 'Done');
+    });
+  });
+});
@@ -8,6 +8,7 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { SQLiteStorage } from '../../../src/storage/sqlite.js';
 import { TestHelpers } from '../../fixtures/test-helpers.js';
+import { WorkflowRun } from '../../../src/models/types.js';
 import fs from 'fs';
 import path from 'path';
 
@@ -147,6 +148,26 @@ describe('SQLiteStorage', () => {
       expect(updated.id).toBe(task.id); // ID should not change
     });
 
+    it('should persist and clear snoozed_until', async () => {
+      const task = await storage.createTask({
+        name: 'Snoozed',
+        enabled: true,
+        type: 'bash',
+        task_config: { type: 'bash', command: 'test' },
+        trigger: { type: 'manual', description: 'Test' },
+        run_count: 0,
+        success_count: 0,
+        failure_count: 0
+      });
+
+      await storage.updateTask(task.id, { snoozed_until: '2025-06-20T09:00:00.000Z' });
+      const snoozed = await storage.getTask(task.id);
+      expect(snoozed?.snoozed_until).toBe('2025-06-20T09:00:00.000Z');
+
+      await storage.updateTask(task.id, { snoozed_until: null });
+      expect((await storage.getTask(task.id))?.snoozed_until).toBeUndefined();
+    });
+
     it('should throw error when updating non-existent task', async () => {
       await expect(
         storage.updateTask('non-existent', { name: 'Updated' })
@@ -268,6 +289,31 @@ describe('SQLiteStorage', () => {
       expect(hookTasks[0].name).toBe('Hook Task');
     });
 
+    it('should match any trigger in a trigger list', async () => {
+      await storage.createTask({
+        name: 'Multi Trigger',
+        enabled: true,
+        type: 'bash',
+        task_config: { type: 'bash', command: 'test' },
+        trigger: [
+          { type: 'schedule', cron: '0 9 * * *' },
+          { type: 'hook', event: 'SessionStart' }
+        ],
+        run_count: 0,
+        success_count: 0,
+        failure_count: 0
+      });
+
+      const schedule = await storage.loadTasks({ trigger_type: 'schedule' });
+      expect(schedule.map(t => t.name).sort()).toEqual(['Enabled AI', 'Multi Trigger']);
+
+      const sessionStart = await storage.loadTasks({ trigger_event: 'SessionStart' });
+      expect(sessionStart).toHaveLength(1);
+      expect(sessionStart[0].trigger).toHaveLength(2);
+
+      expect(await storage.loadTasks({ trigger_type: 'interval' })).toHaveLength(0);
+    });
+
     it('should combine multiple filters', async () => {
       const filtered = await storage.loadTasks({
         enabled: true,
@@ -521,6 +567,299 @@ describe('SQLiteStorage', () => {
     });
   });
 
+  describe('Pending Retry Operations', () => {
+    let taskId: string;
+
+    beforeEach(async () => {
+      const task = await storage.createTask(TestHelpers.createMockTask());
+      taskId = task.id;
+    });
+
+    it('should create and load pending retries ordered by due time', async () => {
+      await storage.createPendingRetry({
+        task_id: taskId,
+        execution_id: 'exec-2',
+        attempt: 2,
+        due_at: '2025-01-01T10:05:00.000Z',
+        trigger_context: { retry_count: 2 }
+      });
+      await storage.createPendingRetry({
+        task_id: taskId,
+        execution_id: 'exec-1',
+        attempt: 1,
+        due_at: '2025-01-01T10:00:00.000Z',
+        trigger_context: { retry_count: 1 }
+      });
+
+      const retries = await storage.loadPendingRetries(taskId);
+
+      expect(retries.map(r => r.attempt)).toEqual([1, 2]);
+      expect(retries[0]!.trigger_context).toEqual({ retry_count: 1 });
+      expect(await storage.loadPendingRetries('other-task')).toHaveLength(0);
+    });
+
+    it('should delete pending retries', async () => {
+      const retry = await storage.createPendingRetry({
+        task_id: taskId,
+        execution_id: 'exec-1',
+        attempt: 1,
+        due_at: new Date().toISOString(),
+        trigger_context: {}
+      });
+
+      expect(await storage.deletePendingRetry(retry.id)).toBe(true);
+      expect(await storage.deletePendingRetry(retry.id)).toBe(false);
+      expect(await storage.loadPendingRetries()).toHaveLength(0);
+    });
+  });
+
+  describe('Worker Claims', () => {
+    let taskId: string;
+
+    beforeEach(async () => {
+      const task = await storage.createTask({
+        name: 'Test',
+        enabled: true,
+        type: 'bash',
+        task_config: { type: 'bash', command: 'test' },
+        trigger: { type: 'manual', description: 'Test' },
+        run_count: 0,
+        success_count: 0,
+        failure_count: 0
+      });
+      taskId = task.id;
+    });
+
+    it('should claim the oldest pending execution once', async () => {
+      const older = await storage.createExecution({
+        task_id: taskId, trigger_type: 'manual', status: 'pending', started_at: '2025-06-13T12:00:00.000Z'
+      });
+      await storage.createExecution({
+        task_id: taskId, trigger_type: 'manual', status: 'pending', started_at: '2025-06-13T12:05:00.000Z'
+      });
+
+      const claimed = await storage.claimExecution('worker-1');
+      expect(claimed?.id).toBe(older.id);
+      expect(claimed?.status).toBe('running');
+      expect(claimed?.worker_id).toBe('worker-1');
+      expect(claimed?.heartbeat_at).toBeDefined();
+
+      expect((await storage.claimExecution('worker-2'))?.id).not.toBe(older.id);
+      expect(await storage.claimExecution('worker-2')).toBeNull();
+    });
+
+    it('should pass over tasks already running max_concurrent executions', async () => {
+      await storage.updateTask(taskId, { options: { max_concurrent: 1 } });
+      const other = await storage.createTask({
+        name: 'Other',
+        enabled: true,
+        type: 'bash',
+        task_config: { type: 'bash', command: 'test' },
+        trigger: { type: 'manual', description: 'Test' },
+        run_count: 0,
+        success_count: 0,
+        failure_count: 0
+      });
+      const first = await storage.createExecution({
+        task_id: taskId, trigger_type: 'manual', status: 'pending', started_at: '2025-06-13T12:00:00.000Z'
+      });
+      const second = await storage.createExecution({
+        task_id: taskId, trigger_type: 'manual', status: 'pending', started_at: '2025-06-13T12:01:00.000Z'
+      });
+      const unlimited = await storage.createExecution({
+        task_id: other.id, trigger_type: 'manual', status: 'pending', started_at: '2025-06-13T12:02:00.000Z'
+      });
+
+      expect((await storage.claimExecution('worker-1'))?.id).toBe(first.id);
+      expect((await storage.claimExecution('worker-2'))?.id).toBe(unlimited.id);
+      expect(await storage.claimExecution('worker-2')).toBeNull();
+
+      await storage.updateExecution(first.id, { status: 'success' });
+      expect((await storage.claimExecution('worker-2'))?.id).toBe(second.id);
+    });
+
+    it('should accept heartbeats only from the claiming worker while running', async () => {
+      await storage.createExecution({
+        task_id: taskId, trigger_type: 'manual', status: 'pending', started_at: new Date().toISOString()
+      });
+      const claimed = (await storage.claimExecution('worker-1'))!;
+
+      expect(await storage.heartbeatExecution(claimed.id, 'worker-1')).toBe(true);
+      expect(await storage.heartbeatExecution(claimed.id, 'worker-2')).toBe(false);
+
+      await storage.updateExecution(claimed.id, { status: 'cancelled' });
+      expect(await storage.heartbeatExecution(claimed.id, 'worker-1')).toBe(false);
+    });
+  });
+
+  describe('Leases', () => {
+    it('should grant a lease to one owner until it expires', async () => {
+      expect(await storage.acquireLease('fire:task-1', 'node-a', 60000)).toBe(true);
+      expect(await storage.acquireLease('fire:task-1', 'node-b', 60000)).toBe(false);
+
+      // The holder can renew its own lease
+      expect(await storage.acquireLease('fire:task-1', 'node-a', 60000)).toBe(true);
+
+      // Other keys are independent
+      expect(await storage.acquireLease('fire:task-2', 'node-b', 60000)).toBe(true);
+    });
+
+    it('should let another owner take an expired lease', async () => {
+      expect(await storage.acquireLease('fire:task-1', 'node-a', 1)).toBe(true);
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(await storage.acquireLease('fire:task-1', 'node-b', 60000)).toBe(true);
+      expect(await storage.acquireLease('fire:task-1', 'node-a', 60000)).toBe(false);
+    });
+  });
+
+  describe('Scheduler Pause', () => {
+    it('should save, replace and clear the pause', async () => {
+      expect(await storage.getSchedulerPause()).toBeNull();
+
+      await storage.saveSchedulerPause({ paused_at: '2025-06-13T12:00:00.000Z', reason: 'maintenance' });
+      await storage.saveSchedulerPause({ paused_at: '2025-06-13T13:00:00.000Z', until: '2025-06-13T14:00:00.000Z' });
+      expect(await storage.getSchedulerPause()).toEqual({
+        paused_at: '2025-06-13T13:00:00.000Z',
+        until: '2025-06-13T14:00:00.000Z',
+      });
+
+      await storage.saveSchedulerPause(null);
+      expect(await storage.getSchedulerPause()).toBeNull();
+    });
+  });
+
+  describe('Dependency State', () => {
+    it('should save and replace dependency state by trigger key', async () => {
+      const task = await storage.createTask(TestHelpers.createMockTask());
+
+      await storage.saveDependencyState({
+        key: task.id,
+        task_id: task.id,
+        completed: { 'task-a': '2025-01-01T00:00:00.000Z' },
+      });
+      await storage.saveDependencyState({
+        key: task.id,
+        task_id: task.id,
+        completed: {},
+        last_triggered: '2025-01-01T00:05:00.000Z',
+      });
+
+      const states = await storage.loadDependencyStates();
+      expect(states).toEqual([{
+        key: task.id,
+        task_id: task.id,
+        completed: {},
+        last_triggered: '2025-01-01T00:05:00.000Z',
+      }]);
+
+      // Removed with its task
+      await storage.deleteTask(task.id);
+      expect(await storage.loadDependencyStates()).toHaveLength(0);
+    });
+
+    it('should change dependency state on top of what other connections saved', async () => {
+      const task = await storage.createTask(TestHelpers.createMockTask());
+
+      // A second connection stands in for another worker process
+      const other = new SQLiteStorage(dbPath);
+      try {
+        await storage.changeDependencyState(task.id, task.id, state => {
+          state.completed['task-a'] = '2025-01-01T00:00:00.000Z';
+          return true;
+        });
+        await other.changeDependencyState(task.id, task.id, state => {
+          state.completed['task-b'] = '2025-01-01T00:01:00.000Z';
+          return true;
+        });
+      } finally {
+        await other.close();
+      }
+
+      const [state] = await storage.loadDependencyStates();
+      expect(state?.completed).toEqual({
+        'task-a': '2025-01-01T00:00:00.000Z',
+        'task-b': '2025-01-01T00:01:00.000Z',
+      });
+      expect(await storage.changeDependencyState(task.id, task.id, () => false)).toBeNull();
+    });
+  });
+
+  describe('Workflows', () => {
+    it('should store a workflow with its steps and edges', async () => {
+      const workflow = await storage.createWorkflow({
+        name: 'Pipeline',
+        steps: [{ id: 'build', task_id: 'task-1' }, { id: 'deploy', task_id: 'task-2' }],
+        edges: [{ from: 'build', to: 'deploy' }],
+      });
+
+      const loaded = await storage.getWorkflow(workflow.id);
+      expect(loaded?.steps).toEqual(workflow.steps);
+      expect(loaded?.edges).toEqual([{ from: 'build', to: 'deploy' }]);
+      expect(await storage.loadWorkflows()).toHaveLength(1);
+    });
+
+    it('should update and filter workflow runs', async () => {
+      const workflow = await storage.createWorkflow({
+        name: 'Pipeline',
+        steps: [{ id: 'build', task_id: 'task-1' }],
+        edges: [],
+      });
+      const run = await storage.createWorkflowRun({
+        workflow_id: workflow.id,
+        status: 'running',
+        trigger_type: 'manual',
+        steps: [{ step_id: 'build', task_id: 'task-1', depends_on: [], status: 'running' }],
+        started_at: new Date().toISOString(),
+      });
+
+      const updated = await storage.updateWorkflowRun(run.id, {
+        status: 'success',
+        steps: [{ ...run.steps[0]!, status: 'success', execution_id: 'exec-1' }],
+        completed_at: new Date().toISOString(),
+      });
+
+      expect(updated.steps[0]?.execution_id).toBe('exec-1');
+      expect(await storage.loadWorkflowRuns({ workflow_id: workflow.id, status: 'success' })).toHaveLength(1);
+      expect(await storage.loadWorkflowRuns({ status: 'running' })).toHaveLength(0);
+    });
+
+    it('should apply changes from every connection to the latest run', async () => {
+      const workflow = await storage.createWorkflow({
+        name: 'Pipeline',
+        steps: [{ id: 'test', task_id: 'task-1' }, { id: 'lint', task_id: 'task-2' }],
+        edges: [],
+      });
+      const run = await storage.createWorkflowRun({
+        workflow_id: workflow.id,
+        status: 'running',
+        trigger_type: 'manual',
+        steps: [
+          { step_id: 'test', task_id: 'task-1', depends_on: [], status: 'running' },
+          { step_id: 'lint', task_id: 'task-2', depends_on: [], status: 'running' },
+        ],
+        started_at: new Date().toISOString(),
+      });
+
+      // A second connection stands in for another worker process
+      const other = new SQLiteStorage(dbPath);
+      try {
+        const complete = (stepId: string) => (current: WorkflowRun) => {
+          current.steps.find(step => step.step_id === stepId)!.status = 'success';
+          return true;
+        };
+        await storage.changeWorkflowRun(run.id, complete('test'));
+        await other.changeWorkflowRun(run.id, complete('lint'));
+      } finally {
+        await other.close();
+      }
+
+      expect((await storage.getWorkflowRun(run.id))?.steps.map(step => step.status)).toEqual(['success', 'success']);
+      expect(await storage.changeWorkflowRun(run.id, () => false)).toBeNull();
+      await expect(storage.changeWorkflowRun('missing', () => true)).rejects.toThrow('Workflow run not found: missing');
+    });
+  });
+
   describe('Task Statistics', () => {
     let taskId: string;
 
@@ -9,6 +9,9 @@ import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { registerTools } from '../../../src/tools/index.js';
 import { Scheduler } from '../../../src/scheduler/scheduler.js';
 import { MockStorage, TestHelpers } from '../../fixtures/test-helpers.js';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 
 // Mock MCP Server
 class MockMCPServer {
@@ -60,7 +63,7 @@ describe('MCP Tools', () => {
     it('should register all ClaudeCron tools', async () => {
       const response = await server.listTools();
 
-      expect(response.tools).toHaveLength(11);
+      expect(response.tools).toHaveLength(25);
 
       const toolNames = response.tools.map((t: any) => t.name);
       expect(toolNames).toContain('claudecron_add_task');
@@ -72,6 +75,20 @@ describe('MCP Tools', () => {
       expect(toolNames).toContain('claudecron_list_executions');
       expect(toolNames).toContain('claudecron_get_execution');
       expect(toolNames).toContain('claudecron_get_execution_progress');
+      expect(toolNames).toContain('claudecron_cancel_execution');
+      expect(toolNames).toContain('claudecron_list_retries');
+      expect(toolNames).toContain('claudecron_cancel_retry');
+      expect(toolNames).toContain('claudecron_list_holidays');
+      expect(toolNames).toContain('claudecron_preview_schedule');
+      expect(toolNames).toContain('claudecron_pause');
+      expect(toolNames).toContain('claudecron_resume');
+      expect(toolNames).toContain('claudecron_snooze_task');
+      expect(toolNames).toContain('claudecron_create_workflow');
+      expect(toolNames).toContain('claudecron_list_workflows');
+      expect(toolNames).toContain('claudecron_run_workflow');
+      expect(toolNames).toContain('claudecron_list_workflow_runs');
+      expect(toolNames).toContain('claudecron_get_workflow_run');
+      expect(toolNames).toContain('claudecron_cancel_workflow_run');
       expect(toolNames).toContain('claudecron_trigger_hook');
       expect(toolNames).toContain('claudecron_get_tool_analytics');
     });
@@ -92,6 +109,20 @@ describe('MCP Tools', () => {
   });
 
   describe('claudecron_add_task', () => {
+    it('should reject a rate limit that does not parse', async () => {
+      const response = await server.callTool('claudecron_add_task', {
+        name: 'Limited',
+        type: 'bash',
+        task_config: { type: 'bash', command: 'echo limited' },
+        trigger: { type: 'manual' },
+        options: { rate_limit: { max_runs: 5, per: '1 hour' } },
+      });
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('Invalid rate_limit.per: "1 hour"');
+      expect(await storage.loadTasks()).toHaveLength(0);
+    });
+
     it('should create a new task', async () => {
       const response = await server.callTool('claudecron_add_task', {
         name: 'Test Task',
@@ -256,6 +287,33 @@ describe('MCP Tools', () => {
       expect(response.content[0].text).toContain(task.id);
     });
 
+    it('should include rate limit usage', async () => {
+      const task = await storage.createTask({
+        name: 'Limited',
+        enabled: true,
+        type: 'bash',
+        task_config: { type: 'bash', command: 'test' },
+        trigger: { type: 'manual', description: 'Test' },
+        options: { rate_limit: { max_runs: 5, per: '1d' } },
+        run_count: 0,
+        success_count: 0,
+        failure_count: 0
+      });
+      await storage.createExecution({
+        task_id: task.id,
+        trigger_type: 'manual',
+        status: 'success',
+        started_at: new Date().toISOString()
+      });
+
+      const response = await server.callTool('claudecron_get_task', {
+        id: task.id
+      });
+
+      const details = JSON.parse(response.content[0].text);
+      expect(details.rate_limit_usage).toMatchObject({ runs_in_window: 1, max_runs: 5, window: '1d' });
+    });
+
     it('should return error for missing id', async () => {
       const response = await server.callTool('claudecron_get_task', {});
 
@@ -310,6 +368,28 @@ describe('MCP Tools', () => {
       expect(response.isError).toBe(true);
       expect(response.content[0].text).toContain('Missing required fields');
     });
+
+    it('should reject an empty trigger list', async () => {
+      const task = await storage.createTask({
+        name: 'Original',
+        enabled: true,
+        type: 'bash',
+        task_config: { type: 'bash', command: 'test' },
+        trigger: { type: 'manual', description: 'Test' },
+        run_count: 0,
+        success_count: 0,
+        failure_count: 0
+      });
+
+      const response = await server.callTool('claudecron_update_task', {
+        id: task.id,
+        updates: { trigger: [] }
+      });
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('trigger list must not be empty');
+      expect((await storage.getTask(task.id))?.trigger).toEqual({ type: 'manual', description: 'Test' });
+    });
   });
 
   describe('claudecron_delete_task', () => {
@@ -343,6 +423,86 @@ describe('MCP Tools', () => {
       expect(response.isError).toBe(true);
       expect(response.content[0].text).toContain('Task not found');
     });
+
+    it('should refuse to delete a task others depend on unless forced', async () => {
+      const upstream = await storage.createTask(TestHelpers.createMockTask({ name: 'Build' }));
+      await server.callTool('claudecron_add_task', {
+        name: 'Deploy',
+        type: 'bash',
+        task_config: { type: 'bash', command: 'echo deploy' },
+        trigger: { type: 'dependency', depends_on: [upstream.id] },
+      });
+
+      const refused = await server.callTool('claudecron_delete_task', { id: upstream.id });
+      expect(refused.isError).toBe(true);
+      expect(refused.content[0].text).toContain('Task "Build" is a dependency of "Deploy"');
+      expect(await storage.getTask(upstream.id)).not.toBeNull();
+
+      const forced = await server.callTool('claudecron_delete_task', { id: upstream.id, force: true });
+      expect(forced.content[0].text).toContain('deleted successfully');
+      expect(scheduler.dependencyManager.getDependents(upstream.id)).toEqual([]);
+    });
+  });
+
+  describe('dependency changes', () => {
+    async function addDependent(name: string, dependsOn: string[]) {
+      await server.callTool('claudecron_add_task', {
+        name,
+        type: 'bash',
+        task_config: { type: 'bash', command: `echo ${name}` },
+        trigger: { type: 'dependency', depends_on: dependsOn },
+      });
+      return (await storage.loadTasks()).find(task => task.name === name)!;
+    }
+
+    it('should add new dependency tasks to the graph without a restart', async () => {
+      const upstream = await storage.createTask(TestHelpers.createMockTask({ name: 'Build' }));
+      const dependent = await addDependent('Deploy', [upstream.id]);
+
+      expect(scheduler.dependencyManager.getDependents(upstream.id)).toEqual([dependent.id]);
+    });
+
+    it('should reject dependencies on missing tasks', async () => {
+      const response = await server.callTool('claudecron_add_task', {
+        name: 'Orphan',
+        type: 'bash',
+        task_config: { type: 'bash', command: 'echo orphan' },
+        trigger: { type: 'dependency', depends_on: ['missing'] },
+      });
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('depends on non-existent task missing');
+      expect(await storage.loadTasks()).toHaveLength(0);
+    });
+
+    it('should reject an update that closes a cycle', async () => {
+      const a = await storage.createTask(TestHelpers.createMockTask({ name: 'A' }));
+      const b = await addDependent('B', [a.id]);
+      const c = await addDependent('C', [b.id]);
+
+      const response = await server.callTool('claudecron_update_task', {
+        id: a.id,
+        updates: { trigger: { type: 'dependency', depends_on: [c.id] } },
+      });
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain(`Circular dependency detected for task A: ${a.id} -> ${b.id} -> ${c.id} -> ${a.id}`);
+      expect((await storage.getTask(a.id))!.trigger.type).not.toBe('dependency');
+    });
+
+    it('should move a dependent when its depends_on changes', async () => {
+      const a = await storage.createTask(TestHelpers.createMockTask({ name: 'A' }));
+      const b = await storage.createTask(TestHelpers.createMockTask({ name: 'B' }));
+      const dependent = await addDependent('C', [a.id]);
+
+      await server.callTool('claudecron_update_task', {
+        id: dependent.id,
+        updates: { trigger: { type: 'dependency', depends_on: [b.id] } },
+      });
+
+      expect(scheduler.dependencyManager.getDependents(a.id)).toEqual([]);
+      expect(scheduler.dependencyManager.getDependents(b.id)).toEqual([dependent.id]);
+    });
   });
 
   describe('claudecron_run_task', () => {
@@ -394,6 +554,193 @@ describe('MCP Tools', () => {
     });
   });
 
+  describe('claudecron_cancel_execution', () => {
+    it('should cancel a running execution', async () => {
+      const task = await storage.createTask({
+        name: 'Long Run',
+        enabled: true,
+        type: 'bash',
+        task_config: { type: 'bash', command: 'echo partial; sleep 10' },
+        trigger: { type: 'manual', description: 'Test' },
+        run_count: 0,
+        success_count: 0,
+        failure_count: 0
+      });
+
+      const executionId = await scheduler.executeTask(task.id);
+      await TestHelpers.sleep(300);
+
+      const response = await server.callTool('claudecron_cancel_execution', {
+        execution_id: executionId,
+        reason: 'No longer needed'
+      });
+      expect(response.content[0].text).toContain('Cancellation requested');
+
+      await TestHelpers.sleep(500);
+
+      const execution = await storage.getExecution(executionId);
+      expect(execution?.status).toBe('cancelled');
+      expect(execution?.error).toContain('No longer needed');
+      expect(execution?.output).toBe('partial');
+
+      const updated = await storage.getTask(task.id);
+      expect(updated?.run_count).toBe(1);
+      expect(updated?.failure_count).toBe(0);
+    }, 10000);
+
+    it('should reject executions that are not active', async () => {
+      const task = await storage.createTask(TestHelpers.createMockTask());
+      const execution = await storage.createExecution({
+        task_id: task.id,
+        trigger_type: 'manual',
+        status: 'success',
+        started_at: new Date().toISOString()
+      });
+
+      const response = await server.callTool('claudecron_cancel_execution', {
+        execution_id: execution.id
+      });
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('not active');
+    });
+  });
+
+  describe('claudecron_list_holidays', () => {
+    it('should list upcoming holidays from a task calendar', async () => {
+      const calendar = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'claudecron-')), 'shutdown.json');
+      const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+      fs.writeFileSync(calendar, JSON.stringify([{ date: tomorrow, name: 'Company shutdown' }]));
+
+      const task = await storage.createTask(TestHelpers.createMockTask({
+        conditions: { holiday_calendars: [calendar] }
+      }));
+
+      const response = await server.callTool('claudecron_list_holidays', { task_id: task.id, days: 7 });
+
+      expect(response.content[0].text).toContain('Found 1 holiday(s)');
+      expect(response.content[0].text).toContain('Company shutdown');
+      expect(response.content[0].text).toContain(tomorrow);
+    });
+
+    it('should report tasks that do not skip holidays', async () => {
+      const task = await storage.createTask(TestHelpers.createMockTask({ conditions: {} }));
+
+      const response = await server.callTool('claudecron_list_holidays', { task_id: task.id });
+
+      expect(response.content[0].text).toContain('No holidays affect task');
+    });
+  });
+
+  describe('claudecron_preview_schedule', () => {
+    it('should preview an unsaved trigger and mark skipped runs', async () => {
+      const response = await server.callTool('claudecron_preview_schedule', {
+        trigger: { type: 'schedule', cron: '0 12 * * *', timezone: 'UTC' },
+        conditions: { time_window: { start: '09:00', end: '11:00' } },
+        count: 3
+      });
+
+      expect(response.isError).toBeFalsy();
+      expect(response.content[0].text).toContain('Next 3 run(s) of unsaved trigger, 3 skipped');
+      expect(response.content[0].text).toContain('time_window: outside 09:00-11:00 UTC');
+    });
+
+    it('should apply overrides to a saved task', async () => {
+      const task = await storage.createTask(TestHelpers.createScheduledTask());
+
+      const response = await server.callTool('claudecron_preview_schedule', {
+        task_id: task.id,
+        trigger: { type: 'interval', every: '1h' },
+        count: 2
+      });
+
+      expect(response.content[0].text).toContain('Next 2 run(s) of');
+      expect(response.content[0].text).toContain('0 skipped');
+    });
+
+    it('should reject event-driven triggers', async () => {
+      const response = await server.callTool('claudecron_preview_schedule', {
+        trigger: { type: 'manual', description: 'Test' }
+      });
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('has no schedule to preview');
+    });
+  });
+
+  describe('claudecron_pause / claudecron_resume', () => {
+    it('should show the pause in the task listing until resumed', async () => {
+      await storage.createTask(TestHelpers.createMockTask());
+
+      const paused = await server.callTool('claudecron_pause', { reason: 'deploy freeze', duration: '2h' });
+      expect(paused.content[0].text).toContain('Scheduler paused until');
+
+      const listing = await server.callTool('claudecron_list_tasks', {});
+      expect(listing.content[0].text).toMatch(/^Scheduler paused \(deploy freeze\) until /);
+
+      const resumed = await server.callTool('claudecron_resume', {});
+      expect(resumed.content[0].text).toBe('Scheduler resumed.');
+      expect(scheduler.getStatus().paused).toBeUndefined();
+    });
+  });
+
+  describe('claudecron_snooze_task', () => {
+    it('should snooze a task and end the snooze', async () => {
+      const task = await storage.createTask(TestHelpers.createMockTask({ name: 'Noisy' }));
+
+      const response = await server.callTool('claudecron_snooze_task', { id: task.id, duration: '1d' });
+      expect(response.content[0].text).toContain('Task "Noisy" snoozed until');
+
+      const listing = await server.callTool('claudecron_list_tasks', {});
+      expect(listing.content[0].text).toContain('"snoozed_until"');
+
+      await server.callTool('claudecron_snooze_task', { id: task.id, cancel: true });
+      expect((await storage.getTask(task.id))?.snoozed_until).toBeFalsy();
+    });
+
+    it('should require an end time', async () => {
+      const task = await storage.createTask(TestHelpers.createMockTask());
+
+      const response = await server.callTool('claudecron_snooze_task', { id: task.id });
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('Missing required field: until or duration');
+    });
+  });
+
+  describe('workflow tools', () => {
+    it('should create, run and inspect a workflow', async () => {
+      const task = await storage.createTask(TestHelpers.createMockTask({ name: 'Build' }));
+
+      const created = await server.callTool('claudecron_create_workflow', {
+        name: 'Nightly',
+        steps: [{ id: 'build', task_id: task.id }],
+      });
+      expect(created.content[0].text).toContain('Workflow "Nightly" created successfully!');
+
+      const [workflow] = await storage.loadWorkflows();
+      const started = await server.callTool('claudecron_run_workflow', { id: workflow!.id });
+      expect(started.content[0].text).toContain('Workflow run started.');
+
+      const [run] = await storage.loadWorkflowRuns({ workflow_id: workflow!.id });
+      const inspected = await server.callTool('claudecron_get_workflow_run', { id: run!.id });
+      expect(JSON.parse(inspected.content[0].text).steps[0].step_id).toBe('build');
+    });
+
+    it('should reject workflows with a cycle', async () => {
+      const task = await storage.createTask(TestHelpers.createMockTask());
+
+      const response = await server.callTool('claudecron_create_workflow', {
+        name: 'Loop',
+        steps: [{ id: 'a', task_id: task.id }, { id: 'b', task_id: task.id }],
+        edges: [{ from: 'a', to: 'b' }, { from: 'b', to: 'a' }],
+      });
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('Workflow has a cycle between steps: a, b');
+    });
+  });
+
   describe('claudecron_list_executions', () => {
     let taskId: string;
 
@@ -0,0 +1,62 @@
+/**
+ * Timezone Utilities Unit Tests
+ *
+ * Tests wall-clock conversion in IANA timezones across DST changes
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getZonedTime, nextAlignedTime, parseZonedDateTime } from '../../../src/utils/timezone.js';
+
+describe('Timezone Utilities', () => {
+  describe('getZonedTime', () => {
+    it('should return wall-clock fields in the timezone', () => {
+      const zoned = getZonedTime(new Date('2025-06-13T23:30:00Z'), 'Asia/Tokyo');
+
+      expect(zoned).toMatchObject({ year: 2025, month: 6, day: 14, hour: 8, minute: 30, weekday: 6 });
+    });
+  });
+
+  describe('nextAlignedTime', () => {
+    it('should align to wall-clock boundaries in the timezone', () => {
+      const next = nextAlignedTime(new Date('2025-06-10T10:05:00Z'), 60 * 60 * 1000, 'Asia/Kolkata');
+
+      expect(next.toISOString()).toBe('2025-06-10T10:30:00.000Z'); // 16:00 IST
+    });
+
+    it('should keep daily boundaries at local midnight across DST', () => {
+      const day = 24 * 60 * 60 * 1000;
+
+      const first = nextAlignedTime(new Date('2025-03-08T12:00:00Z'), day, 'America/New_York');
+      expect(first.toISOString()).toBe('2025-03-09T05:00:00.000Z');
+
+      const second = nextAlignedTime(first, day, 'America/New_York');
+      expect(second.toISOString()).toBe('2025-03-10T04:00:00.000Z');
+    });
+  });
+
+  describe('parseZonedDateTime', () => {
+    it('should read datetimes without an offset as wall time in the timezone', () => {
+      expect(parseZonedDateTime('2025-01-15T17:30', 'America/New_York').toISOString())
+        .toBe('2025-01-15T22:30:00.000Z');
+      expect(parseZonedDateTime('2025-07-15T17:30:00', 'America/New_York').toISOString())
+        .toBe('2025-07-15T21:30:00.000Z');
+    });
+
+    it('should use the offset in effect right after a DST change', () => {
+      // Clocks in Berlin moved from 02:00 CET to 03:00 CEST on 2025-03-30
+      expect(parseZonedDateTime('2025-03-30T03:30', 'Europe/Berlin').toISOString())
+        .toBe('2025-03-30T01:30:00.000Z');
+      expect(parseZonedDateTime('2025-03-30T01:30', 'Europe/Berlin').toISOString())
+        .toBe('2025-03-30T00:30:00.000Z');
+    });
+
+    it('should keep explicit offsets', () => {
+      expect(parseZonedDateTime('2025-06-10T17:30:00+02:00', 'America/New_York').toISOString())
+        .toBe('2025-06-10T15:30:00.000Z');
+    });
+
+    it('should return an invalid date for unparseable input', () => {
+      expect(isNaN(parseZonedDateTime('tomorrow', 'UTC').getTime())).toBe(true);
+    });
+  });
+});
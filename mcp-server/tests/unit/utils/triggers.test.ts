@@ -0,0 +1,69 @@
+/**
+ * Trigger Utilities Unit Tests
+ *
+ * Tests splitting tasks with one or several triggers into per-trigger views
+ */
+
+import { describe, it, expect } from 'vitest';
+import { TestHelpers } from '../../fixtures/test-helpers.js';
+import {
+  getTaskTriggers,
+  getTaskTrigger,
+  describeTriggerTypes,
+  isTriggerKeyOf
+} from '../../../src/utils/triggers.js';
+
+describe('Trigger Utilities', () => {
+  const single = TestHelpers.createMockTask({ id: 'single', trigger: { type: 'schedule', cron: '0 9 * * *' } });
+  const multi = TestHelpers.createMockTask({
+    id: 'multi',
+    last_run: '2025-06-13T09:00:00.000Z',
+    trigger: [
+      { type: 'schedule', cron: '0 9 * * *' },
+      { type: 'interval', every: '1h' },
+      { type: 'hook', event: 'SessionStart' }
+    ]
+  });
+
+  describe('getTaskTriggers', () => {
+    it('should return a single trigger task as is', () => {
+      const views = getTaskTriggers(single);
+
+      expect(views).toHaveLength(1);
+      expect(views[0]).toEqual({ task: single, key: 'single' });
+    });
+
+    it('should split a trigger list into keyed views', () => {
+      const views = getTaskTriggers(multi);
+
+      expect(views.map(view => [view.key, view.index, view.task.trigger.type])).toEqual([
+        ['multi#0', 0, 'schedule'],
+        ['multi#1', 1, 'interval'],
+        ['multi#2', 2, 'hook']
+      ]);
+      // Interval triggers in a list do not resume from another trigger's run
+      expect(views[0]?.task.last_run).toBe(multi.last_run);
+      expect(views[1]?.task.last_run).toBeUndefined();
+    });
+
+    it('should filter by trigger type', () => {
+      expect(getTaskTriggers(multi, 'hook').map(view => view.task.trigger.event)).toEqual(['SessionStart']);
+      expect(getTaskTriggers(single, 'hook')).toEqual([]);
+    });
+  });
+
+  describe('getTaskTrigger', () => {
+    it('should return null when the trigger no longer exists', () => {
+      expect(getTaskTrigger(multi, 1)?.key).toBe('multi#1');
+      expect(getTaskTrigger(multi, 5)).toBeNull();
+      expect(getTaskTrigger(multi)).toBeNull();
+      expect(getTaskTrigger(single, 0)).toBeNull();
+    });
+  });
+
+  it('should describe trigger types and match job keys', () => {
+    expect(describeTriggerTypes(multi)).toBe('schedule, interval, hook');
+    expect(isTriggerKeyOf('multi#2', 'multi')).toBe(true);
+    expect(isTriggerKeyOf('multi-2', 'multi')).toBe(false);
+  });
+});